@@ -0,0 +1,30 @@
+/**
+ * Supabase JWT verification for API handlers.
+ * The client sends its session access token as `Authorization: Bearer <jwt>`.
+ */
+
+import type { VercelRequest } from '@vercel/node';
+import type { User } from '@supabase/supabase-js';
+import { requireSupabaseAdmin } from './supabaseAdmin.js';
+
+function getBearerToken(req: VercelRequest): string | null {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) return null;
+  const token = header.slice('Bearer '.length).trim();
+  return token || null;
+}
+
+/** Returns the signed-in user, or null when the token is missing, expired or invalid */
+export async function getAuthenticatedUser(req: VercelRequest): Promise<User | null> {
+  const token = getBearerToken(req);
+  if (!token) return null;
+  const { data, error } = await requireSupabaseAdmin().auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user;
+}
+
+/** Vercel Cron calls carry `Authorization: Bearer $CRON_SECRET`; false when the secret isn't configured */
+export function isCronRequest(req: VercelRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  return Boolean(secret) && getBearerToken(req) === secret;
+}
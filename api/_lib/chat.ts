@@ -0,0 +1,84 @@
+/**
+ * LaoZhang chat completions (OpenAI-compatible), used by the text helpers:
+ * /api/enhance-prompt and /api/describe-image.
+ */
+
+import { ProviderError } from './providers.js';
+
+const LAOZHANG_API_KEY = process.env.LAOZHANG_API_KEY;
+const LAOZHANG_API_URL = process.env.LAOZHANG_API_URL || 'https://api.laozhang.ai';
+
+export type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: 'low' | 'high' | 'auto' } };
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ChatContentPart[];
+}
+
+export interface ChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature: number;
+}
+
+/** Text + image_url parts for a vision request (`detail: 'low'` is plenty to name the subject) */
+export function withImages(text: string, imageUrls: string[], detail: 'low' | 'high' = 'low'): string | ChatContentPart[] {
+  if (imageUrls.length === 0) return text;
+  return [
+    { type: 'text', text },
+    ...imageUrls.map((url): ChatContentPart => ({ type: 'image_url', image_url: { url, detail } })),
+  ];
+}
+
+/** Model sometimes wraps its answer in quotes ("prompt") */
+export function stripWrappingQuotes(text: string): string {
+  if ((text.startsWith('"') && text.endsWith('"')) || (text.startsWith("'") && text.endsWith("'"))) {
+    return text.slice(1, -1).trim();
+  }
+  return text;
+}
+
+/**
+ * Run a chat completion and return the trimmed reply text.
+ * Throws ProviderError (status 500) on upstream failures or an empty reply.
+ */
+export async function createChatCompletion(request: ChatRequest): Promise<string> {
+  const response = await fetch(`${LAOZHANG_API_URL}/v1/chat/completions`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${LAOZHANG_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model: request.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+    }),
+  });
+
+  if (!response.ok) {
+    const errText = await response.text();
+    let errMsg = `API error: ${response.status}`;
+    try {
+      const errData = JSON.parse(errText);
+      errMsg = errData.error?.message || errData.error || errMsg;
+    } catch {
+      if (errText) errMsg = errText.slice(0, 200);
+    }
+    console.error('LaoZhang chat error:', response.status, errMsg);
+    throw new ProviderError(errMsg, 500);
+  }
+
+  const result = (await response.json()) as {
+    choices?: Array<{ message?: { content?: string } }>;
+  };
+  const content = result.choices?.[0]?.message?.content?.trim();
+  if (!content) {
+    throw new ProviderError('Empty response from the model', 500);
+  }
+  return content;
+}
@@ -0,0 +1,92 @@
+/**
+ * Server-side credit metering on profiles.credits via the deduct_credits / add_credits SQL functions,
+ * or on a team workspace's pool (workspaces.credits) via deduct_workspace_credits / refund_workspace_credits.
+ * Credits are reserved before a job starts and refunded if it fails.
+ */
+
+import { requireSupabaseAdmin } from './supabaseAdmin.js';
+
+/** Appended to job errors when the charge was refunded - App.tsx strips it and refetches credits */
+export const CREDITS_REFUNDED_MARKER = '[CREDITS_REFUNDED]';
+
+/** The workspace pool refused a charge: not a member (403) or the member's monthly cap is used up (402) */
+export class WorkspaceCreditError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'WorkspaceCreditError';
+    this.status = status;
+  }
+}
+
+/**
+ * Atomically take `amount` credits. Returns the remaining balance, or null when the user
+ * doesn't have enough (nothing is deducted in that case).
+ */
+export async function reserveCredits(userId: string, amount: number): Promise<number | null> {
+  const { data, error } = await requireSupabaseAdmin().rpc('deduct_credits', {
+    p_user_id: userId,
+    p_amount: amount,
+  });
+  if (error) throw new Error(`Failed to reserve credits: ${error.message}`);
+  return typeof data === 'number' ? data : null;
+}
+
+/** Give reserved credits back. Returns false (and logs) when the refund itself fails. */
+export async function refundCredits(userId: string, amount: number): Promise<boolean> {
+  const { error } = await requireSupabaseAdmin().rpc('add_credits', {
+    p_user_id: userId,
+    p_amount: amount,
+  });
+  if (error) {
+    console.error(`Failed to refund ${amount} credits to ${userId}:`, error.message);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Atomically take `amount` credits from a workspace pool for one of its members, counting it
+ * against their monthly cap. Returns the pool's remaining balance, or null when the pool is short.
+ */
+export async function reserveWorkspaceCredits(workspaceId: string, userId: string, amount: number): Promise<number | null> {
+  const { data, error } = await requireSupabaseAdmin().rpc('deduct_workspace_credits', {
+    p_workspace_id: workspaceId,
+    p_user_id: userId,
+    p_amount: amount,
+  });
+  if (error) {
+    if (error.message.includes('WORKSPACE_NOT_MEMBER')) {
+      throw new WorkspaceCreditError('You are not a member of this workspace', 403);
+    }
+    if (error.message.includes('WORKSPACE_READ_ONLY')) {
+      throw new WorkspaceCreditError('Viewers cannot spend workspace credits - ask an owner for editor access', 403);
+    }
+    if (error.message.includes('WORKSPACE_CAP_REACHED')) {
+      throw new WorkspaceCreditError('You have reached your monthly credit limit in this workspace', 402);
+    }
+    throw new Error(`Failed to reserve workspace credits: ${error.message}`);
+  }
+  return typeof data === 'number' ? data : null;
+}
+
+/** Give pool credits back (and off the member's spend for the month of `chargedAt`). Returns false (and logs) on failure. */
+export async function refundWorkspaceCredits(
+  workspaceId: string,
+  userId: string,
+  amount: number,
+  chargedAt: string = new Date().toISOString()
+): Promise<boolean> {
+  const { error } = await requireSupabaseAdmin().rpc('refund_workspace_credits', {
+    p_workspace_id: workspaceId,
+    p_user_id: userId,
+    p_amount: amount,
+    p_charged_at: chargedAt,
+  });
+  if (error) {
+    console.error(`Failed to refund ${amount} credits to workspace ${workspaceId}:`, error.message);
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,218 @@
+/**
+ * public.images rows written by the API (service role), and the JSON shape returned to the client.
+ */
+
+import type { EditRegion } from '../../src/config/edits.js';
+import type { DerivationType } from '../../src/config/lineage.js';
+import type { WildcardResolution } from '../../src/config/wildcards.js';
+import { removeUploadedImage, uploadGeneratedImage, type ThumbVariants, type UploadedImage } from './storage.js';
+import { requireSupabaseAdmin } from './supabaseAdmin.js';
+
+export interface ImageRow {
+  id: string;
+  created_at: string;
+  user_id: string | null;
+  prompt: string | null;
+  aspect_ratio: string | null;
+  image_size: string | null;
+  storage_path: string;
+  thumb_storage_path: string | null;
+  thumb_variants: ThumbVariants | null;
+  file_name: string | null;
+  reference_image_urls: string[] | null;
+  model: string | null;
+  folder_id: string | null;
+  edit_regions: EditRegion[] | null;
+  parent_image_id: string | null;
+  derivation_type: DerivationType | null;
+  wildcards: WildcardResolution | null;
+}
+
+/** What /api/generate (via the job status route) hands back for a saved image */
+export interface StoredImageResponse {
+  id: string;
+  createdAt: string;
+  url: string;
+  thumbUrl: string;
+  storagePath: string;
+  thumbStoragePath: string | null;
+  /** Responsive WebP thumbnails for <img srcset> */
+  thumbSrcSet: string;
+  prompt: string;
+  aspectRatio: string;
+  imageSize: string;
+  model: string | null;
+  referenceImageUrls: string[];
+  folderId: string | null;
+  /** Set for region edits, so the edit can be re-run or tweaked */
+  editRegions: EditRegion[] | null;
+  /** Image this one was derived from (null for fresh generations) */
+  parentImageId: string | null;
+  derivationType: DerivationType | null;
+  /** Wildcard values drawn for this image's prompt (the stored prompt is already resolved) */
+  wildcards: WildcardResolution | null;
+}
+
+export interface NewImageRow {
+  userId: string;
+  upload: UploadedImage;
+  prompt: string;
+  aspectRatio: string;
+  imageSize: string;
+  model: string;
+  referenceImageUrls: string[];
+  folderId: string | null;
+  editRegions?: EditRegion[];
+  parent?: ImageParent | null;
+  wildcards?: WildcardResolution | null;
+}
+
+export interface ImageParent {
+  imageId: string;
+  derivationType: DerivationType;
+}
+
+/** The user's role in a workspace, or null when they aren't a member */
+async function getWorkspaceRole(userId: string, workspaceId: string): Promise<string | null> {
+  const { data, error } = await requireSupabaseAdmin()
+    .from('workspace_members')
+    .select('role')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to check workspace role: ${error.message}`);
+  return (data as { role: string } | null)?.role ?? null;
+}
+
+/**
+ * True when the user may save images into the folder: their own personal folder, or a workspace folder
+ * where they are an owner or editor (folder_id null = "My Kreations", always allowed)
+ */
+export async function canUseFolder(userId: string, folderId: string | null): Promise<boolean> {
+  if (folderId === null) return true;
+  const { data, error } = await requireSupabaseAdmin()
+    .from('folders')
+    .select('user_id, workspace_id')
+    .eq('id', folderId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to check folder: ${error.message}`);
+  if (!data) return false;
+  const folder = data as { user_id: string; workspace_id: string | null };
+  if (!folder.workspace_id) return folder.user_id === userId;
+
+  const role = await getWorkspaceRole(userId, folder.workspace_id);
+  return role === 'owner' || role === 'editor';
+}
+
+/** Own images, plus teammates' images in a workspace folder where the user is an owner or editor */
+async function canWorkFromImage(userId: string, image: Pick<ImageRow, 'user_id' | 'folder_id'>): Promise<boolean> {
+  if (image.user_id === userId) return true;
+  return image.folder_id !== null && (await canUseFolder(userId, image.folder_id));
+}
+
+/**
+ * An image row the user can derive new images from (upscale, extend), or null when it doesn't exist
+ * or the user can't use it - see canWorkFromImage
+ */
+export async function getUserImage(userId: string, imageId: string): Promise<ImageRow | null> {
+  const { data, error } = await requireSupabaseAdmin()
+    .from('images')
+    .select('*')
+    .eq('id', imageId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load image: ${error.message}`);
+  const image = (data as ImageRow | null) ?? null;
+  return image && (await canWorkFromImage(userId, image)) ? image : null;
+}
+
+/** True when the image exists and the user can work from it - only then can it be recorded as a parent */
+export async function canUseParentImage(userId: string, imageId: string): Promise<boolean> {
+  const { data, error } = await requireSupabaseAdmin()
+    .from('images')
+    .select('user_id, folder_id')
+    .eq('id', imageId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to check parent image: ${error.message}`);
+  return data ? canWorkFromImage(userId, data as Pick<ImageRow, 'user_id' | 'folder_id'>) : false;
+}
+
+export async function insertImageRow(input: NewImageRow): Promise<StoredImageResponse> {
+  const { data, error } = await requireSupabaseAdmin()
+    .from('images')
+    .insert({
+      user_id: input.userId,
+      prompt: input.prompt,
+      aspect_ratio: input.aspectRatio,
+      image_size: input.imageSize,
+      storage_path: input.upload.storagePath,
+      thumb_storage_path: input.upload.thumbStoragePath,
+      thumb_variants: input.upload.thumbVariants,
+      file_name: input.upload.fileName,
+      reference_image_urls: input.referenceImageUrls,
+      model: input.model,
+      folder_id: input.folderId,
+      ...(input.editRegions ? { edit_regions: input.editRegions } : {}),
+      ...(input.parent ? { parent_image_id: input.parent.imageId, derivation_type: input.parent.derivationType } : {}),
+      ...(input.wildcards ? { wildcards: input.wildcards } : {}),
+    })
+    .select()
+    .single();
+  if (error) throw new Error(`Database error: ${error.message}`);
+  return toImageResponse(data as ImageRow, input.upload);
+}
+
+/**
+ * Upload a provider result (full image + thumbnails) and insert its images row.
+ * Saved server-side so the image survives the tab closing mid-render; uploads are removed if the insert fails.
+ */
+export async function saveGeneratedImage(
+  input: Omit<NewImageRow, 'upload'> & { base64Data: string; mimeType: string }
+): Promise<StoredImageResponse> {
+  const { base64Data, mimeType, ...row } = input;
+  const upload = await uploadGeneratedImage(base64Data, mimeType);
+  try {
+    return await insertImageRow({ ...row, upload });
+  } catch (err) {
+    await removeUploadedImage(upload);
+    throw err;
+  }
+}
+
+/** Remove a saved image (row + uploads), e.g. when its job was cancelled mid-render. Best-effort. */
+export async function deleteSavedImage(image: Pick<StoredImageResponse, 'id'>): Promise<void> {
+  const { data, error } = await requireSupabaseAdmin()
+    .from('images')
+    .delete()
+    .eq('id', image.id)
+    .select('storage_path, thumb_variants')
+    .maybeSingle();
+  if (error) {
+    console.error(`Failed to delete image ${image.id}:`, error.message);
+    return;
+  }
+  if (!data) return;
+  const row = data as Pick<ImageRow, 'storage_path' | 'thumb_variants'>;
+  await removeUploadedImage({ storagePath: row.storage_path, thumbVariants: row.thumb_variants ?? {} });
+}
+
+function toImageResponse(row: ImageRow, upload: Pick<UploadedImage, 'url' | 'thumbUrl' | 'thumbSrcSet'>): StoredImageResponse {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    url: upload.url,
+    thumbUrl: upload.thumbUrl,
+    storagePath: row.storage_path,
+    thumbStoragePath: row.thumb_storage_path,
+    thumbSrcSet: upload.thumbSrcSet,
+    prompt: row.prompt ?? '',
+    aspectRatio: row.aspect_ratio ?? '',
+    imageSize: row.image_size ?? '',
+    model: row.model,
+    referenceImageUrls: row.reference_image_urls ?? [],
+    folderId: row.folder_id,
+    editRegions: row.edit_regions ?? null,
+    parentImageId: row.parent_image_id ?? null,
+    derivationType: row.derivation_type ?? null,
+    wildcards: row.wildcards ?? null,
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * Mask-based inpainting. The model sees the source image, the mask and the instruction, but its
+ * output is only trusted inside the mask: it is pasted over the original through the mask, so
+ * every pixel outside it stays identical to the source.
+ */
+
+import sharp from 'sharp';
+
+/** Provider prompt for an inpaint. Mask convention: white = repaint, black = keep (soft edges blend) */
+export function buildInpaintPrompt(instruction: string): string {
+  return (
+    'Edit the first image. The second image is a black-and-white mask of the same picture: ' +
+    'change only the area that is white in the mask and keep everything else exactly as it is. ' +
+    'Blend the edit into its surroundings (lighting, perspective, texture, grain) and never draw the mask itself. ' +
+    `Edit: ${instruction}`
+  );
+}
+
+/**
+ * Composite `edited` over `original` through `mask`. The edit and mask are scaled to the original's
+ * size (the model may return another resolution). Returns a lossless PNG.
+ */
+export async function compositeInsideMask(original: Buffer, edited: Buffer, mask: Buffer): Promise<Buffer> {
+  const { width, height } = await sharp(original).metadata();
+  if (!width || !height) throw new Error('Could not read the source image size');
+
+  const alpha = await sharp(mask)
+    .resize(width, height, { fit: 'fill' })
+    .greyscale()
+    .extractChannel(0)
+    .raw()
+    .toBuffer();
+  if (!alpha.some((v) => v > 0)) throw new Error('The mask is empty - paint the area to change');
+
+  // Two passes: sharp applies removeAlpha after joinChannel within a single pipeline
+  const rgb = await sharp(edited)
+    .resize(width, height, { fit: 'cover' })
+    .removeAlpha()
+    .raw()
+    .toBuffer();
+  const patch = await sharp(rgb, { raw: { width, height, channels: 3 } })
+    .joinChannel(alpha, { raw: { width, height, channels: 1 } })
+    .png()
+    .toBuffer();
+
+  return sharp(original).composite([{ input: patch }]).png().toBuffer();
+}
@@ -0,0 +1,214 @@
+/**
+ * Generation jobs (public.generation_jobs).
+ * POST /api/generate creates a pending job and returns 202 + jobId; the work keeps running
+ * after the response (waitUntil) and the client follows it on the /api/generate/events stream,
+ * falling back to polling /api/generate/status/:jobId.
+ * POST /api/generate/cancel/:jobId stops a pending/running job and refunds it.
+ */
+
+import {
+  CREDITS_REFUNDED_MARKER,
+  refundCredits,
+  refundWorkspaceCredits,
+  reserveCredits,
+  reserveWorkspaceCredits,
+} from './credits.js';
+import { deleteSavedImage, type StoredImageResponse } from './images.js';
+import { requireSupabaseAdmin } from './supabaseAdmin.js';
+
+export type JobStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/** Succeeded jobs hold the saved images row (as returned to the client) */
+export type GenerationJobResult = StoredImageResponse;
+
+export interface GenerationJob {
+  id: string;
+  user_id: string | null;
+  status: JobStatus;
+  model: string;
+  prompt: string;
+  aspect_ratio: string;
+  image_size: string;
+  /** Credits reserved for this job; refunded if it fails */
+  credits: number;
+  /** Workspace pool the credits came from (null = the user's own balance); kept if the workspace is deleted */
+  workspace_id: string | null;
+  result: GenerationJobResult | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+export interface NewGenerationJob {
+  userId: string;
+  model: string;
+  prompt: string;
+  aspectRatio: string;
+  imageSize: string;
+  credits: number;
+  /** Charge the workspace's shared pool instead of the user's balance */
+  workspaceId?: string | null;
+}
+
+/** Matches the maxDuration of the generate function - a job still running after this was killed mid-flight */
+export const JOB_TIMEOUT_MS = 300 * 1000;
+
+const TABLE = 'generation_jobs';
+
+export async function createJob(input: NewGenerationJob): Promise<GenerationJob> {
+  const { data, error } = await requireSupabaseAdmin()
+    .from(TABLE)
+    .insert({
+      user_id: input.userId,
+      status: 'pending',
+      model: input.model,
+      prompt: input.prompt,
+      aspect_ratio: input.aspectRatio,
+      image_size: input.imageSize,
+      credits: input.credits,
+      ...(input.workspaceId ? { workspace_id: input.workspaceId } : {}),
+    })
+    .select()
+    .single();
+  if (error) throw new Error(`Failed to create job: ${error.message}`);
+  return data as GenerationJob;
+}
+
+/** Give a job's credits back to whichever balance paid for it */
+// A job charged to a deleted workspace's pool gets no refund - never fall back to the user's own credits
+function refundJobCredits(userId: string, workspaceId: string | null, amount: number, chargedAt?: string): Promise<boolean> {
+  return workspaceId
+    ? refundWorkspaceCredits(workspaceId, userId, amount, chargedAt)
+    : refundCredits(userId, amount);
+}
+
+/**
+ * Reserve the job's credits (from the workspace pool when workspaceId is set), then create it.
+ * Returns null when the balance can't cover it; a refused workspace charge throws WorkspaceCreditError.
+ * If the job row can't be created the credits go straight back (error carries the refund marker).
+ */
+export async function startJob(input: NewGenerationJob): Promise<{ job: GenerationJob; remainingCredits: number } | null> {
+  const workspaceId = input.workspaceId ?? null;
+  const remainingCredits = workspaceId
+    ? await reserveWorkspaceCredits(workspaceId, input.userId, input.credits)
+    : await reserveCredits(input.userId, input.credits);
+  if (remainingCredits === null) return null;
+  try {
+    return { job: await createJob(input), remainingCredits };
+  } catch (err) {
+    const refunded = await refundJobCredits(input.userId, workspaceId, input.credits);
+    throw new Error(`${err instanceof Error ? err.message : 'Failed to start generation'}${refunded ? ` ${CREDITS_REFUNDED_MARKER}` : ''}`);
+  }
+}
+
+export async function getJob(jobId: string): Promise<GenerationJob | null> {
+  const { data, error } = await requireSupabaseAdmin()
+    .from(TABLE)
+    .select('*')
+    .eq('id', jobId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load job: ${error.message}`);
+  return (data as GenerationJob | null) ?? null;
+}
+
+/** The user's unfinished jobs plus any that changed since `since` (the events stream's view) */
+export async function listUserJobs(userId: string, since: Date): Promise<GenerationJob[]> {
+  const { data, error } = await requireSupabaseAdmin()
+    .from(TABLE)
+    .select('*')
+    .eq('user_id', userId)
+    .or(`status.in.(pending,running),updated_at.gte.${since.toISOString()}`)
+    .order('created_at', { ascending: true });
+  if (error) throw new Error(`Failed to load jobs: ${error.message}`);
+  return (data as GenerationJob[] | null) ?? [];
+}
+
+async function updateJob(jobId: string, patch: Partial<GenerationJob>): Promise<void> {
+  const { error } = await requireSupabaseAdmin()
+    .from(TABLE)
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq('id', jobId);
+  if (error) console.error(`Failed to update job ${jobId}:`, error.message);
+}
+
+/**
+ * Move the row from `from` to `patch.status`. Returns false when it was no longer in one of
+ * those states (finished or cancelled elsewhere), so concurrent transitions can't both win.
+ */
+async function transitionJob(jobId: string, from: JobStatus[], patch: Partial<GenerationJob>): Promise<boolean> {
+  const { data, error } = await requireSupabaseAdmin()
+    .from(TABLE)
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .in('status', from)
+    .select('id');
+  if (error) {
+    console.error(`Failed to update job ${jobId}:`, error.message);
+    return false;
+  }
+  return Boolean(data?.length);
+}
+
+/**
+ * Close a pending/running job as failed or cancelled and refund its credits.
+ * The status guard makes this safe to race (runner vs. stale check vs. cancel): only the caller
+ * that actually flips the row refunds. Returns the error message as stored on the job, or null
+ * when the job had already finished.
+ */
+async function closeJobWithRefund(job: GenerationJob, status: 'failed' | 'cancelled', message: string): Promise<string | null> {
+  const refundable = Boolean(job.user_id) && job.credits > 0;
+  // Marker goes in with the status flip so a poller never sees the failure without it
+  const storedMessage = refundable ? `${message} ${CREDITS_REFUNDED_MARKER}` : message;
+  const flipped = await transitionJob(job.id, ['pending', 'running'], {
+    status,
+    error: storedMessage,
+    completed_at: new Date().toISOString(),
+  });
+  if (!flipped) return null;
+
+  if (refundable && !(await refundJobCredits(job.user_id as string, job.workspace_id ?? null, job.credits, job.created_at))) {
+    await updateJob(job.id, { error: message });
+    return message;
+  }
+  return storedMessage;
+}
+
+/** Mark a pending/running job failed and refund its credits. Returns the error message as stored on the job. */
+export async function failJob(job: GenerationJob, message: string): Promise<string> {
+  return (await closeJobWithRefund(job, 'failed', message)) ?? message;
+}
+
+/**
+ * Cancel a pending/running job and refund its credits. Returns false when it already finished.
+ * A render in flight can't be stopped upstream; runJob discards its image when it lands.
+ */
+export async function cancelJob(job: GenerationJob): Promise<boolean> {
+  return (await closeJobWithRefund(job, 'cancelled', 'Cancelled')) !== null;
+}
+
+/**
+ * Run the job's work and record the outcome. Never throws - failures end up in the job row.
+ * Skips the work when the job was cancelled before it started.
+ */
+export async function runJob(job: GenerationJob, work: () => Promise<GenerationJobResult>): Promise<void> {
+  if (!(await transitionJob(job.id, ['pending'], { status: 'running', started_at: new Date().toISOString() }))) {
+    return;
+  }
+  try {
+    const result = await work();
+    const saved = await transitionJob(job.id, ['running'], { status: 'succeeded', result, completed_at: new Date().toISOString() });
+    // Cancelled (or timed out) while rendering - the user was refunded, so don't keep the image
+    if (!saved) await deleteSavedImage(result);
+  } catch (err) {
+    console.error(`Job ${job.id} failed:`, err);
+    await failJob(job, err instanceof Error ? err.message : 'Failed to generate image');
+  }
+}
+
+/** True when a pending/running job has outlived the function that was processing it */
+export function isJobStale(job: GenerationJob): boolean {
+  if (job.status !== 'pending' && job.status !== 'running') return false;
+  return Date.now() - new Date(job.created_at).getTime() > JOB_TIMEOUT_MS;
+}
@@ -0,0 +1,69 @@
+/**
+ * Outpainting to another aspect ratio. The original keeps its pixels and sits centered on a larger
+ * canvas; the model only fills the new margins (same mask convention as inpaint.ts: white = generate).
+ */
+
+import sharp from 'sharp';
+import type { AspectRatio } from '../../src/config/models.js';
+
+/** Grey filler for the new area - neutral, so it doesn't tint the model's fill */
+const FILL_COLOR = { r: 128, g: 128, b: 128 };
+/** Blur on the compositing mask so the seam blends over a few pixels instead of a hard edge */
+const SEAM_FEATHER_SIGMA = 3;
+
+export interface OutpaintCanvas {
+  /** Original centered on the target-aspect canvas, margins filled grey (PNG) */
+  canvas: Buffer;
+  /** Same size: white = new area, black = original (PNG) */
+  mask: Buffer;
+  /** Softened mask for pasting the model output back (PNG) */
+  blendMask: Buffer;
+}
+
+function aspectToNumber(aspectRatio: AspectRatio): number {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  return w / h;
+}
+
+/** True when the image already has (about) this aspect ratio - nothing to extend */
+export function matchesAspect(width: number, height: number, aspectRatio: AspectRatio): boolean {
+  return Math.abs(width / height - aspectToNumber(aspectRatio)) < 0.01;
+}
+
+/** Grow the shorter side until the canvas has the target aspect; the original is never scaled */
+export async function buildOutpaintCanvas(original: Buffer, aspectRatio: AspectRatio): Promise<OutpaintCanvas> {
+  const { width, height } = await sharp(original).metadata();
+  if (!width || !height) throw new Error('Could not read the source image size');
+
+  const target = aspectToNumber(aspectRatio);
+  const canvasWidth = width / height < target ? Math.round(height * target) : width;
+  const canvasHeight = width / height < target ? height : Math.round(width / target);
+  const left = Math.floor((canvasWidth - width) / 2);
+  const top = Math.floor((canvasHeight - height) / 2);
+
+  const blank = (w: number, h: number, background: { r: number; g: number; b: number }) =>
+    sharp({ create: { width: w, height: h, channels: 3, background } });
+
+  const canvas = await blank(canvasWidth, canvasHeight, FILL_COLOR)
+    .composite([{ input: await sharp(original).removeAlpha().toBuffer(), left, top }])
+    .png()
+    .toBuffer();
+  const keepArea = await blank(width, height, { r: 0, g: 0, b: 0 }).png().toBuffer();
+  const mask = await blank(canvasWidth, canvasHeight, { r: 255, g: 255, b: 255 })
+    .composite([{ input: keepArea, left, top }])
+    .png()
+    .toBuffer();
+  const blendMask = await sharp(mask).blur(SEAM_FEATHER_SIGMA).png().toBuffer();
+
+  return { canvas, mask, blendMask };
+}
+
+/** Provider prompt; the stored prompt stays the original image's prompt */
+export function buildOutpaintPrompt(prompt: string): string {
+  return (
+    'The first image is a photo placed in the middle of a larger grey canvas; the second image is a mask where white marks ' +
+    'the grey area. Extend the photo into the white area so the result is one seamless image: continue the scene, ' +
+    'perspective, lighting and style, and keep the original part exactly as it is. Never leave grey or visible borders.' +
+    (prompt ? `\nThe original image was made from this prompt: ${prompt}` : '')
+  );
+}
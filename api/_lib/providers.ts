@@ -0,0 +1,151 @@
+/**
+ * Image provider registry, keyed by ImageModelId.
+ * Each entry knows its endpoint, how to build the request payload, how to read the
+ * image out of the response and which aspect ratios / sizes it supports.
+ * Add a model here (and to src/config/models.ts) - the handlers stay untouched.
+ */
+
+import {
+  ASPECT_RATIOS,
+  IMAGE_SIZES,
+  isImageModelId,
+  type AspectRatio,
+  type ImageModelId,
+  type ImageSize,
+} from '../../src/config/models.js';
+
+const LAOZHANG_API_KEY = process.env.LAOZHANG_API_KEY;
+const LAOZHANG_API_URL = process.env.LAOZHANG_API_URL || 'https://api.laozhang.ai';
+
+export interface ProviderImageInput {
+  mimeType: string;
+  /** Raw base64 (no data: prefix) */
+  data: string;
+}
+
+export interface ProviderRequest {
+  prompt: string;
+  aspectRatio: AspectRatio;
+  imageSize: ImageSize;
+  referenceImages: ProviderImageInput[];
+}
+
+export interface ProviderResult {
+  base64Data: string;
+  mimeType: string;
+}
+
+export interface ImageProvider {
+  model: ImageModelId;
+  aspectRatios: readonly AspectRatio[];
+  imageSizes: readonly ImageSize[];
+  endpoint: (baseUrl: string) => string;
+  buildPayload: (input: ProviderRequest) => unknown;
+  parseResponse: (result: unknown) => ProviderResult | null;
+}
+
+/** Error from the upstream provider; status is passed through to the client. */
+export class ProviderError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+  }
+}
+
+type GeminiPart = {
+  text?: string;
+  inlineData?: { mimeType?: string; data?: string };
+  inline_data?: { mime_type?: string; data?: string };
+};
+
+/** Gemini native generateContent (LaoZhang proxies it under /v1beta) */
+function geminiImageProvider(
+  model: ImageModelId,
+  options: { aspectRatios?: readonly AspectRatio[]; imageSizes?: readonly ImageSize[] } = {}
+): ImageProvider {
+  return {
+    model,
+    aspectRatios: options.aspectRatios ?? ASPECT_RATIOS,
+    imageSizes: options.imageSizes ?? IMAGE_SIZES,
+    endpoint: (baseUrl) => `${baseUrl}/v1beta/models/${model}:generateContent`,
+    buildPayload: ({ prompt, aspectRatio, imageSize, referenceImages }) => ({
+      contents: [
+        {
+          parts: [
+            { text: prompt },
+            ...referenceImages.map((img) => ({
+              inline_data: { mime_type: img.mimeType, data: img.data },
+            })),
+          ],
+        },
+      ],
+      generationConfig: {
+        responseModalities: ['IMAGE'],
+        imageConfig: { aspectRatio, imageSize },
+      },
+    }),
+    parseResponse: (result) => {
+      const parts = (result as { candidates?: Array<{ content?: { parts?: GeminiPart[] } }> })
+        ?.candidates?.[0]?.content?.parts ?? [];
+      // The image is not always parts[0] - the model may lead with a text part
+      for (const part of parts) {
+        const data = part.inlineData?.data ?? part.inline_data?.data;
+        if (data) {
+          return {
+            base64Data: data,
+            mimeType: part.inlineData?.mimeType ?? part.inline_data?.mime_type ?? 'image/png',
+          };
+        }
+      }
+      return null;
+    },
+  };
+}
+
+export const IMAGE_PROVIDERS: Record<ImageModelId, ImageProvider> = {
+  'gemini-3-pro-image-preview': geminiImageProvider('gemini-3-pro-image-preview'),
+  'gemini-3.1-flash-image-preview': geminiImageProvider('gemini-3.1-flash-image-preview'),
+};
+
+export function getImageProvider(model: unknown): ImageProvider | null {
+  return isImageModelId(model) ? IMAGE_PROVIDERS[model] : null;
+}
+
+export function isProviderConfigured(): boolean {
+  return Boolean(LAOZHANG_API_KEY) && LAOZHANG_API_KEY !== 'sk-YOUR_API_KEY_HERE';
+}
+
+/**
+ * Call the provider and return the generated image.
+ * Throws ProviderError on upstream failures (status passed through) or when no image comes back.
+ */
+export async function generateWithProvider(
+  provider: ImageProvider,
+  input: ProviderRequest
+): Promise<ProviderResult> {
+  const response = await fetch(provider.endpoint(LAOZHANG_API_URL), {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${LAOZHANG_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(provider.buildPayload(input)),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new ProviderError(
+      errorData.error?.message || `LaoZhang API error: ${response.status} ${response.statusText}`,
+      response.status
+    );
+  }
+
+  const result = provider.parseResponse(await response.json());
+  if (!result) {
+    throw new ProviderError('No image data returned from LaoZhang API', 500);
+  }
+  return result;
+}
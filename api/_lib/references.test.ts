@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  detectImageMimeType,
+  loadReferenceImages,
+  MAX_REFERENCE_IMAGES,
+  parseInlineImage,
+  parseReferenceImageUrls,
+  ReferenceImageError,
+} from './references.js';
+
+// references.ts reads the project URL when it loads; hoisted above the imports
+vi.hoisted(() => {
+  process.env.SUPABASE_URL = 'https://project.supabase.co';
+});
+
+const STORAGE = 'https://project.supabase.co/storage/v1/object/public/generated-images';
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+const JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xe0]);
+
+function ascii(text: string): Uint8Array<ArrayBuffer> {
+  return new Uint8Array([...text].map((c) => c.charCodeAt(0)));
+}
+
+describe('parseReferenceImageUrls', () => {
+  it('accepts storage URLs and drops duplicates in order', () => {
+    const a = `${STORAGE}/refs/a.png`;
+    const b = `${STORAGE}/user/b.jpg`;
+    expect(parseReferenceImageUrls([a, b, a])).toEqual([a, b]);
+    expect(parseReferenceImageUrls(undefined)).toEqual([]);
+  });
+
+  it.each([
+    ['another host', 'https://evil.example/storage/v1/object/public/generated-images/a.png'],
+    ['plain http', 'http://project.supabase.co/storage/v1/object/public/generated-images/a.png'],
+    ['another bucket', 'https://project.supabase.co/storage/v1/object/public/avatars/a.png'],
+    ['a private object path', 'https://project.supabase.co/storage/v1/object/generated-images/a.png'],
+    ['a non-URL', 'not a url'],
+  ])('rejects %s', (_label, url) => {
+    expect(() => parseReferenceImageUrls([url])).toThrow(ReferenceImageError);
+  });
+
+  it('rejects non-arrays and too many images', () => {
+    expect(() => parseReferenceImageUrls('x')).toThrow('must be an array');
+    expect(() => parseReferenceImageUrls([1])).toThrow('must be an array');
+    const many = Array.from({ length: MAX_REFERENCE_IMAGES + 1 }, (_, i) => `${STORAGE}/refs/${i}.png`);
+    expect(() => parseReferenceImageUrls(many)).toThrow(`At most ${MAX_REFERENCE_IMAGES}`);
+  });
+});
+
+describe('detectImageMimeType', () => {
+  it('recognises the formats the providers accept', () => {
+    expect(detectImageMimeType(PNG)).toBe('image/png');
+    expect(detectImageMimeType(JPEG)).toBe('image/jpeg');
+    expect(detectImageMimeType(ascii('RIFF\0\0\0\0WEBPVP8 '))).toBe('image/webp');
+    expect(detectImageMimeType(ascii('\0\0\0\x18ftypheic'))).toBe('image/heic');
+    expect(detectImageMimeType(ascii('\0\0\0\x18ftypmif1'))).toBe('image/heif');
+  });
+
+  it('returns null for anything else', () => {
+    expect(detectImageMimeType(ascii('GIF89a\0\0\0\0\0\0'))).toBeNull();
+    expect(detectImageMimeType(ascii('<svg xmlns="'))).toBeNull();
+    expect(detectImageMimeType(new Uint8Array())).toBeNull();
+  });
+});
+
+describe('parseInlineImage', () => {
+  const base64 = Buffer.from(PNG).toString('base64');
+
+  it('accepts base64 with or without a data: prefix and uses the sniffed type', () => {
+    expect(parseInlineImage(base64)).toEqual({ mimeType: 'image/png', data: base64 });
+    expect(parseInlineImage(`data:image/jpeg;base64,${base64}`)).toEqual({ mimeType: 'image/png', data: base64 });
+  });
+
+  it('rejects missing, non-image and oversized input', () => {
+    expect(() => parseInlineImage(undefined, 'Mask')).toThrow('Mask is required');
+    expect(() => parseInlineImage(Buffer.from('hello world!').toString('base64'), 'Mask')).toThrow(
+      'Mask must be a PNG'
+    );
+    expect(() => parseInlineImage('A'.repeat(5 * 1024 * 1024), 'Mask')).toThrow('Mask is larger than 3MB');
+  });
+});
+
+describe('loadReferenceImages', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function stubFetch(respond: (url: string) => Response) {
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => respond(url)));
+  }
+
+  it('returns provider inputs in URL order', async () => {
+    stubFetch((url) => new Response(url.endsWith('a.png') ? PNG : JPEG));
+    const images = await loadReferenceImages([`${STORAGE}/a.png`, `${STORAGE}/b.jpg`]);
+    expect(images.map((i) => i.mimeType)).toEqual(['image/png', 'image/jpeg']);
+    expect(images[0].data).toBe(Buffer.from(PNG).toString('base64'));
+  });
+
+  it('fails on a bad status, a declared or actual size over 10MB, and unknown formats', async () => {
+    stubFetch(() => new Response(null, { status: 404 }));
+    await expect(loadReferenceImages([`${STORAGE}/a.png`])).rejects.toThrow('(404)');
+
+    stubFetch(() => new Response(PNG, { headers: { 'content-length': String(11 * 1024 * 1024) } }));
+    await expect(loadReferenceImages([`${STORAGE}/a.png`])).rejects.toThrow('larger than 10MB');
+
+    stubFetch(() => new Response(new Uint8Array(11 * 1024 * 1024)));
+    await expect(loadReferenceImages([`${STORAGE}/a.png`])).rejects.toThrow('larger than 10MB');
+
+    stubFetch(() => new Response(ascii('GIF89a\0\0\0\0\0\0')));
+    await expect(loadReferenceImages([`${STORAGE}/a.gif`])).rejects.toThrow('Unsupported reference image format');
+  });
+
+  it('caps the combined size of all references', async () => {
+    const large = new Uint8Array(8 * 1024 * 1024);
+    large.set(PNG);
+    stubFetch(() => new Response(large));
+    const urls = [1, 2, 3, 4].map((i) => `${STORAGE}/${i}.png`);
+    await expect(loadReferenceImages(urls)).rejects.toThrow('exceed 30MB in total');
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Reference images for generation, fetched server-side from `referenceImageUrls`.
+ * Only public URLs in our own generated-images bucket are accepted, so the API can't be used
+ * as an open proxy. MIME type comes from the file's magic bytes, not the URL or headers.
+ */
+
+import type { ProviderImageInput } from './providers.js';
+import { BUCKET_NAME } from './supabaseAdmin.js';
+
+export const MAX_REFERENCE_IMAGES = 6;
+const MAX_REFERENCE_BYTES = 10 * 1024 * 1024; // per image
+/** Inline images (edit masks) ride in the JSON body, which Vercel caps at 4.5MB */
+const MAX_INLINE_IMAGE_BYTES = 3 * 1024 * 1024;
+const MAX_TOTAL_REFERENCE_BYTES = 30 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 15000;
+
+const SUPABASE_URL = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const PUBLIC_BUCKET_PATH = `/storage/v1/object/public/${BUCKET_NAME}/`;
+
+/** Bad reference input - maps to a 400 (before the job starts) or a failed job */
+export class ReferenceImageError extends Error {
+  status: number;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReferenceImageError';
+    this.status = 400;
+  }
+}
+
+function isAllowedReferenceUrl(value: string): boolean {
+  if (!SUPABASE_URL) return false;
+  try {
+    const url = new URL(value);
+    return (
+      url.protocol === 'https:' &&
+      url.host === new URL(SUPABASE_URL).host &&
+      url.pathname.startsWith(PUBLIC_BUCKET_PATH)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate the URL list from the request body (count + host). Throws ReferenceImageError.
+ * Returns the de-duplicated list in the original order.
+ */
+export function parseReferenceImageUrls(value: unknown): string[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some((u) => typeof u !== 'string')) {
+    throw new ReferenceImageError('referenceImageUrls must be an array of URLs');
+  }
+  const urls = [...new Set(value as string[])];
+  if (urls.length > MAX_REFERENCE_IMAGES) {
+    throw new ReferenceImageError(`At most ${MAX_REFERENCE_IMAGES} reference images are allowed`);
+  }
+  const rejected = urls.find((u) => !isAllowedReferenceUrl(u));
+  if (rejected) {
+    throw new ReferenceImageError('Reference images must be uploaded to Kreator storage first');
+  }
+  return urls;
+}
+
+/** Sniff the image type from its first bytes; null for anything the providers don't accept */
+export function detectImageMimeType(bytes: Uint8Array): string | null {
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+  if (bytes.length >= 8 && bytes[0] === 0x89 && ascii(1, 4) === 'PNG') return 'image/png';
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (bytes.length >= 12 && ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+  if (bytes.length >= 12 && ascii(4, 8) === 'ftyp') {
+    const brand = ascii(8, 12);
+    if (brand === 'heic' || brand === 'heix') return 'image/heic';
+    if (brand === 'mif1' || brand === 'heif') return 'image/heif';
+  }
+  return null;
+}
+
+/**
+ * An image sent in the request body as base64 or a data: URL (edit masks, so they never sit in storage).
+ * Throws ReferenceImageError when it's missing, too large or not an image.
+ */
+export function parseInlineImage(value: unknown, label = 'Image'): ProviderImageInput {
+  if (typeof value !== 'string' || !value) {
+    throw new ReferenceImageError(`${label} is required`);
+  }
+  const base64 = value.replace(/^data:[^;,]*;base64,/, '');
+  if (base64.length > Math.ceil((MAX_INLINE_IMAGE_BYTES * 4) / 3)) {
+    throw new ReferenceImageError(`${label} is larger than ${MAX_INLINE_IMAGE_BYTES / 1024 / 1024}MB`);
+  }
+  const bytes = new Uint8Array(Buffer.from(base64, 'base64'));
+  const mimeType = detectImageMimeType(bytes);
+  if (!mimeType) {
+    throw new ReferenceImageError(`${label} must be a PNG, JPEG, WebP or HEIC image`);
+  }
+  return { mimeType, data: Buffer.from(bytes).toString('base64') };
+}
+
+async function fetchReferenceImage(url: string): Promise<Uint8Array> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new ReferenceImageError(`Could not load reference image (${response.status})`);
+  }
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > MAX_REFERENCE_BYTES) {
+    throw new ReferenceImageError(`Reference image is larger than ${MAX_REFERENCE_BYTES / 1024 / 1024}MB`);
+  }
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  if (bytes.byteLength > MAX_REFERENCE_BYTES) {
+    throw new ReferenceImageError(`Reference image is larger than ${MAX_REFERENCE_BYTES / 1024 / 1024}MB`);
+  }
+  return bytes;
+}
+
+/** Download validated reference URLs and return them as provider inputs (order preserved) */
+export async function loadReferenceImages(urls: string[]): Promise<ProviderImageInput[]> {
+  const files = await Promise.all(urls.map(fetchReferenceImage));
+  const total = files.reduce((sum, f) => sum + f.byteLength, 0);
+  if (total > MAX_TOTAL_REFERENCE_BYTES) {
+    throw new ReferenceImageError(`Reference images exceed ${MAX_TOTAL_REFERENCE_BYTES / 1024 / 1024}MB in total`);
+  }
+  return files.map((bytes) => {
+    const mimeType = detectImageMimeType(bytes);
+    if (!mimeType) {
+      throw new ReferenceImageError('Unsupported reference image format (use PNG, JPEG, WebP or HEIC)');
+    }
+    return { mimeType, data: Buffer.from(bytes).toString('base64') };
+  });
+}
@@ -0,0 +1,84 @@
+/**
+ * Region edits for /api/edit: validate the `regions` body field and turn it into a
+ * provider prompt that names each area by position, so nothing has to be drawn onto the image.
+ */
+
+import { MAX_EDIT_INSTRUCTION_LENGTH, MAX_EDIT_REGIONS, type EditRegion } from '../../src/config/edits.js';
+
+/** Bad `regions` input - maps to a 400 */
+export class EditRegionError extends Error {
+  status: number;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'EditRegionError';
+    this.status = 400;
+  }
+}
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+/** Validate and normalize the request's regions (clamped to the image, instructions trimmed). Throws EditRegionError. */
+export function parseEditRegions(value: unknown): EditRegion[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new EditRegionError('regions must be a non-empty array');
+  }
+  if (value.length > MAX_EDIT_REGIONS) {
+    throw new EditRegionError(`At most ${MAX_EDIT_REGIONS} regions can be edited at once`);
+  }
+  return value.map((raw, i) => {
+    const r = (raw ?? {}) as Record<string, unknown>;
+    const coords = [r.x, r.y, r.width, r.height];
+    if (!coords.every((n) => typeof n === 'number' && Number.isFinite(n))) {
+      throw new EditRegionError(`Region ${i + 1} needs numeric x, y, width and height`);
+    }
+    const instruction = typeof r.instruction === 'string' ? r.instruction.trim() : '';
+    if (!instruction) {
+      throw new EditRegionError(`Region ${i + 1} has no instruction`);
+    }
+    if (instruction.length > MAX_EDIT_INSTRUCTION_LENGTH) {
+      throw new EditRegionError(`Region ${i + 1} instruction is longer than ${MAX_EDIT_INSTRUCTION_LENGTH} characters`);
+    }
+    const [left, top, w, h] = coords as number[];
+    const x = clamp01(left);
+    const y = clamp01(top);
+    const width = clamp01(left + w) - x;
+    const height = clamp01(top + h) - y;
+    if (width <= 0 || height <= 0) {
+      throw new EditRegionError(`Region ${i + 1} lies outside the image`);
+    }
+    return { x, y, width, height, instruction };
+  });
+}
+
+const percent = (n: number) => `${Math.round(n * 100)}%`;
+
+/** "upper left", "center", "lower right", ... from the region's center point */
+function describePosition(region: EditRegion): string {
+  const cx = region.x + region.width / 2;
+  const cy = region.y + region.height / 2;
+  const vertical = cy < 1 / 3 ? 'upper' : cy > 2 / 3 ? 'lower' : 'middle';
+  const horizontal = cx < 1 / 3 ? 'left' : cx > 2 / 3 ? 'right' : 'center';
+  if (vertical === 'middle') return horizontal === 'center' ? 'center' : `middle ${horizontal}`;
+  return `${vertical} ${horizontal}`;
+}
+
+/** Provider prompt listing every region as a box in percent of the image size */
+export function buildRegionEditPrompt(regions: EditRegion[], note?: string): string {
+  const lines = regions.map(
+    (r, i) =>
+      `${i + 1}. The ${describePosition(r)} area (left ${percent(r.x)}, top ${percent(r.y)}, ` +
+      `width ${percent(r.width)}, height ${percent(r.height)} of the image): ${r.instruction}`
+  );
+  return [
+    'Edit the reference image. Apply each change below only inside its area and keep everything else exactly as it is ' +
+      '(composition, subjects, lighting, colors, style). Blend every change naturally into its surroundings.',
+    ...lines,
+    ...(note ? [`Overall: ${note}`] : []),
+  ].join('\n');
+}
+
+/** Short human-readable prompt stored on the image row */
+export function summarizeRegionEdits(regions: EditRegion[]): string {
+  return regions.map((r) => r.instruction).join('; ');
+}
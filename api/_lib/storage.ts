@@ -0,0 +1,134 @@
+/**
+ * Uploads to the generated-images bucket (service role).
+ * Full-size images go to the bucket root, responsive WebP thumbnails under thumbs/.
+ */
+
+import sharp from 'sharp';
+import { BUCKET_NAME, requireSupabaseAdmin } from './supabaseAdmin.js';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+const THUMBS_PATH_PREFIX = 'thumbs/';
+/** Grid tiles are 2-6 columns wide, so these cover phones up to retina desktops */
+export const THUMB_WIDTHS = [256, 512, 1024] as const;
+/** Variant stored in thumb_storage_path (the single-URL fallback) */
+const DEFAULT_THUMB_WIDTH = 512;
+const THUMB_QUALITY = 78;
+
+/** width → storage path, as stored in images.thumb_variants */
+export type ThumbVariants = Record<string, string>;
+
+export interface UploadedThumbnails {
+  thumbStoragePath: string;
+  thumbUrl: string;
+  thumbVariants: ThumbVariants;
+  /** `url 256w, url 512w, ...` for <img srcset> */
+  thumbSrcSet: string;
+}
+
+export interface UploadedImage extends UploadedThumbnails {
+  storagePath: string;
+  fileName: string;
+  url: string;
+}
+
+export function getPublicUrl(storagePath: string): string {
+  return requireSupabaseAdmin().storage.from(BUCKET_NAME).getPublicUrl(storagePath).data.publicUrl;
+}
+
+async function uploadObject(storagePath: string, body: Buffer, contentType: string, upsert = false): Promise<string> {
+  const { error } = await requireSupabaseAdmin().storage
+    .from(BUCKET_NAME)
+    .upload(storagePath, body, {
+      contentType,
+      upsert,
+      cacheControl: '31536000', // 1 year - reduce repeated downloads from CDN
+    });
+  if (error) {
+    throw new Error(`Upload failed: ${error.message}`);
+  }
+  return getPublicUrl(storagePath);
+}
+
+export function buildThumbSrcSet(variants: ThumbVariants): string {
+  return Object.entries(variants)
+    .sort(([a], [b]) => Number(a) - Number(b))
+    .map(([width, path]) => `${getPublicUrl(path)} ${width}w`)
+    .join(', ');
+}
+
+/**
+ * Resize to every THUMB_WIDTHS entry narrower than the original (the smallest one always),
+ * encode as WebP and upload. Sequential to keep sharp's memory use flat.
+ * Each uploaded path is pushed to `written` as it lands, so a caller can clean up after a failure part way.
+ */
+export async function uploadThumbnails(
+  image: Buffer,
+  baseName: string,
+  upsert = false,
+  written: string[] = []
+): Promise<UploadedThumbnails> {
+  const { width: originalWidth = Infinity } = await sharp(image).metadata();
+  const widths = THUMB_WIDTHS.filter((w, i) => i === 0 || w < originalWidth);
+
+  const thumbVariants: ThumbVariants = {};
+  for (const width of widths) {
+    const thumb = await sharp(image)
+      .resize({ width, withoutEnlargement: true })
+      .webp({ quality: THUMB_QUALITY })
+      .toBuffer();
+    const path = `${THUMBS_PATH_PREFIX}${baseName}-${width}.webp`;
+    await uploadObject(path, thumb, 'image/webp', upsert);
+    written.push(path);
+    thumbVariants[String(width)] = path;
+  }
+
+  const fallbackWidth = [...widths].reverse().find((w) => w <= DEFAULT_THUMB_WIDTH) ?? widths[0];
+  const thumbStoragePath = thumbVariants[String(fallbackWidth)];
+  return {
+    thumbStoragePath,
+    thumbUrl: getPublicUrl(thumbStoragePath),
+    thumbVariants,
+    thumbSrcSet: buildThumbSrcSet(thumbVariants),
+  };
+}
+
+/** Upload a generated image plus its WebP thumbnails; returns storage paths + public URLs */
+export async function uploadGeneratedImage(base64Data: string, mimeType = 'image/png'): Promise<UploadedImage> {
+  const ext = EXTENSIONS[mimeType] ?? 'png';
+  const baseName = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+  const fileName = `${baseName}.${ext}`;
+  const storagePath = fileName;
+
+  const image = Buffer.from(base64Data, 'base64');
+  const written: string[] = [];
+  const [main, thumbs] = await Promise.allSettled([
+    uploadObject(storagePath, image, mimeType).then((url) => {
+      written.push(storagePath);
+      return url;
+    }),
+    uploadThumbnails(image, baseName, false, written),
+  ]);
+  if (main.status === 'rejected' || thumbs.status === 'rejected') {
+    // Nothing will point at what did upload - don't leave it in the bucket
+    await removeObjects(written);
+    throw main.status === 'rejected' ? main.reason : (thumbs as PromiseRejectedResult).reason;
+  }
+
+  return { storagePath, fileName, url: main.value, ...thumbs.value };
+}
+
+async function removeObjects(paths: string[]): Promise<void> {
+  if (paths.length === 0) return;
+  const { error } = await requireSupabaseAdmin().storage.from(BUCKET_NAME).remove(paths);
+  if (error) console.error(`Failed to remove ${paths[0]}:`, error.message);
+}
+
+/** Best-effort cleanup (e.g. when the images row insert fails after upload) */
+export async function removeUploadedImage(upload: Pick<UploadedImage, 'storagePath' | 'thumbVariants'>): Promise<void> {
+  await removeObjects([upload.storagePath, ...Object.values(upload.thumbVariants)]);
+}
@@ -0,0 +1,24 @@
+/**
+ * Service-role Supabase client for the API handlers.
+ * Bypasses RLS - never import this from src/.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+
+const SUPABASE_URL = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+export const BUCKET_NAME = 'generated-images';
+
+export const supabaseAdmin = SUPABASE_URL && SUPABASE_SERVICE_ROLE_KEY
+  ? createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    })
+  : null;
+
+export function requireSupabaseAdmin() {
+  if (!supabaseAdmin) {
+    throw new Error('Server configuration error: SUPABASE_SERVICE_ROLE_KEY not set. Add it in Vercel project settings.');
+  }
+  return supabaseAdmin;
+}
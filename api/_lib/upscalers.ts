@@ -0,0 +1,78 @@
+/**
+ * Upscalers for /api/upscale, selected with UPSCALE_PROVIDER:
+ * - `model` (default): the image model re-renders the picture at the target size with the original as its only reference
+ * - `local`: a plain Lanczos resize with sharp - no upstream calls, for local development and tests
+ * Add an entry to UPSCALERS to plug in a dedicated upscaling API.
+ */
+
+import sharp from 'sharp';
+import type { AspectRatio, ImageModelId, ImageSize } from '../../src/config/models.js';
+import {
+  generateWithProvider,
+  getImageProvider,
+  isProviderConfigured,
+  ProviderError,
+  type ProviderImageInput,
+  type ProviderResult,
+} from './providers.js';
+
+export interface UpscaleRequest {
+  image: ProviderImageInput;
+  aspectRatio: AspectRatio;
+  /** Model that produced the original (used by the `model` upscaler) */
+  model: ImageModelId;
+  targetSize: ImageSize;
+}
+
+export interface Upscaler {
+  id: string;
+  isConfigured: () => boolean;
+  upscale: (input: UpscaleRequest) => Promise<ProviderResult>;
+}
+
+/** Long edge in pixels for each size label */
+const LONG_EDGE: Record<ImageSize, number> = { '1K': 1024, '2K': 2048, '4K': 4096 };
+
+const UPSCALE_PROMPT =
+  'Upscale this image to a higher resolution. Reproduce it exactly - same composition, subjects, faces, colors, ' +
+  'lighting and any text - and only add fine detail and sharpness. Do not add, remove or restyle anything.';
+
+const modelUpscaler: Upscaler = {
+  id: 'model',
+  isConfigured: isProviderConfigured,
+  upscale: async ({ image, aspectRatio, model, targetSize }) => {
+    const provider = getImageProvider(model);
+    if (!provider) throw new ProviderError(`Unsupported model: ${model}`, 400);
+    return generateWithProvider(provider, {
+      prompt: UPSCALE_PROMPT,
+      aspectRatio,
+      imageSize: targetSize,
+      referenceImages: [image],
+    });
+  },
+};
+
+const localUpscaler: Upscaler = {
+  id: 'local',
+  isConfigured: () => true,
+  upscale: async ({ image, targetSize }) => {
+    const input = Buffer.from(image.data, 'base64');
+    const { width = 0, height = 0 } = await sharp(input).metadata();
+    const longEdge = LONG_EDGE[targetSize];
+    const output = await sharp(input)
+      .resize({ ...(width >= height ? { width: longEdge } : { height: longEdge }), kernel: 'lanczos3' })
+      .png()
+      .toBuffer();
+    return { base64Data: output.toString('base64'), mimeType: 'image/png' };
+  },
+};
+
+const UPSCALERS: Record<string, Upscaler> = {
+  model: modelUpscaler,
+  local: localUpscaler,
+};
+
+/** The configured upscaler, or null when UPSCALE_PROVIDER names an unknown one */
+export function getUpscaler(): Upscaler | null {
+  return UPSCALERS[process.env.UPSCALE_PROVIDER || 'model'] ?? null;
+}
@@ -0,0 +1,24 @@
+/**
+ * Provider prompt for variations (/api/generate with `variationStrength`). The source image is the
+ * first reference; the stored prompt stays the original one so Re-run keeps working on variations.
+ */
+
+import type { VariationStrength } from '../../src/config/variations.js';
+
+const STRENGTH_INSTRUCTIONS: Record<VariationStrength, string> = {
+  subtle:
+    'Keep the composition, subjects, framing, palette and lighting. Change only small details - pose, expression, ' +
+    'minor props, texture - so it reads as another take from the same shoot.',
+  medium:
+    'Keep the subjects, style and overall mood, but vary the composition, camera angle, pose and secondary details.',
+  strong:
+    'Keep only the core idea and style. Freely reinterpret composition, setting, angle, palette and details.',
+};
+
+export function buildVariationPrompt(prompt: string, strength: VariationStrength): string {
+  return (
+    'Create a new variation of the first reference image (any other references are supporting material). ' +
+    `${STRENGTH_INSTRUCTIONS[strength]} Do not copy the first reference pixel for pixel.\n` +
+    `Original prompt: ${prompt}`
+  );
+}
@@ -0,0 +1,85 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getAuthenticatedUser } from './_lib/auth.js';
+import { createChatCompletion, stripWrappingQuotes, withImages } from './_lib/chat.js';
+import { ProviderError, isProviderConfigured } from './_lib/providers.js';
+import { ReferenceImageError, parseReferenceImageUrls } from './_lib/references.js';
+
+/** Must accept image_url content parts */
+const DESCRIBE_MODEL = process.env.DESCRIBE_IMAGE_MODEL || process.env.ENHANCE_PROMPT_MODEL || 'gpt-4o-mini';
+
+const SYSTEM_PROMPT = `You are an expert at reverse-engineering images into prompts for AI image generation.
+
+Look at the attached image and write the prompt that would recreate its look with an image model.
+
+RULES:
+
+1. Describe what is visible, in this order: subject, composition/camera, lighting, color palette, style, quality.
+- Be concrete: materials, textures, colors, props, background, framing, lens feel (macro, 35mm, 85mm, wide-angle), depth of field.
+- Capture the look that makes the image distinctive (color grading, mood lighting, film or render style).
+
+2. Do not invent anything you cannot see. Do not name brands, people or places unless clearly readable in the image.
+
+3. Output format is critical:
+- Output ONE continuous paragraph of comma-separated visual descriptors.
+- NEVER use arrows, bullets, line breaks, quotes, labels or markdown.
+- No explanations before or after the prompt.
+
+EXAMPLE OUTPUT:
+
+"matte black ceramic coffee mug on a light oak table, steam rising, centered medium close-up, 50mm lens, shallow depth of field, soft window light from the left, warm muted palette with cream background, minimalist lifestyle product photography, photorealistic, high detail"`;
+
+export const config = {
+  maxDuration: 30,
+};
+
+/**
+ * POST /api/describe-image  { imageUrl }  (Authorization: Bearer <supabase jwt>)
+ * → 200 { prompt }  - a generation-ready prompt in the same comma-separated style as Kreate+.
+ * imageUrl must be in our generated-images bucket (uploads go through uploadReferenceBlob first).
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isProviderConfigured()) {
+    return res.status(500).json({
+      error: 'Server configuration error: LAOZHANG_API_KEY not set.',
+    });
+  }
+
+  try {
+    const user = await getAuthenticatedUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+
+    const body = req.body as { imageUrl?: unknown };
+    if (!body?.imageUrl || typeof body.imageUrl !== 'string') {
+      return res.status(400).json({ error: 'Missing or invalid imageUrl' });
+    }
+    // Same rules as reference images: only our storage bucket
+    const [imageUrl] = parseReferenceImageUrls([body.imageUrl]);
+
+    const content = await createChatCompletion({
+      model: DESCRIBE_MODEL,
+      messages: [
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: withImages('Write the prompt for this image.', [imageUrl], 'high') },
+      ],
+      maxTokens: 500,
+      temperature: 0.3,
+    });
+
+    const prompt = stripWrappingQuotes(content.replace(/\s*\n+\s*/g, ' '));
+    return res.status(200).json({ prompt });
+  } catch (error) {
+    if (error instanceof ReferenceImageError || error instanceof ProviderError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Describe image API error:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to describe image',
+    });
+  }
+}
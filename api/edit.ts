@@ -0,0 +1,204 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { waitUntil } from '@vercel/functions';
+import { DEFAULT_IMAGE_MODEL, type AspectRatio, type ImageSize } from '../src/config/models.js';
+import { getEditCost } from '../src/config/pricing.js';
+import {
+  generateWithProvider,
+  getImageProvider,
+  isProviderConfigured,
+} from './_lib/providers.js';
+import { getAuthenticatedUser } from './_lib/auth.js';
+import { WorkspaceCreditError } from './_lib/credits.js';
+import { runJob, startJob } from './_lib/jobs.js';
+import { loadReferenceImages, parseInlineImage, parseReferenceImageUrls, ReferenceImageError } from './_lib/references.js';
+import { canUseFolder, canUseParentImage, saveGeneratedImage, type ImageParent } from './_lib/images.js';
+import { buildInpaintPrompt, compositeInsideMask } from './_lib/inpaint.js';
+import {
+  buildRegionEditPrompt,
+  EditRegionError,
+  parseEditRegions,
+  summarizeRegionEdits,
+} from './_lib/regionEdit.js';
+import { supabaseAdmin } from './_lib/supabaseAdmin.js';
+
+export const config = {
+  maxDuration: 300, // Same as /api/generate - the edit runs after the 202 (waitUntil)
+};
+
+/**
+ * POST /api/edit  (Authorization: Bearer <supabase jwt>)
+ * Mask:    { prompt, imageUrl, maskData, aspectRatio, imageSize, model?, folderId?, workspaceId? }
+ *          Inpaints the white area of the mask; pixels outside it are kept from the source.
+ * Regions: { imageUrl, regions: [{ x, y, width, height, instruction }], prompt?, aspectRatio, imageSize, model?, folderId?, workspaceId? }
+ *          Applies one instruction per box (normalized coordinates); the regions are stored on the new image.
+ * Either way the result is saved as a new image; pass parentImageId (the edited image's id) to link it as an edit.
+ * Same job flow as /api/generate: 202 { jobId } → poll /api/generate/status/:jobId.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isProviderConfigured()) {
+    return res.status(500).json({
+      error: 'Server configuration error: LAOZHANG_API_KEY not set. Add it in Vercel project settings.',
+    });
+  }
+
+  if (!supabaseAdmin) {
+    return res.status(500).json({
+      error: 'Server configuration error: SUPABASE_SERVICE_ROLE_KEY not set. Add it in Vercel project settings.',
+    });
+  }
+
+  try {
+    const user = await getAuthenticatedUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Sign in to edit images' });
+    }
+
+    const body = req.body as {
+      /** Edit instruction for the masked area; optional overall note for region edits */
+      prompt?: string;
+      /** Source image in our storage bucket */
+      imageUrl?: string;
+      /** Mask (white = repaint) as base64 / a data: URL - sent inline so it never lingers in storage */
+      maskData?: string;
+      regions?: unknown;
+      aspectRatio?: string;
+      imageSize?: string;
+      model?: string;
+      folderId?: string | null;
+      parentImageId?: string | null;
+      workspaceId?: string | null;
+    };
+
+    const note = typeof body.prompt === 'string' ? body.prompt.trim() : '';
+    const regions = body.regions !== undefined ? parseEditRegions(body.regions) : null;
+    if (!body.imageUrl) {
+      return res.status(400).json({ error: 'imageUrl is required' });
+    }
+    if (regions && body.maskData) {
+      return res.status(400).json({ error: 'Send either maskData or regions, not both' });
+    }
+    if (!regions && !body.maskData) {
+      return res.status(400).json({ error: 'maskData or regions is required' });
+    }
+    if (!regions && !note) {
+      return res.status(400).json({ error: 'Describe the change for the masked area' });
+    }
+    const [imageUrl] = parseReferenceImageUrls([body.imageUrl]);
+    const mask = regions ? null : parseInlineImage(body.maskData, 'Mask');
+    const prompt = regions ? [summarizeRegionEdits(regions), note].filter(Boolean).join(' — ') : note;
+
+    const model = body.model || DEFAULT_IMAGE_MODEL;
+    const provider = getImageProvider(model);
+    if (!provider) {
+      return res.status(400).json({ error: `Unsupported model: ${model}` });
+    }
+
+    const aspectRatio = (body.aspectRatio || '3:2') as AspectRatio;
+    const imageSize = (body.imageSize || '1K') as ImageSize;
+    if (!provider.aspectRatios.includes(aspectRatio)) {
+      return res.status(400).json({ error: `Aspect ratio ${aspectRatio} is not supported by ${model}` });
+    }
+    if (!provider.imageSizes.includes(imageSize)) {
+      return res.status(400).json({ error: `Image size ${imageSize} is not supported by ${model}` });
+    }
+
+    const folderId = typeof body.folderId === 'string' && body.folderId ? body.folderId : null;
+    if (!(await canUseFolder(user.id, folderId))) {
+      return res.status(400).json({ error: 'Folder not found, or you can only view it' });
+    }
+
+    let parent: ImageParent | null = null;
+    if (typeof body.parentImageId === 'string' && body.parentImageId) {
+      if (!(await canUseParentImage(user.id, body.parentImageId))) {
+        return res.status(400).json({ error: 'Parent image not found' });
+      }
+      parent = { imageId: body.parentImageId, derivationType: 'edit' };
+    }
+
+    const cost = getEditCost(provider.model, imageSize).credits;
+    const workspaceId = typeof body.workspaceId === 'string' && body.workspaceId ? body.workspaceId : null;
+    const started = await startJob({
+      userId: user.id,
+      model: provider.model,
+      prompt,
+      aspectRatio,
+      imageSize,
+      credits: cost,
+      workspaceId,
+    });
+    if (!started) {
+      return res.status(402).json({ error: `Insufficient ${workspaceId ? 'workspace ' : ''}credits: this edit costs ${cost}` });
+    }
+    const { job, remainingCredits } = started;
+
+    waitUntil(
+      runJob(job, async () => {
+        if (regions) {
+          const [source] = await loadReferenceImages([imageUrl]);
+          const edited = await generateWithProvider(provider, {
+            prompt: buildRegionEditPrompt(regions, note || undefined),
+            aspectRatio,
+            imageSize,
+            referenceImages: [source],
+          });
+          return saveGeneratedImage({
+            userId: user.id,
+            base64Data: edited.base64Data,
+            mimeType: edited.mimeType,
+            prompt,
+            aspectRatio,
+            imageSize,
+            model: provider.model,
+            referenceImageUrls: [imageUrl],
+            folderId,
+            editRegions: regions,
+            parent,
+          });
+        }
+
+        // Set whenever regions isn't (checked before the job started)
+        if (!mask) throw new Error('maskData or regions is required');
+        const [source] = await loadReferenceImages([imageUrl]);
+        const edited = await generateWithProvider(provider, {
+          prompt: buildInpaintPrompt(prompt),
+          aspectRatio,
+          imageSize,
+          referenceImages: [source, mask],
+        });
+        // Only the masked area comes from the model; everything else is the untouched source
+        const composited = await compositeInsideMask(
+          Buffer.from(source.data, 'base64'),
+          Buffer.from(edited.base64Data, 'base64'),
+          Buffer.from(mask.data, 'base64')
+        );
+        return saveGeneratedImage({
+          userId: user.id,
+          base64Data: composited.toString('base64'),
+          mimeType: 'image/png',
+          prompt,
+          aspectRatio,
+          imageSize,
+          model: provider.model,
+          // Source image, so Re-run / "add to reference" work on edits too (the mask is not kept)
+          referenceImageUrls: [imageUrl],
+          folderId,
+          parent,
+        });
+      })
+    );
+
+    return res.status(202).json({ jobId: job.id, status: job.status, credits: cost, remainingCredits });
+  } catch (error) {
+    if (error instanceof ReferenceImageError || error instanceof EditRegionError || error instanceof WorkspaceCreditError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Edit API error:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to start edit',
+    });
+  }
+}
@@ -1,8 +1,13 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { DEFAULT_ENHANCE_MODE, MAX_ENHANCE_VARIANTS, isEnhanceMode, type EnhanceMode } from '../src/config/enhance.js';
+import { getAuthenticatedUser } from './_lib/auth.js';
+import { createChatCompletion, stripWrappingQuotes, withImages } from './_lib/chat.js';
+import { ProviderError, isProviderConfigured } from './_lib/providers.js';
+import { ReferenceImageError, parseReferenceImageUrls } from './_lib/references.js';
 
-const LAOZHANG_API_KEY = process.env.LAOZHANG_API_KEY;
-const LAOZHANG_API_URL = process.env.LAOZHANG_API_URL || 'https://api.laozhang.ai';
 const ENHANCE_MODEL = process.env.ENHANCE_PROMPT_MODEL || 'gpt-4o-mini';
+/** Used when reference images are attached - must accept image_url content parts */
+const ENHANCE_VISION_MODEL = process.env.ENHANCE_PROMPT_VISION_MODEL || ENHANCE_MODEL;
 
 const SYSTEM_PROMPT = `You are an expert prompt enhancer for AI image generation.
 
@@ -36,9 +41,13 @@ CORE RULES:
 - style (photorealistic, commercial photography, cinematic, illustration)
 
 6. If reference images are mentioned, preserve them: "exact watch design from reference image clearly visible"
+- When reference images are attached, look at them. Name the concrete details you can see on the subject (product type, materials, colors, finishes, shapes, visible logos or text) so the image model keeps them, and still refer to it as "from reference image".
+- Describe only what is visible. Do not invent brand names or details the references don't show.
 
 7. Output rules:
-- ONE enhanced prompt only. No explanations, bullets, quotes, or markdown.
+- Return JSON only: {"prompts": ["...", "..."]} with exactly the number of prompts requested.
+- Each prompt is one flowing paragraph. No explanations, bullets, quotes, or markdown inside the strings.
+- When asked for several prompts, make each one a genuinely different take (camera, composition, lighting, mood) while keeping the same subject.
 
 QUALITY STANDARD:
 Output must be a single flowing sentence with comma-separated descriptors, like professional Midjourney or DALL·E prompts.
@@ -49,6 +58,30 @@ User: "A close-up, hyper-realistic photograph of a female hand with a watch, sof
 
 Good: "close-up macro photograph of a female hand, elegant hand-model pose, realistic skin texture, professionally manicured nails, exact watch design from reference image clearly visible, 85mm macro lens, shallow depth of field, soft directional studio lighting, photorealistic, commercial product photography style"`;
 
+const MODE_INSTRUCTIONS: Record<EnhanceMode, string> = {
+  faithful: 'Stay as close as possible to the user\'s wording; only add the missing visual details.',
+  cinematic: 'Push toward a cinematic film still: dramatic lighting, anamorphic or wide lenses, atmosphere, color grading.',
+  product: 'Treat it as a commercial product shot: clean studio or lifestyle set, product as the hero, precise lighting, sharp material detail.',
+};
+
+/** Pull the prompts out of the model reply: {"prompts": [...]}, possibly in a ```json fence; plain text = one prompt */
+function parsePrompts(content: string): string[] {
+  const json = content.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    const parsed = JSON.parse(json) as { prompts?: unknown } | unknown[];
+    const list = Array.isArray(parsed) ? parsed : parsed.prompts;
+    if (Array.isArray(list)) {
+      return list
+        .filter((p): p is string => typeof p === 'string')
+        .map((p) => stripWrappingQuotes(p.trim()))
+        .filter(Boolean);
+    }
+  } catch {
+    // not JSON - fall through
+  }
+  return [stripWrappingQuotes(content)].filter(Boolean);
+}
+
 export const config = {
   maxDuration: 30,
 };
@@ -58,66 +91,60 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  if (!LAOZHANG_API_KEY || LAOZHANG_API_KEY === 'sk-YOUR_API_KEY_HERE') {
+  if (!isProviderConfigured()) {
     return res.status(500).json({
       error: 'Server configuration error: LAOZHANG_API_KEY not set.',
     });
   }
 
   try {
-    const body = req.body as { prompt?: string };
+    const user = await getAuthenticatedUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+
+    const body = req.body as { prompt?: string; count?: unknown; mode?: unknown; referenceImageUrls?: unknown };
     const prompt = body?.prompt;
 
     if (!prompt || typeof prompt !== 'string') {
       return res.status(400).json({ error: 'Missing or invalid prompt' });
     }
 
-    const response = await fetch(`${LAOZHANG_API_URL}/v1/chat/completions`, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${LAOZHANG_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: ENHANCE_MODEL,
-        messages: [
-          { role: 'system', content: SYSTEM_PROMPT },
-          { role: 'user', content: prompt },
-        ],
-        max_tokens: 500,
-        temperature: 0.5,
-      }),
-    });
-
-    if (!response.ok) {
-      const errText = await response.text();
-      let errMsg = `API error: ${response.status}`;
-      try {
-        const errData = JSON.parse(errText);
-        errMsg = errData.error?.message || errData.error || errMsg;
-      } catch {
-        if (errText) errMsg = errText.slice(0, 200);
-      }
-      console.error('LaoZhang enhance error:', response.status, errMsg);
-      return res.status(500).json({ error: errMsg });
+    const count = body.count === undefined ? 1 : Number(body.count);
+    if (!Number.isInteger(count) || count < 1 || count > MAX_ENHANCE_VARIANTS) {
+      return res.status(400).json({ error: `count must be between 1 and ${MAX_ENHANCE_VARIANTS}` });
     }
-
-    const result = (await response.json()) as {
-      choices?: Array<{ message?: { content?: string } }>;
-    };
-    let enhanced = result.choices?.[0]?.message?.content?.trim();
-
-    if (!enhanced) {
-      return res.status(500).json({ error: 'No enhanced prompt returned' });
+    if (body.mode !== undefined && !isEnhanceMode(body.mode)) {
+      return res.status(400).json({ error: 'Invalid mode' });
     }
+    const mode = body.mode ?? DEFAULT_ENHANCE_MODE;
+    // Same rules as /api/generate: only our storage bucket, so this can't be used to fetch arbitrary URLs
+    const referenceImageUrls = parseReferenceImageUrls(body.referenceImageUrls);
+
+    const content = await createChatCompletion({
+      model: referenceImageUrls.length > 0 ? ENHANCE_VISION_MODEL : ENHANCE_MODEL,
+      messages: [
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'system', content: `Style direction: ${MODE_INSTRUCTIONS[mode]}\nReturn exactly ${count} prompt${count === 1 ? '' : 's'}.` },
+        // Vision input: the model sees the references itself
+        { role: 'user', content: withImages(prompt, referenceImageUrls) },
+      ],
+      maxTokens: 400 * count,
+      // Variants need room to differ from each other
+      temperature: count > 1 ? 0.9 : 0.5,
+    });
+    const enhancedPrompts = [...new Set(parsePrompts(content))].slice(0, count);
 
-    // Strip surrounding quotes (single or double) - model sometimes returns "prompt"
-    if ((enhanced.startsWith('"') && enhanced.endsWith('"')) || (enhanced.startsWith("'") && enhanced.endsWith("'"))) {
-      enhanced = enhanced.slice(1, -1);
+    if (enhancedPrompts.length === 0) {
+      return res.status(500).json({ error: 'No enhanced prompt returned' });
     }
 
-    return res.status(200).json({ enhancedPrompt: enhanced });
+    // enhancedPrompt: single-result shape used before variants existed
+    return res.status(200).json({ enhancedPrompts, enhancedPrompt: enhancedPrompts[0], mode });
   } catch (error) {
+    if (error instanceof ReferenceImageError || error instanceof ProviderError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     console.error('Enhance prompt API error:', error);
     return res.status(500).json({
       error: error instanceof Error ? error.message : 'Failed to enhance prompt',
@@ -1,10 +1,24 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-
-const LAOZHANG_API_KEY = process.env.LAOZHANG_API_KEY;
-const LAOZHANG_API_URL = process.env.LAOZHANG_API_URL || 'https://api.laozhang.ai';
+import { waitUntil } from '@vercel/functions';
+import { DEFAULT_IMAGE_MODEL, type AspectRatio, type ImageSize } from '../src/config/models.js';
+import { getImageCost } from '../src/config/pricing.js';
+import { isVariationStrength, type VariationStrength } from '../src/config/variations.js';
+import { isWildcardResolution } from '../src/config/wildcards.js';
+import {
+  generateWithProvider,
+  getImageProvider,
+  isProviderConfigured,
+} from './_lib/providers.js';
+import { getAuthenticatedUser } from './_lib/auth.js';
+import { WorkspaceCreditError } from './_lib/credits.js';
+import { runJob, startJob } from './_lib/jobs.js';
+import { loadReferenceImages, parseReferenceImageUrls, ReferenceImageError } from './_lib/references.js';
+import { canUseFolder, canUseParentImage, saveGeneratedImage, type ImageParent } from './_lib/images.js';
+import { supabaseAdmin } from './_lib/supabaseAdmin.js';
+import { buildVariationPrompt } from './_lib/variations.js';
 
 export const config = {
-  maxDuration: 60, // Allow up to 60s for image generation
+  maxDuration: 300, // Work continues after the 202 (waitUntil) - 4K renders can exceed 60s
 };
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
@@ -12,91 +26,150 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  if (!LAOZHANG_API_KEY || LAOZHANG_API_KEY === 'sk-YOUR_API_KEY_HERE') {
+  if (!isProviderConfigured()) {
     return res.status(500).json({
       error: 'Server configuration error: LAOZHANG_API_KEY not set. Add it in Vercel project settings.',
     });
   }
 
+  if (!supabaseAdmin) {
+    return res.status(500).json({
+      error: 'Server configuration error: SUPABASE_SERVICE_ROLE_KEY not set. Add it in Vercel project settings.',
+    });
+  }
+
   try {
+    const user = await getAuthenticatedUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Sign in to generate images' });
+    }
+
     const body = req.body as {
       prompt: string;
-      aspectRatio: string;
-      imageSize: string;
-      referenceImages?: string[];
+      aspectRatio?: string;
+      imageSize?: string;
+      model?: string;
+      /** Public URLs in our storage bucket - fetched here, never shipped as base64 */
+      referenceImageUrls?: string[];
+      /** Folder the saved image goes into; null/absent = "My Kreations" */
+      folderId?: string | null;
+      /** Lineage: the user's image this one is derived from (Re-run, variations) */
+      parentImageId?: string | null;
+      derivationType?: string;
+      /** Variations: referenceImageUrls[0] is the source image (also parentImageId) */
+      variationStrength?: string;
+      /** Wildcard draws the client made for this prompt (prompt is already resolved) - stored on the image */
+      wildcards?: unknown;
+      /** Charge this team workspace's credit pool instead of the user's own credits */
+      workspaceId?: string | null;
     };
 
-    const { prompt, aspectRatio, imageSize, referenceImages } = body;
+    const { prompt } = body;
 
     if (!prompt || typeof prompt !== 'string') {
       return res.status(400).json({ error: 'Missing or invalid prompt' });
     }
 
-    const parts: Array<{ text?: string; inline_data?: { mime_type: string; data: string } }> = [
-      { text: prompt },
-    ];
-
-    if (referenceImages && Array.isArray(referenceImages) && referenceImages.length > 0) {
-      referenceImages.forEach((imageData: string) => {
-        const base64Data = imageData.includes('base64,')
-          ? imageData.split('base64,')[1]
-          : imageData;
-        parts.push({
-          inline_data: {
-            mime_type: 'image/jpeg',
-            data: base64Data,
-          },
-        });
-      });
+    const model = body.model || DEFAULT_IMAGE_MODEL;
+    const provider = getImageProvider(model);
+    if (!provider) {
+      return res.status(400).json({ error: `Unsupported model: ${model}` });
     }
 
-    const payload = {
-      contents: [{ parts }],
-      generationConfig: {
-        responseModalities: ['IMAGE'],
-        imageConfig: {
-          aspectRatio: aspectRatio || '3:2',
-          imageSize: imageSize || '1K',
-        },
-      },
-    };
+    const aspectRatio = (body.aspectRatio || '3:2') as AspectRatio;
+    const imageSize = (body.imageSize || '1K') as ImageSize;
+    if (!provider.aspectRatios.includes(aspectRatio)) {
+      return res.status(400).json({ error: `Aspect ratio ${aspectRatio} is not supported by ${model}` });
+    }
+    if (!provider.imageSizes.includes(imageSize)) {
+      return res.status(400).json({ error: `Image size ${imageSize} is not supported by ${model}` });
+    }
 
-    const response = await fetch(
-      `${LAOZHANG_API_URL}/v1beta/models/gemini-3-pro-image-preview:generateContent`,
-      {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${LAOZHANG_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload),
-      }
-    );
+    const referenceImageUrls = parseReferenceImageUrls(body.referenceImageUrls);
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      return res.status(response.status).json({
-        error: errorData.error?.message || `LaoZhang API error: ${response.status} ${response.statusText}`,
-      });
+    const folderId = typeof body.folderId === 'string' && body.folderId ? body.folderId : null;
+    if (!(await canUseFolder(user.id, folderId))) {
+      return res.status(400).json({ error: 'Folder not found, or you can only view it' });
     }
 
-    const result = await response.json();
-    const base64Data = result.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    let parent: ImageParent | null = null;
+    if (typeof body.parentImageId === 'string' && body.parentImageId) {
+      const derivationType = body.derivationType ?? 'rerun';
+      if (derivationType !== 'rerun' && derivationType !== 'variation') {
+        return res.status(400).json({ error: `Unsupported derivationType: ${derivationType}` });
+      }
+      if (!(await canUseParentImage(user.id, body.parentImageId))) {
+        return res.status(400).json({ error: 'Parent image not found' });
+      }
+      parent = { imageId: body.parentImageId, derivationType };
+    }
 
-    if (!base64Data) {
-      return res.status(500).json({ error: 'No image data returned from LaoZhang API' });
+    let variationStrength: VariationStrength | null = null;
+    if (body.variationStrength !== undefined) {
+      if (!isVariationStrength(body.variationStrength)) {
+        return res.status(400).json({ error: `Unsupported variationStrength: ${body.variationStrength}` });
+      }
+      if (parent?.derivationType !== 'variation' || referenceImageUrls.length === 0) {
+        return res.status(400).json({ error: 'Variations need the source image as parentImageId and first reference' });
+      }
+      variationStrength = body.variationStrength;
     }
 
-    return res.status(200).json({
-      base64Data,
+    if (body.wildcards !== undefined && body.wildcards !== null && !isWildcardResolution(body.wildcards)) {
+      return res.status(400).json({ error: 'Invalid wildcards' });
+    }
+    const wildcards = body.wildcards ?? null;
+
+    const cost = getImageCost(provider.model, imageSize, referenceImageUrls.length).credits;
+    const workspaceId = typeof body.workspaceId === 'string' && body.workspaceId ? body.workspaceId : null;
+    const started = await startJob({
+      userId: user.id,
+      model: provider.model,
       prompt,
-      aspectRatio: aspectRatio || '3:2',
-      imageSize: imageSize || '1K',
+      aspectRatio,
+      imageSize,
+      credits: cost,
+      workspaceId,
     });
+    if (!started) {
+      return res.status(402).json({ error: `Insufficient ${workspaceId ? 'workspace ' : ''}credits: this image costs ${cost}` });
+    }
+    const { job, remainingCredits } = started;
+
+    // Respond now; the render keeps going after the response and the client polls the status route
+    waitUntil(
+      runJob(job, async () => {
+        const referenceImages = await loadReferenceImages(referenceImageUrls);
+        const image = await generateWithProvider(provider, {
+          prompt: variationStrength ? buildVariationPrompt(prompt, variationStrength) : prompt,
+          aspectRatio,
+          imageSize,
+          referenceImages,
+        });
+        return saveGeneratedImage({
+          userId: user.id,
+          base64Data: image.base64Data,
+          mimeType: image.mimeType,
+          prompt,
+          aspectRatio,
+          imageSize,
+          model: provider.model,
+          referenceImageUrls,
+          folderId,
+          parent,
+          wildcards,
+        });
+      })
+    );
+
+    return res.status(202).json({ jobId: job.id, status: job.status, credits: cost, remainingCredits });
   } catch (error) {
+    if (error instanceof ReferenceImageError || error instanceof WorkspaceCreditError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     console.error('Generate API error:', error);
     return res.status(500).json({
-      error: error instanceof Error ? error.message : 'Failed to generate image',
+      error: error instanceof Error ? error.message : 'Failed to start generation',
     });
   }
 }
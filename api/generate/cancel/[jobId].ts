@@ -0,0 +1,43 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getAuthenticatedUser } from '../../_lib/auth.js';
+import { cancelJob, getJob } from '../../_lib/jobs.js';
+
+/**
+ * POST /api/generate/cancel/:jobId
+ * pending/running → 200 { status: 'cancelled' } (credits refunded)
+ * already finished → 409 { status, error }
+ * Only the job's owner can cancel it.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const jobId = typeof req.query.jobId === 'string' ? req.query.jobId : '';
+  if (!/^[0-9a-f-]{36}$/i.test(jobId)) {
+    return res.status(400).json({ error: 'Invalid job id' });
+  }
+
+  try {
+    const user = await getAuthenticatedUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+
+    const job = await getJob(jobId);
+    if (!job || job.user_id !== user.id) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    if (!(await cancelJob(job))) {
+      const current = await getJob(jobId);
+      return res.status(409).json({ jobId, status: current?.status ?? job.status, error: 'Job already finished' });
+    }
+    return res.status(200).json({ jobId, status: 'cancelled' });
+  } catch (error) {
+    console.error('Job cancel error:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to cancel job',
+    });
+  }
+}
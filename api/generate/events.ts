@@ -0,0 +1,103 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getAuthenticatedUser } from '../_lib/auth.js';
+import { failJob, isJobStale, listUserJobs, type GenerationJob } from '../_lib/jobs.js';
+
+export const config = {
+  maxDuration: 300,
+};
+
+/** Close a little before maxDuration; the client reconnects right away */
+const STREAM_WINDOW_MS = 240 * 1000;
+const CHECK_INTERVAL_MS = 1000;
+const HEARTBEAT_MS = 15 * 1000;
+/** With no pending/running jobs for this long the stream ends with an `idle` event instead of checking on */
+const IDLE_CLOSE_MS = 5 * 1000;
+/** Jobs that finished this long before (re)connecting are still sent, so a reconnect doesn't miss them */
+const REPLAY_WINDOW_MS = 30 * 1000;
+
+/** Same body as /api/generate/status/:jobId for the job's status */
+function toEventData(job: GenerationJob): Record<string, unknown> {
+  if (job.status === 'succeeded' && job.result) return { jobId: job.id, status: job.status, ...job.result };
+  if (job.status === 'failed') return { jobId: job.id, status: job.status, error: job.error || 'Failed to generate image' };
+  if (job.status === 'cancelled') return { jobId: job.id, status: job.status, error: job.error || 'Cancelled' };
+  return { jobId: job.id, status: job.status };
+}
+
+/**
+ * GET /api/generate/events  (Authorization: Bearer <supabase jwt>)
+ * Server-sent events for all of the user's jobs: one `job` event per status change
+ * (pending → running → succeeded/failed/cancelled), data = the status route's JSON body.
+ * Open jobs and recently finished ones are sent on connect. The stream ends after a few minutes;
+ * clients reconnect, and fall back to polling the status route when it isn't available.
+ * Once the user has no open jobs it sends `idle` and ends, so an idle tab doesn't keep the database busy;
+ * clients reconnect when they start watching a new job.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  let userId: string;
+  try {
+    const user = await getAuthenticatedUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    userId = user.id;
+  } catch (error) {
+    console.error('Job events auth error:', error);
+    return res.status(503).json({ error: 'Failed to open job events' });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-store',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // don't let proxies buffer the stream
+  });
+  res.write('retry: 3000\n\n');
+
+  let closed = false;
+  req.on('close', () => {
+    closed = true;
+  });
+
+  const started = Date.now();
+  const since = new Date(started - REPLAY_WINDOW_MS);
+  const sentStatus = new Map<string, string>();
+  let lastWrite = Date.now();
+  let lastOpenJob = Date.now();
+
+  while (!closed && Date.now() - started < STREAM_WINDOW_MS) {
+    try {
+      const jobs = await listUserJobs(userId, since);
+      for (const job of jobs) {
+        // The function processing it was killed (maxDuration) - close it out like the status route does
+        if (isJobStale(job)) {
+          const error = await failJob(job, 'Generation timed out');
+          Object.assign(job, { status: 'failed', error });
+        }
+        if (sentStatus.get(job.id) === job.status) continue;
+        sentStatus.set(job.id, job.status);
+        res.write(`event: job\ndata: ${JSON.stringify(toEventData(job))}\n\n`);
+        lastWrite = Date.now();
+      }
+      if (jobs.some((job) => job.status === 'pending' || job.status === 'running')) {
+        lastOpenJob = Date.now();
+      } else if (Date.now() - lastOpenJob >= IDLE_CLOSE_MS) {
+        res.write('event: idle\ndata: {}\n\n');
+        break;
+      }
+    } catch (error) {
+      // Transient DB error - keep the stream open, the next check retries
+      console.error('Job events error:', error);
+    }
+    if (Date.now() - lastWrite >= HEARTBEAT_MS) {
+      res.write(': ping\n\n');
+      lastWrite = Date.now();
+    }
+    await new Promise((r) => setTimeout(r, CHECK_INTERVAL_MS));
+  }
+
+  res.end();
+}
@@ -0,0 +1,59 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getAuthenticatedUser } from '../../_lib/auth.js';
+import { failJob, getJob, isJobStale } from '../../_lib/jobs.js';
+
+/**
+ * GET /api/generate/status/:jobId
+ * pending/running → 200 { status } (keep polling)
+ * succeeded       → 200 { status, url, storagePath, prompt, aspectRatio, imageSize, model }
+ * failed          → 500 { status, error }   (error ends with [CREDITS_REFUNDED] when the charge was returned)
+ * cancelled       → 409 { status, error }   (always refunded)
+ * Only the job's owner can read it.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const jobId = typeof req.query.jobId === 'string' ? req.query.jobId : '';
+  if (!/^[0-9a-f-]{36}$/i.test(jobId)) {
+    return res.status(400).json({ error: 'Invalid job id' });
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+
+  try {
+    const user = await getAuthenticatedUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+
+    const job = await getJob(jobId);
+    if (!job || job.user_id !== user.id) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    // The function processing it was killed (maxDuration) - close it out so clients stop polling
+    if (isJobStale(job)) {
+      const message = await failJob(job, 'Generation timed out');
+      return res.status(500).json({ jobId: job.id, status: 'failed', error: message });
+    }
+
+    if (job.status === 'failed') {
+      return res.status(500).json({ jobId: job.id, status: job.status, error: job.error || 'Failed to generate image' });
+    }
+    if (job.status === 'cancelled') {
+      return res.status(409).json({ jobId: job.id, status: job.status, error: job.error || 'Cancelled' });
+    }
+    if (job.status === 'succeeded' && job.result) {
+      return res.status(200).json({ jobId: job.id, status: job.status, ...job.result });
+    }
+    return res.status(200).json({ jobId: job.id, status: job.status });
+  } catch (error) {
+    // 503, not 500: the client treats 500 as a terminal job failure and would stop polling
+    console.error('Job status error:', error);
+    return res.status(503).json({
+      error: error instanceof Error ? error.message : 'Failed to load job status',
+    });
+  }
+}
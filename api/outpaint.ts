@@ -0,0 +1,149 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { waitUntil } from '@vercel/functions';
+import sharp from 'sharp';
+import {
+  DEFAULT_IMAGE_MODEL,
+  IMAGE_SIZES,
+  isImageModelId,
+  type AspectRatio,
+  type ImageSize,
+} from '../src/config/models.js';
+import { getEditCost } from '../src/config/pricing.js';
+import { generateWithProvider, getImageProvider, isProviderConfigured } from './_lib/providers.js';
+import { getAuthenticatedUser } from './_lib/auth.js';
+import { WorkspaceCreditError } from './_lib/credits.js';
+import { runJob, startJob } from './_lib/jobs.js';
+import { loadReferenceImages, ReferenceImageError } from './_lib/references.js';
+import { canUseFolder, getUserImage, saveGeneratedImage } from './_lib/images.js';
+import { compositeInsideMask } from './_lib/inpaint.js';
+import { buildOutpaintCanvas, buildOutpaintPrompt, matchesAspect } from './_lib/outpaint.js';
+import { getPublicUrl } from './_lib/storage.js';
+import { supabaseAdmin } from './_lib/supabaseAdmin.js';
+
+export const config = {
+  maxDuration: 300, // Same as /api/generate - the render runs after the 202 (waitUntil)
+};
+
+/**
+ * POST /api/outpaint  (Authorization: Bearer <supabase jwt>)
+ * { imageId, aspectRatio, workspaceId? }
+ * Extends one of the user's images to another aspect ratio with the original centered and unchanged,
+ * saved as its child ('edit') in the same folder (My Kreations when the user can no longer save there).
+ * One request per target ratio.
+ * Same job flow as /api/generate: 202 { jobId } → poll /api/generate/status/:jobId.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isProviderConfigured()) {
+    return res.status(500).json({
+      error: 'Server configuration error: LAOZHANG_API_KEY not set. Add it in Vercel project settings.',
+    });
+  }
+
+  if (!supabaseAdmin) {
+    return res.status(500).json({
+      error: 'Server configuration error: SUPABASE_SERVICE_ROLE_KEY not set. Add it in Vercel project settings.',
+    });
+  }
+
+  try {
+    const user = await getAuthenticatedUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Sign in to extend images' });
+    }
+
+    const body = req.body as { imageId?: string; aspectRatio?: string; workspaceId?: string | null };
+    if (typeof body.imageId !== 'string' || !body.imageId) {
+      return res.status(400).json({ error: 'imageId is required' });
+    }
+
+    const source = await getUserImage(user.id, body.imageId);
+    if (!source) {
+      return res.status(404).json({ error: 'Image not found' });
+    }
+    // Own images stay reachable after losing edit rights to their workspace folder - don't write into it then
+    const folderId = (await canUseFolder(user.id, source.folder_id)) ? source.folder_id : null;
+
+    const model = isImageModelId(source.model) ? source.model : DEFAULT_IMAGE_MODEL;
+    const provider = getImageProvider(model);
+    if (!provider) {
+      return res.status(400).json({ error: `Unsupported model: ${model}` });
+    }
+    const aspectRatio = body.aspectRatio as AspectRatio;
+    if (!provider.aspectRatios.includes(aspectRatio)) {
+      return res.status(400).json({ error: `Aspect ratio ${body.aspectRatio} is not supported by ${model}` });
+    }
+    if (aspectRatio === source.aspect_ratio) {
+      return res.status(400).json({ error: `This image is already ${aspectRatio}` });
+    }
+    const imageSize: ImageSize = (IMAGE_SIZES as readonly string[]).includes(source.image_size ?? '')
+      ? (source.image_size as ImageSize)
+      : '1K';
+    const prompt = source.prompt ?? '';
+
+    const cost = getEditCost(model, imageSize).credits;
+    const workspaceId = typeof body.workspaceId === 'string' && body.workspaceId ? body.workspaceId : null;
+    const started = await startJob({
+      userId: user.id,
+      model,
+      prompt,
+      aspectRatio,
+      imageSize,
+      credits: cost,
+      workspaceId,
+    });
+    if (!started) {
+      return res.status(402).json({ error: `Insufficient ${workspaceId ? 'workspace ' : ''}credits: this extension costs ${cost}` });
+    }
+    const { job, remainingCredits } = started;
+
+    const sourceUrl = getPublicUrl(source.storage_path);
+    waitUntil(
+      runJob(job, async () => {
+        const [image] = await loadReferenceImages([sourceUrl]);
+        const original = Buffer.from(image.data, 'base64');
+        const { width = 0, height = 0 } = await sharp(original).metadata();
+        if (matchesAspect(width, height, aspectRatio)) {
+          throw new Error(`This image is already ${aspectRatio}`);
+        }
+        const { canvas, mask, blendMask } = await buildOutpaintCanvas(original, aspectRatio);
+        const extended = await generateWithProvider(provider, {
+          prompt: buildOutpaintPrompt(prompt),
+          aspectRatio,
+          imageSize,
+          referenceImages: [
+            { mimeType: 'image/png', data: canvas.toString('base64') },
+            { mimeType: 'image/png', data: mask.toString('base64') },
+          ],
+        });
+        // The original area comes back pixel-for-pixel; only the margins are the model's
+        const composited = await compositeInsideMask(canvas, Buffer.from(extended.base64Data, 'base64'), blendMask);
+        return saveGeneratedImage({
+          userId: user.id,
+          base64Data: composited.toString('base64'),
+          mimeType: 'image/png',
+          prompt,
+          aspectRatio,
+          imageSize,
+          model,
+          referenceImageUrls: [sourceUrl],
+          folderId,
+          parent: { imageId: source.id, derivationType: 'edit' },
+        });
+      })
+    );
+
+    return res.status(202).json({ jobId: job.id, status: job.status, credits: cost, remainingCredits });
+  } catch (error) {
+    if (error instanceof ReferenceImageError || error instanceof WorkspaceCreditError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Outpaint API error:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to start extension',
+    });
+  }
+}
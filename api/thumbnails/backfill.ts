@@ -0,0 +1,99 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { isCronRequest } from '../_lib/auth.js';
+import { uploadThumbnails } from '../_lib/storage.js';
+import { BUCKET_NAME, requireSupabaseAdmin } from '../_lib/supabaseAdmin.js';
+
+export const config = {
+  maxDuration: 300,
+};
+
+const DEFAULT_BATCH_SIZE = 25;
+const MAX_BATCH_SIZE = 100;
+
+interface BackfillRow {
+  id: string;
+  storage_path: string;
+  thumb_storage_path: string | null;
+}
+
+/** `1700000000000-abc123.png` → `1700000000000-abc123`, so variants sit next to new uploads' thumbs */
+function baseNameFromPath(storagePath: string): string {
+  const fileName = storagePath.split('/').pop() || storagePath;
+  return fileName.replace(/\.[^.]+$/, '');
+}
+
+async function backfillRow(row: BackfillRow): Promise<void> {
+  const admin = requireSupabaseAdmin();
+  const { data: blob, error: downloadError } = await admin.storage.from(BUCKET_NAME).download(row.storage_path);
+  if (downloadError || !blob) {
+    throw new Error(`Download failed: ${downloadError?.message ?? 'empty file'}`);
+  }
+
+  const thumbnails = await uploadThumbnails(Buffer.from(await blob.arrayBuffer()), baseNameFromPath(row.storage_path), true);
+  const { error } = await admin
+    .from('images')
+    .update({ thumb_variants: thumbnails.thumbVariants, thumb_storage_path: thumbnails.thumbStoragePath })
+    .eq('id', row.id);
+  if (error) throw new Error(`Database error: ${error.message}`);
+
+  // The old single thumbnail is no longer referenced by the row
+  const previous = row.thumb_storage_path;
+  if (previous && !Object.values(thumbnails.thumbVariants).includes(previous)) {
+    await admin.storage.from(BUCKET_NAME).remove([previous]);
+  }
+}
+
+/**
+ * GET /api/thumbnails/backfill?limit=25  (Vercel Cron, Authorization: Bearer $CRON_SECRET)
+ * Generates responsive WebP variants for images saved before thumb_variants existed.
+ * Rows that fail are marked with {} so the next run moves on.
+ * → 200 { processed, failed, remaining }
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+  if (!isCronRequest(req)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const requested = Number(req.query.limit);
+  const limit = Number.isInteger(requested) && requested > 0 ? Math.min(requested, MAX_BATCH_SIZE) : DEFAULT_BATCH_SIZE;
+
+  try {
+    const admin = requireSupabaseAdmin();
+    const { data, error } = await admin
+      .from('images')
+      .select('id, storage_path, thumb_storage_path')
+      .is('thumb_variants', null)
+      .order('created_at', { ascending: true })
+      .limit(limit);
+    if (error) throw new Error(`Database error: ${error.message}`);
+
+    let processed = 0;
+    let failed = 0;
+    // One at a time - sharp on a 4K image is memory hungry
+    for (const row of (data ?? []) as BackfillRow[]) {
+      try {
+        await backfillRow(row);
+        processed++;
+      } catch (err) {
+        failed++;
+        console.error(`Thumbnail backfill failed for ${row.id}:`, err);
+        await admin.from('images').update({ thumb_variants: {} }).eq('id', row.id);
+      }
+    }
+
+    const { count } = await admin
+      .from('images')
+      .select('id', { count: 'exact', head: true })
+      .is('thumb_variants', null);
+
+    return res.status(200).json({ processed, failed, remaining: count ?? null });
+  } catch (error) {
+    console.error('Thumbnail backfill error:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Thumbnail backfill failed',
+    });
+  }
+}
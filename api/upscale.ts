@@ -0,0 +1,134 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { waitUntil } from '@vercel/functions';
+import {
+  DEFAULT_IMAGE_MODEL,
+  IMAGE_SIZES,
+  isImageModelId,
+  type AspectRatio,
+  type ImageSize,
+} from '../src/config/models.js';
+import { getUpscaleCost } from '../src/config/pricing.js';
+import { getAuthenticatedUser } from './_lib/auth.js';
+import { WorkspaceCreditError } from './_lib/credits.js';
+import { runJob, startJob } from './_lib/jobs.js';
+import { loadReferenceImages, ReferenceImageError } from './_lib/references.js';
+import { canUseFolder, getUserImage, saveGeneratedImage } from './_lib/images.js';
+import { getPublicUrl } from './_lib/storage.js';
+import { getUpscaler } from './_lib/upscalers.js';
+import { supabaseAdmin } from './_lib/supabaseAdmin.js';
+
+export const config = {
+  maxDuration: 300, // Same as /api/generate - the upscale runs after the 202 (waitUntil)
+};
+
+const isImageSize = (value: unknown): value is ImageSize =>
+  typeof value === 'string' && (IMAGE_SIZES as readonly string[]).includes(value);
+
+/**
+ * POST /api/upscale  (Authorization: Bearer <supabase jwt>)
+ * { imageId, targetSize: '2K' | '4K', workspaceId? }
+ * Saves a larger copy of one of the user's images as its child (derivation 'upscale') in the same folder
+ * (My Kreations when the user can no longer save there, e.g. after being made a workspace viewer).
+ * Same job flow as /api/generate: 202 { jobId } → poll /api/generate/status/:jobId.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const upscaler = getUpscaler();
+  if (!upscaler) {
+    return res.status(500).json({
+      error: `Server configuration error: unknown UPSCALE_PROVIDER "${process.env.UPSCALE_PROVIDER}". Fix it in Vercel project settings.`,
+    });
+  }
+  if (!upscaler.isConfigured()) {
+    return res.status(500).json({
+      error: 'Server configuration error: LAOZHANG_API_KEY not set. Add it in Vercel project settings.',
+    });
+  }
+
+  if (!supabaseAdmin) {
+    return res.status(500).json({
+      error: 'Server configuration error: SUPABASE_SERVICE_ROLE_KEY not set. Add it in Vercel project settings.',
+    });
+  }
+
+  try {
+    const user = await getAuthenticatedUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Sign in to upscale images' });
+    }
+
+    const body = req.body as { imageId?: string; targetSize?: string; workspaceId?: string | null };
+    if (typeof body.imageId !== 'string' || !body.imageId) {
+      return res.status(400).json({ error: 'imageId is required' });
+    }
+    const targetSize = body.targetSize;
+    if (!isImageSize(targetSize)) {
+      return res.status(400).json({ error: `targetSize must be one of ${IMAGE_SIZES.join(', ')}` });
+    }
+
+    const source = await getUserImage(user.id, body.imageId);
+    if (!source) {
+      return res.status(404).json({ error: 'Image not found' });
+    }
+    // Own images stay reachable after losing edit rights to their workspace folder - don't write into it then
+    const folderId = (await canUseFolder(user.id, source.folder_id)) ? source.folder_id : null;
+    const sourceSize: ImageSize = isImageSize(source.image_size) ? source.image_size : '1K';
+    if (IMAGE_SIZES.indexOf(targetSize) <= IMAGE_SIZES.indexOf(sourceSize)) {
+      return res.status(400).json({ error: `This image is already ${sourceSize}` });
+    }
+
+    const model = isImageModelId(source.model) ? source.model : DEFAULT_IMAGE_MODEL;
+    const aspectRatio = (source.aspect_ratio || '3:2') as AspectRatio;
+    const prompt = source.prompt ?? '';
+
+    const cost = getUpscaleCost(model, targetSize).credits;
+    const workspaceId = typeof body.workspaceId === 'string' && body.workspaceId ? body.workspaceId : null;
+    const started = await startJob({
+      userId: user.id,
+      model,
+      prompt,
+      aspectRatio,
+      imageSize: targetSize,
+      credits: cost,
+      workspaceId,
+    });
+    if (!started) {
+      return res.status(402).json({ error: `Insufficient ${workspaceId ? 'workspace ' : ''}credits: this upscale costs ${cost}` });
+    }
+    const { job, remainingCredits } = started;
+
+    const sourceUrl = getPublicUrl(source.storage_path);
+    waitUntil(
+      runJob(job, async () => {
+        const [image] = await loadReferenceImages([sourceUrl]);
+        const upscaled = await upscaler.upscale({ image, aspectRatio, model, targetSize });
+        return saveGeneratedImage({
+          userId: user.id,
+          base64Data: upscaled.base64Data,
+          mimeType: upscaled.mimeType,
+          prompt,
+          aspectRatio,
+          imageSize: targetSize,
+          model,
+          // Keep the original's references so Re-run behaves like it does on the original
+          referenceImageUrls: source.reference_image_urls ?? [],
+          folderId,
+          parent: { imageId: source.id, derivationType: 'upscale' },
+        });
+      })
+    );
+
+    return res.status(202).json({ jobId: job.id, status: job.status, credits: cost, remainingCredits });
+  } catch (error) {
+    if (error instanceof ReferenceImageError || error instanceof WorkspaceCreditError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Upscale API error:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to start upscale',
+    });
+  }
+}
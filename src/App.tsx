@@ -7,41 +7,100 @@ import ImageModal from './components/ImageModal';
 import AuthScreen from './components/AuthScreen';
 import ProfilePage from './components/ProfilePage';
 import { useAuth } from './hooks/useAuth';
-import { generateImage, getActiveJobIds, pollJobUntilComplete } from './services/imageGeneration';
-import { saveImageToSupabase, saveImageMetadataToSupabase, fetchImagesFromSupabase, deleteImage } from './services/imageStorage';
+import {
+  editImage,
+  fileToBase64,
+  generateImage,
+  getActiveJobs,
+  cancelGenerationJob,
+  isCancelledError,
+  outpaintImage,
+  pollJobUntilComplete,
+  upscaleImage,
+} from './services/imageGeneration';
+import { fetchImagesFromSupabase, deleteImage, ensureReferenceImageUrl, type StoredImage } from './services/imageStorage';
 import { fetchProfilesByIds, fetchProfile, updateProfile } from './services/profileService';
 import { fetchFolders, createFolder, type Folder } from './services/folderService';
 import { fetchMoodboards, type Moodboard } from './services/moodboardService';
 import { submitFeedback } from './services/feedbackService';
 import { recordGeneration } from './services/stats';
+import { loadQueuedJobs, saveQueuedJobs, type QueuedJob } from './services/generationQueue';
 import type { ImageGenerationParams, ImageModelId } from './services/imageGeneration';
 import { IMAGE_MODELS } from './services/imageGeneration';
-import { compressImageFromUrl } from './utils/compressImage';
+import { DEFAULT_IMAGE_MODEL, getImageModelLabel, isImageModelId } from './config/models';
+import type { EditRegion } from './config/edits';
+import type { WildcardResolution } from './config/wildcards';
+import {
+  DEFAULT_VARIATION_STRENGTH,
+  MAX_VARIATIONS,
+  VARIATION_STRENGTHS,
+  type VariationStrength,
+} from './config/variations';
+import { getEditCost, getImageCost, getUpscaleCost } from './config/pricing';
 import LandingPage from './pages/LandingPage';
 import MoodboardsPage from './pages/MoodboardsPage';
 import MyPromptsPage from './pages/MyPromptsPage';
 import VideoPage from './pages/VideoPage';
 import PaymentSuccessPage from './pages/PaymentSuccessPage';
 import { fetchPromptTemplates, DEFAULT_PROMPT_TEMPLATES } from './services/promptTemplateService';
+import { fetchWildcards, type PromptWildcard } from './services/wildcardService';
+import {
+  canEditWorkspace,
+  fetchWorkspaces,
+  loadActiveWorkspaceId,
+  saveActiveWorkspaceId,
+  type Workspace,
+} from './services/workspaceService';
+import WorkspaceModal from './components/WorkspaceModal';
 import './App.css';
 
 // App shell: grid, control panel, modals (wrap settings, image modal, etc.)
 
 type GridItem =
-  | { type: 'image'; id: string; url: string; thumbUrl?: string; aspectRatio: string; prompt: string; imageSize: string; model?: string; referenceImageUrls?: string[]; creator?: CreatorInfo }
-  | { type: 'placeholder'; id: string; status: 'generating' | 'queued'; aspectRatio: string; imageSize: string };
-
-interface QueuedJob {
-  id: string;
-  params: ImageGenerationParams;
-  /** Folder ID at job start - used when saving so image goes to correct folder even if user switches folders */
-  folderId: string | null;
+  | { type: 'image'; id: string; url: string; thumbUrl?: string; thumbSrcSet?: string; aspectRatio: string; prompt: string; imageSize: string; model?: string; referenceImageUrls?: string[]; editRegions?: EditRegion[]; parentImageId?: string; wildcards?: WildcardResolution; creator?: CreatorInfo }
+  | { type: 'placeholder'; id: string; status: 'generating' | 'queued'; aspectRatio: string; imageSize: string; group?: string };
+
+type GridImage = Extract<GridItem, { type: 'image' }>;
+
+/** New placeholders go first, or right after their group's earlier placeholders so a prompt matrix stays in order */
+function insertPlaceholders(items: GridItem[], placeholders: GridItem[], group?: string): GridItem[] {
+  let lastInGroup = -1;
+  if (group) items.forEach((item, i) => {
+    if (item.type === 'placeholder' && item.group === group) lastInGroup = i;
+  });
+  if (lastInGroup < 0) return [...placeholders, ...items];
+  return [...items.slice(0, lastInGroup + 1), ...placeholders, ...items.slice(lastInGroup + 1)];
+}
+
+function toGridImage(img: StoredImage, creator?: CreatorInfo): GridImage {
+  return {
+    type: 'image',
+    id: img.id,
+    url: img.url,
+    thumbUrl: img.thumbUrl,
+    thumbSrcSet: img.thumbSrcSet,
+    aspectRatio: img.aspect_ratio || '',
+    prompt: img.prompt || '',
+    imageSize: img.image_size || '',
+    model: img.model || undefined,
+    referenceImageUrls: Array.isArray(img.reference_image_urls) ? img.reference_image_urls : undefined,
+    editRegions: Array.isArray(img.edit_regions) ? img.edit_regions : undefined,
+    parentImageId: img.parent_image_id || undefined,
+    wildcards: img.wildcards ?? undefined,
+    creator,
+  };
 }
 
 const MAX_CONCURRENT = 3;
+/** Same as the /api/generate reference limit - the source image takes the first slot */
+const MAX_VARIATION_REFERENCES = 6;
+/** Viewers can use a workspace's shared content but not spend its credit pool */
+const VIEWER_SPEND_ERROR = 'Viewers cannot spend workspace credits - ask an owner for editor access';
 let jobIdCounter = 0;
+/** Unique across reloads, so restored queue entries never collide with new ones */
+const JOB_ID_PREFIX = `job-${Date.now().toString(36)}`;
 function nextJobId() {
-  return `job-${++jobIdCounter}`;
+  return `${JOB_ID_PREFIX}-${++jobIdCounter}`;
 }
 
 const WRAP_ASPECTS: ImageGenerationParams['aspectRatio'][] = [
@@ -163,10 +222,25 @@ function AppShell() {
   const [gridItems, setGridItems] = useState<GridItem[]>([]);
   const [queue, setQueue] = useState<QueuedJob[]>([]);
   const [runningCount, setRunningCount] = useState(0);
+  /** User whose saved queue has been loaded (persisting starts after that) */
+  const [queueRestoredFor, setQueueRestoredFor] = useState<string | null>(null);
+  /** Abort controllers of started jobs, keyed by queued job id (for the placeholder cancel button) */
+  const runningAbortRef = useRef(new Map<string, AbortController>());
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedImageIndex, setSelectedImageIndex] = useState<number | null>(null);
+  /** Modal opened from the lineage strip on an image that isn't in the loaded grid */
+  const [lineageImage, setLineageImage] = useState<GridImage | null>(null);
+  /**
+   * Image the prompt panel was filled from by Re-run, with what was filled in. A generation is recorded as its
+   * child only while the prompt and references are still those; the first one that differs drops it.
+   */
+  const rerunSourceRef = useRef<{ imageId: string; prompt: string; referenceImageUrls: string[] } | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(null); // null = personal
+  /** Workspace settings modal: 'create' = new workspace form, 'active' = members of the active one */
+  const [workspaceModal, setWorkspaceModal] = useState<'create' | 'active' | null>(null);
   const [folders, setFolders] = useState<Folder[]>([]);
   const [activeFolderId, setActiveFolderId] = useState<string | null>(null); // null = "My Kreations"
   const [createFolderOpen, setCreateFolderOpen] = useState(false);
@@ -179,6 +253,7 @@ function AppShell() {
   const [controlPanelOpen, setControlPanelOpen] = useState(false);
   const [moodboards, setMoodboards] = useState<Moodboard[]>([]);
   const [promptTemplates, setPromptTemplates] = useState<Array<{ id: string; handle: string; prompt_text: string }>>([]);
+  const [wildcards, setWildcards] = useState<PromptWildcard[]>([]);
   const [currentUserCreator, setCurrentUserCreator] = useState<CreatorInfo | null>(null);
   const [imagesRefreshKey, setImagesRefreshKey] = useState(0);
   const [hasMoreImages, setHasMoreImages] = useState(false);
@@ -194,15 +269,22 @@ function AppShell() {
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const loadMoreSentinelRef = useRef<HTMLDivElement>(null);
   const imageCountRef = useRef(0);
+  /** Region edits waiting for settings: the clean source image + boxes (editable instructions) */
   const [wrapSettings, setWrapSettings] = useState<{
-    wrappedUrl: string;
-    referenceImageUrls?: string[];
+    imageUrl: string;
+    regions: EditRegion[];
+    /** Recorded as the edit's parent */
+    parentImageId: string;
   } | null>(null);
   const [wrapAspect, setWrapAspect] = useState<ImageGenerationParams['aspectRatio']>('3:2');
   const [wrapQuality, setWrapQuality] = useState<ImageGenerationParams['imageSize']>('1K');
-  const [wrapModel, setWrapModel] = useState<ImageModelId>('gemini-3-pro-image-preview');
+  const [wrapModel, setWrapModel] = useState<ImageModelId>(DEFAULT_IMAGE_MODEL);
   const [wrapBatchSize, setWrapBatchSize] = useState(1);
   const [wrapGenerating, setWrapGenerating] = useState(false);
+  /** Image the Variations dialog is open for */
+  const [variationSource, setVariationSource] = useState<GridImage | null>(null);
+  const [variationStrength, setVariationStrength] = useState<VariationStrength>(DEFAULT_VARIATION_STRENGTH);
+  const [variationCount, setVariationCount] = useState(2);
 
   useEffect(() => {
     if (typeof window !== 'undefined' && window.location.hash.includes('type=recovery')) {
@@ -234,37 +316,100 @@ function AppShell() {
     void refetchCredits();
   }, [refetchCredits]);
 
-  // Load folders when user is set (mine view only uses them)
+  const loadWorkspaces = useCallback(async () => {
+    if (!user?.id) return;
+    try {
+      const list = await fetchWorkspaces(user.id);
+      setWorkspaces(list);
+      // Drop a remembered workspace the user has left or that was deleted
+      setActiveWorkspaceId((current) => (current && list.some((w) => w.id === current) ? current : null));
+    } catch (err) {
+      console.error('Failed to load workspaces:', err);
+      setWorkspaces([]);
+      setActiveWorkspaceId(null);
+    }
+  }, [user?.id]);
+
+  // Load workspaces when user is set, starting in the one last used on this device
   useEffect(() => {
     if (!user?.id) return;
-    fetchFolders(user.id)
+    setActiveWorkspaceId(loadActiveWorkspaceId(user.id));
+    void loadWorkspaces();
+  }, [user?.id, loadWorkspaces]);
+
+  const activeWorkspace = useMemo(
+    () => workspaces.find((w) => w.id === activeWorkspaceId) ?? null,
+    [workspaces, activeWorkspaceId]
+  );
+  /** Balance new jobs are paid from: the workspace pool while one is active */
+  const spendableCredits = activeWorkspace ? activeWorkspace.credits : credits;
+  /** Mirrors the API check, which refuses viewers with 403 */
+  const canSpendCredits = canEditWorkspace(activeWorkspace);
+
+  /** Optimistic change to the balance a job is paid from (personal credits or a workspace pool) */
+  const adjustCredits = useCallback((workspaceId: string | null | undefined, delta: number) => {
+    if (workspaceId) {
+      setWorkspaces((list) => list.map((w) => (w.id === workspaceId ? { ...w, credits: Math.max(0, w.credits + delta) } : w)));
+    } else {
+      setCredits((c) => (c !== null ? Math.max(0, c + delta) : c));
+    }
+  }, []);
+
+  /** Server owns both balances - resync personal credits and workspace pools */
+  const refetchBalances = useCallback(() => {
+    void refetchCredits();
+    void loadWorkspaces();
+  }, [refetchCredits, loadWorkspaces]);
+
+  const handleSwitchWorkspace = useCallback((workspaceId: string | null) => {
+    if (!user?.id) return;
+    setActiveWorkspaceId(workspaceId);
+    saveActiveWorkspaceId(user.id, workspaceId);
+    setActiveFolderId(null);
+  }, [user?.id]);
+
+  // Load folders when user or workspace changes (mine view only uses them)
+  useEffect(() => {
+    if (!user?.id) return;
+    fetchFolders(user.id, activeWorkspaceId)
       .then(setFolders)
       .catch((err) => {
         console.error('Failed to load folders:', err);
         setFolders([]);
       });
-  }, [user?.id]);
+  }, [user?.id, activeWorkspaceId]);
 
-  // Load moodboards when user is set
+  // Load moodboards when user or workspace changes
   useEffect(() => {
     if (!user?.id) return;
-    fetchMoodboards(user.id)
+    fetchMoodboards(user.id, activeWorkspaceId)
       .then(setMoodboards)
       .catch((err) => {
         console.error('Failed to load moodboards:', err);
         setMoodboards([]);
       });
-  }, [user?.id]);
+  }, [user?.id, activeWorkspaceId]);
 
-  // Load prompt templates when user is set
+  // Load prompt templates (per workspace) when user or workspace changes
   useEffect(() => {
     if (!user?.id) return;
-    fetchPromptTemplates(user.id)
+    fetchPromptTemplates(user.id, activeWorkspaceId)
       .then(setPromptTemplates)
       .catch((err) => {
         console.error('Failed to load prompt templates:', err);
         setPromptTemplates([]);
       });
+  }, [user?.id, activeWorkspaceId]);
+
+  // Wildcard lists are always personal
+  useEffect(() => {
+    if (!user?.id) return;
+    fetchWildcards(user.id)
+      .then(setWildcards)
+      .catch((err) => {
+        console.error('Failed to load wildcards:', err);
+        setWildcards([]);
+      });
   }, [user?.id]);
 
   const filteredGridItems = useMemo(() => {
@@ -296,17 +441,7 @@ function AppShell() {
         const creatorMap = await fetchProfilesByIds(userIds);
         const newImages: GridItem[] = stored
           .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
-          .map((img) => ({
-            type: 'image' as const,
-            id: img.id,
-            url: img.url,
-            thumbUrl: img.thumbUrl,
-            aspectRatio: img.aspect_ratio || '',
-            prompt: img.prompt || '',
-            imageSize: img.image_size || '',
-            referenceImageUrls: Array.isArray(img.reference_image_urls) ? img.reference_image_urls : undefined,
-            creator: img.user_id ? creatorMap.get(img.user_id) : undefined,
-          }));
+          .map((img) => toGridImage(img, img.user_id ? creatorMap.get(img.user_id) : undefined));
         setGridItems((prev) => {
           const placeholders = prev.filter((item): item is Extract<GridItem, { type: 'placeholder' }> => item.type === 'placeholder');
           return [...placeholders, ...newImages];
@@ -337,17 +472,7 @@ function AppShell() {
       const { images: stored, hasMore } = await fetchImagesFromSupabase('mine', opts);
       const userIds = [...new Set(stored.map((img) => img.user_id).filter(Boolean))] as string[];
       const creatorMap = await fetchProfilesByIds(userIds);
-      const moreImages: GridItem[] = stored.map((img) => ({
-        type: 'image' as const,
-        id: img.id,
-        url: img.url,
-        thumbUrl: img.thumbUrl,
-        aspectRatio: img.aspect_ratio || '',
-        prompt: img.prompt || '',
-        imageSize: img.image_size || '',
-        referenceImageUrls: Array.isArray(img.reference_image_urls) ? img.reference_image_urls : undefined,
-        creator: img.user_id ? creatorMap.get(img.user_id) : undefined,
-      }));
+      const moreImages: GridItem[] = stored.map((img) => toGridImage(img, img.user_id ? creatorMap.get(img.user_id) : undefined));
       setGridItems((prev) => [...prev, ...moreImages]);
       setHasMoreImages(hasMore);
     } catch (err) {
@@ -376,25 +501,55 @@ function AppShell() {
   // Recover in-flight jobs after reload: add "generating" placeholders, poll, refetch when done
   useEffect(() => {
     if (!user?.id) return;
-    const ids = getActiveJobIds();
-    if (ids.length === 0) return;
-    const placeholders: GridItem[] = ids.map((jobId) => ({
+    const activeJobs = getActiveJobs();
+    if (activeJobs.length === 0) return;
+    const placeholders: GridItem[] = activeJobs.map((job) => ({
       type: 'placeholder',
-      id: `recovery-${jobId}`,
+      id: `recovery-${job.jobId}`,
       status: 'generating' as const,
-      aspectRatio: '3:2',
-      imageSize: '1K',
+      aspectRatio: job.aspectRatio,
+      imageSize: job.imageSize,
     }));
     setGridItems((prev) => [...placeholders, ...prev]);
     const onJobComplete = (completedJobId: string) => {
       setGridItems((prev) => prev.filter((p) => !(p.type === 'placeholder' && p.id === `recovery-${completedJobId}`)));
       setImagesRefreshKey((k) => k + 1);
     };
-    ids.forEach((jobId) => {
-      pollJobUntilComplete(jobId, onJobComplete).then(() => {});
+    activeJobs.forEach((job) => {
+      pollJobUntilComplete(job.jobId, onJobComplete).then(() => {});
     });
   }, [user?.id]);
 
+  // Restore jobs that were still waiting in the queue; processQueue picks them up from here.
+  // Jobs whose POST was in flight at reload are not restored - if the server accepted one, its image lands in the grid anyway.
+  useEffect(() => {
+    if (!user?.id) return;
+    const restored = loadQueuedJobs(user.id)
+      // The pre-reload decrement is gone once credits are refetched, so there is nothing to give back on cancel
+      .map((job) => ({ ...job, credits: 0 }));
+    if (restored.length > 0) {
+      setQueue((q) => [...restored, ...q]);
+      setGridItems((prev) => [
+        ...restored.map((job): GridItem => ({
+          type: 'placeholder',
+          id: job.id,
+          status: 'queued',
+          aspectRatio: job.params.aspectRatio,
+          imageSize: job.params.imageSize,
+          group: job.group,
+        })),
+        ...prev,
+      ]);
+    }
+    setQueueRestoredFor(user.id);
+  }, [user?.id]);
+
+  // Mirror the queue to localStorage - only after it was restored, so the initial empty queue doesn't wipe it
+  useEffect(() => {
+    if (!user?.id || queueRestoredFor !== user.id) return;
+    saveQueuedJobs(user.id, queue);
+  }, [queue, queueRestoredFor, user?.id]);
+
   const processQueue = useCallback(() => {
     if (runningCount >= MAX_CONCURRENT || queue.length === 0) return;
 
@@ -413,118 +568,255 @@ function AppShell() {
     );
 
     jobsToStart.forEach((job) => {
-      const localRefUrls = job.params.referenceImageUrls?.filter((u): u is string => !!u);
-      const modelLabel = job.params.model ? IMAGE_MODELS[job.params.model] : undefined;
-
-      generateImage(job.params)
-        .then(async (img) => {
-          let gridImage: GridItem;
-          const backendSaved = img.storagePath && typeof img.id === 'string' && /^[0-9a-f-]{36}$/i.test(img.id);
-          // Prefer server-persisted URLs (includes uploaded local refs), fall back to local params
-          const refUrls = img.referenceImageUrls?.length ? img.referenceImageUrls : localRefUrls;
-        if (backendSaved) {
-          gridImage = {
+      const controller = new AbortController();
+      runningAbortRef.current.set(job.id, controller);
+      const { signal } = controller;
+      // Backend saves the image (storage + images row) into the folder active when the job was queued
+      const request = job.edit
+        ? editImage({ ...job.params, ...job.edit, folderId: job.folderId }, signal)
+        : job.upscale
+          ? upscaleImage({ ...job.params, ...job.upscale }, signal)
+          : job.outpaint
+            ? outpaintImage({ ...job.params, ...job.outpaint }, signal)
+            : generateImage({ ...job.params, folderId: job.folderId }, signal);
+      request
+        .then((img) => {
+          // Backend echoes the model it actually used
+          const modelId = img.model ?? job.params.model;
+          const gridImage: GridItem = {
             type: 'image',
             id: img.id,
             url: img.url,
-            thumbUrl: img.thumbUrl ?? img.url,
+            thumbUrl: img.thumbUrl,
+            thumbSrcSet: img.thumbSrcSet,
             aspectRatio: img.aspectRatio,
-              prompt: img.prompt,
-              imageSize: img.imageSize,
-              model: modelLabel,
-              referenceImageUrls: refUrls,
-              creator: currentUserCreator ?? undefined,
-            };
-          } else {
-            const targetFolderId = job.folderId;
-            try {
-              const stored = img.storagePath
-                ? await saveImageMetadataToSupabase(img.storagePath, img.prompt, img.aspectRatio, img.imageSize, refUrls, img.thumbStoragePath, targetFolderId)
-                : await saveImageToSupabase(img.base64Data, img.prompt, img.aspectRatio, img.imageSize, refUrls, targetFolderId);
-              gridImage = {
-                type: 'image',
-                id: stored.id,
-                url: stored.url,
-                thumbUrl: stored.thumbUrl,
-                aspectRatio: stored.aspect_ratio || img.aspectRatio,
-                prompt: stored.prompt || img.prompt,
-                imageSize: stored.image_size || img.imageSize,
-                model: modelLabel,
-                referenceImageUrls: refUrls,
-                creator: currentUserCreator ?? undefined,
-              };
-            } catch (saveErr) {
-              console.error('Failed to save image to Supabase:', saveErr);
-              gridImage = {
-                type: 'image',
-                id: img.id,
-                url: img.url,
-                thumbUrl: undefined,
-                aspectRatio: img.aspectRatio,
-                prompt: img.prompt,
-                imageSize: img.imageSize,
-                model: modelLabel,
-                referenceImageUrls: refUrls,
-                creator: currentUserCreator ?? undefined,
-              };
-            }
-          }
+            prompt: img.prompt,
+            imageSize: img.imageSize,
+            model: modelId,
+            referenceImageUrls: img.referenceImageUrls,
+            editRegions: img.editRegions,
+            parentImageId: img.parentImageId,
+            wildcards: img.wildcards,
+            creator: currentUserCreator ?? undefined,
+          };
           setGridItems((prev) => {
+            // Grouped (prompt matrix) results take their placeholder's slot so the group stays together
+            if (job.group) return prev.map((p) => (p.type === 'placeholder' && p.id === job.id ? gridImage : p));
             const filtered = prev.filter((p) => !(p.type === 'placeholder' && p.id === job.id));
             return [gridImage, ...filtered];
           });
-          recordGeneration(1);
-          void refetchCredits();
+          const cost = job.edit || job.outpaint
+            ? getEditCost(modelId, img.imageSize)
+            : job.upscale
+              ? getUpscaleCost(modelId, img.imageSize)
+              : getImageCost(modelId, img.imageSize, job.params.referenceImageUrls?.length);
+          recordGeneration(1, cost.usd);
+          refetchBalances();
         })
         .catch((err) => {
+          if (isCancelledError(err)) {
+            // The cancel route refunded the job; the placeholder was removed by handleCancelJob
+            refetchBalances();
+            setGridItems((prev) => prev.filter((p) => !(p.type === 'placeholder' && p.id === job.id)));
+            return;
+          }
           const rawMsg = err instanceof Error ? err.message : 'Failed to generate image';
           const creditsRefunded = rawMsg.includes('[CREDITS_REFUNDED]');
           const cleanMsg = rawMsg.replace(' [CREDITS_REFUNDED]', '');
           setError(creditsRefunded ? `${cleanMsg} — your credit has been refunded.` : cleanMsg);
-          if (creditsRefunded) void refetchCredits();
+          // Server owns the balance - resync after refunds and rejected (402) jobs alike
+          refetchBalances();
           setGridItems((prev) => prev.filter((p) => !(p.type === 'placeholder' && p.id === job.id)));
         })
         .finally(() => {
+          runningAbortRef.current.delete(job.id);
           setRunningCount((c) => c - 1);
         });
     });
-  }, [queue, runningCount, currentUserCreator, refetchCredits]);
+  }, [queue, runningCount, currentUserCreator, refetchBalances]);
 
   useEffect(() => {
     processQueue();
   }, [queue, runningCount, processQueue]);
 
-  const WRAP_PROMPT =
-    'The refence image includes red rectangle selectors with text that explain what exactly needs to be changed on the image. Execute this prompt. Never output back the red rectangles and the red text. Only the image with the changes made.';
-
-  const handleGenerate = useCallback((params: ImageGenerationParams, batchSize: number) => {
+  const handleGenerate = useCallback((params: ImageGenerationParams, batchSize: number, group?: string) => {
     if (!params.prompt.trim()) {
       setError('Please enter a prompt');
       return;
     }
+    if (!canSpendCredits) {
+      setError(VIEWER_SPEND_ERROR);
+      return;
+    }
 
     setError(null);
-    const paramsWithUser = { ...params, userId: user?.id };
 
+    const rerun = rerunSourceRef.current;
+    if (rerun && !params.parent) {
+      const refs = params.referenceImageUrls ?? [];
+      const unchanged =
+        params.prompt.trim() === rerun.prompt &&
+        refs.length === rerun.referenceImageUrls.length &&
+        refs.every((url) => rerun.referenceImageUrls.includes(url));
+      if (unchanged) params = { ...params, parent: { imageId: rerun.imageId, derivationType: 'rerun' } };
+      else rerunSourceRef.current = null;
+    }
+    // Paid from the pool of the workspace active when queued, even if the user switches before it starts
+    params = { ...params, workspaceId: activeWorkspaceId };
+
+    const jobCredits = getImageCost(params.model, params.imageSize, params.referenceImageUrls?.length).credits;
     const jobs: QueuedJob[] = [];
     const placeholders: GridItem[] = [];
 
     for (let i = 0; i < batchSize; i++) {
       const id = nextJobId();
-      jobs.push({ id, params: paramsWithUser, folderId: activeFolderId });
+      jobs.push({ id, params, folderId: activeFolderId, credits: jobCredits, group });
       placeholders.push({
         type: 'placeholder',
         id,
         status: 'queued' as const,
         aspectRatio: params.aspectRatio,
         imageSize: params.imageSize,
+        group,
       });
     }
 
+    setGridItems((prev) => insertPlaceholders(prev, placeholders, group));
+    setQueue((q) => [...q, ...jobs]);
+    adjustCredits(activeWorkspaceId, -jobCredits * batchSize);
+  }, [activeFolderId, activeWorkspaceId, canSpendCredits, adjustCredits]);
+
+  /** Queue `count` edit/upscale/outpaint jobs with placeholders and the optimistic credit decrement */
+  const queueDerivedJobs = useCallback((
+    params: ImageGenerationParams,
+    kind: Pick<QueuedJob, 'edit' | 'upscale' | 'outpaint'>,
+    creditsPerJob: number,
+    count = 1
+  ) => {
+    if (!canSpendCredits) {
+      setError(VIEWER_SPEND_ERROR);
+      return;
+    }
+    setError(null);
+    params = { ...params, workspaceId: activeWorkspaceId };
+    const jobs: QueuedJob[] = [];
+    const placeholders: GridItem[] = [];
+    for (let i = 0; i < count; i++) {
+      const id = nextJobId();
+      jobs.push({ id, params, folderId: activeFolderId, credits: creditsPerJob, ...kind });
+      placeholders.push({ type: 'placeholder', id, status: 'queued' as const, aspectRatio: params.aspectRatio, imageSize: params.imageSize });
+    }
     setGridItems((prev) => [...placeholders, ...prev]);
     setQueue((q) => [...q, ...jobs]);
-    setCredits((c) => (c !== null ? Math.max(0, c - batchSize) : c));
-  }, [user?.id, activeFolderId]);
+    adjustCredits(activeWorkspaceId, -creditsPerJob * count);
+  }, [activeFolderId, activeWorkspaceId, canSpendCredits, adjustCredits]);
+
+  /**
+   * Cancel from a placeholder. Queued jobs never reached the server, so only the optimistic
+   * decrement is given back; started jobs are aborted and cancelled (and refunded) server-side.
+   */
+  const handleCancelJob = useCallback((placeholderId: string) => {
+    const removePlaceholder = () =>
+      setGridItems((prev) => prev.filter((p) => !(p.type === 'placeholder' && p.id === placeholderId)));
+
+    if (placeholderId.startsWith('recovery-')) {
+      // Job from before a reload - no local controller, cancel it by its server id
+      removePlaceholder();
+      void cancelGenerationJob(placeholderId.slice('recovery-'.length)).then(refetchBalances);
+      return;
+    }
+    const controller = runningAbortRef.current.get(placeholderId);
+    if (controller) {
+      removePlaceholder();
+      controller.abort();
+      return;
+    }
+    const queued = queue.find((j) => j.id === placeholderId);
+    if (!queued) return;
+    setQueue((q) => q.filter((j) => j.id !== placeholderId));
+    removePlaceholder();
+    adjustCredits(queued.params.workspaceId, queued.credits);
+  }, [queue, refetchBalances, adjustCredits]);
+
+  const handleCancelAllQueued = useCallback(() => {
+    if (queue.length === 0) return;
+    const ids = new Set(queue.map((j) => j.id));
+    setQueue([]);
+    setGridItems((prev) => prev.filter((p) => !(p.type === 'placeholder' && ids.has(p.id))));
+    queue.forEach((j) => adjustCredits(j.params.workspaceId, j.credits));
+  }, [queue, adjustCredits]);
+
+  /** Queue a mask inpaint of a grid image; the mask (white = repaint) goes inline with the request */
+  const handleInpaint = useCallback(async (
+    source: { id: string; url: string; aspectRatio: string; imageSize: string; model?: string },
+    maskBlob: Blob,
+    instruction: string
+  ) => {
+    const maskData = await fileToBase64(maskBlob);
+    const params: ImageGenerationParams = {
+      prompt: instruction,
+      aspectRatio: (source.aspectRatio as ImageGenerationParams['aspectRatio']) || '3:2',
+      imageSize: (source.imageSize as ImageGenerationParams['imageSize']) || '1K',
+      model: isImageModelId(source.model) ? source.model : DEFAULT_IMAGE_MODEL,
+      parent: { imageId: source.id, derivationType: 'edit' },
+    };
+    queueDerivedJobs(params, { edit: { imageUrl: source.url, maskData } }, getEditCost(params.model, params.imageSize).credits);
+  }, [queueDerivedJobs]);
+
+  /** Queue a 2K/4K copy of a grid image; the backend saves it next to the original */
+  const handleUpscale = useCallback((source: GridImage, targetSize: ImageGenerationParams['imageSize']) => {
+    const params: ImageGenerationParams = {
+      prompt: source.prompt,
+      aspectRatio: (source.aspectRatio as ImageGenerationParams['aspectRatio']) || '3:2',
+      imageSize: targetSize,
+      model: isImageModelId(source.model) ? source.model : DEFAULT_IMAGE_MODEL,
+    };
+    queueDerivedJobs(params, { upscale: { imageId: source.id } }, getUpscaleCost(params.model, targetSize).credits);
+  }, [queueDerivedJobs]);
+
+  /** Queue one extended copy per target ratio; the backend saves them next to the original */
+  const handleOutpaint = useCallback((source: GridImage, aspectRatios: ImageGenerationParams['aspectRatio'][]) => {
+    for (const aspectRatio of aspectRatios) {
+      const params: ImageGenerationParams = {
+        prompt: source.prompt,
+        aspectRatio,
+        imageSize: (source.imageSize as ImageGenerationParams['imageSize']) || '1K',
+        model: isImageModelId(source.model) ? source.model : DEFAULT_IMAGE_MODEL,
+      };
+      queueDerivedJobs(params, { outpaint: { imageId: source.id } }, getEditCost(params.model, params.imageSize).credits);
+    }
+  }, [queueDerivedJobs]);
+
+  const handleOpenVariations = useCallback((imageId: string) => {
+    const item = gridItems.find((i): i is GridImage => i.type === 'image' && i.id === imageId);
+    if (item) setVariationSource(item);
+  }, [gridItems]);
+
+  /** Source first, then its own references (the server de-duplicates too) */
+  const variationReferenceUrls = useMemo(
+    () => variationSource
+      ? [...new Set([variationSource.url, ...(variationSource.referenceImageUrls ?? [])])].slice(0, MAX_VARIATION_REFERENCES)
+      : [],
+    [variationSource]
+  );
+  const variationCredits = variationSource
+    ? getImageCost(variationSource.model, variationSource.imageSize, variationReferenceUrls.length).credits * variationCount
+    : 0;
+
+  const handleStartVariations = useCallback(() => {
+    if (!variationSource) return;
+    const params: ImageGenerationParams = {
+      prompt: variationSource.prompt || 'A variation of the reference image',
+      aspectRatio: (variationSource.aspectRatio as ImageGenerationParams['aspectRatio']) || '3:2',
+      imageSize: (variationSource.imageSize as ImageGenerationParams['imageSize']) || '1K',
+      model: isImageModelId(variationSource.model) ? variationSource.model : DEFAULT_IMAGE_MODEL,
+      referenceImageUrls: variationReferenceUrls,
+      parent: { imageId: variationSource.id, derivationType: 'variation' },
+      variationStrength,
+    };
+    handleGenerate(params, variationCount);
+    setVariationSource(null);
+  }, [variationSource, variationReferenceUrls, variationStrength, variationCount, handleGenerate]);
 
   const handleImageClick = useCallback((index: number) => {
     setSelectedImageIndex(index);
@@ -532,6 +824,7 @@ function AppShell() {
 
   const handleCloseModal = useCallback(() => {
     setSelectedImageIndex(null);
+    setLineageImage(null);
   }, []);
 
   const handleDeleteImage = useCallback(async (imageId: string) => {
@@ -549,7 +842,7 @@ function AppShell() {
     if (!user?.id || !createFolderName.trim()) return;
     setCreateFolderSubmitting(true);
     try {
-      const folder = await createFolder(user.id, createFolderName.trim());
+      const folder = await createFolder(user.id, createFolderName.trim(), activeWorkspaceId);
       setFolders((prev) => [...prev, folder]);
       setActiveFolderId(folder.id);
       setCreateFolderOpen(false);
@@ -561,7 +854,7 @@ function AppShell() {
     } finally {
       setCreateFolderSubmitting(false);
     }
-  }, [user?.id, createFolderName]);
+  }, [user?.id, createFolderName, activeWorkspaceId]);
 
   const handleAddToReference = useCallback((url: string) => {
     setReferenceImageUrlToInject(url);
@@ -587,8 +880,9 @@ function AppShell() {
     setControlPanelOpen(true);
   }, []);
 
-  const handleReRun = useCallback((prompt: string, referenceImageUrls?: string[]) => {
+  const handleReRun = useCallback((prompt: string, referenceImageUrls?: string[], sourceImageId?: string) => {
     setPromptToInject(prompt);
+    let injectedUrls: string[] = [];
     if (referenceImageUrls && referenceImageUrls.length > 0) {
       const isValidUrl = (u: unknown): u is string => {
         if (typeof u !== 'string') return false;
@@ -600,10 +894,14 @@ function AppShell() {
       };
       const valid = referenceImageUrls.filter(isValidUrl);
       const deduped = [...new Set(valid)];
+      injectedUrls = deduped;
       setReferenceImageUrlsToInject(deduped.length ? deduped : null);
     } else {
       setReferenceImageUrlsToInject(null);
     }
+    rerunSourceRef.current = sourceImageId
+      ? { imageId: sourceImageId, prompt: prompt.trim(), referenceImageUrls: injectedUrls }
+      : null;
     setControlPanelOpen(true);
   }, []);
 
@@ -626,6 +924,9 @@ function AppShell() {
     }
   }, [feedbackMessage, feedbackEmail]);
 
+  // Region edits are priced like every other edit (getEditCost)
+  const wrapCredits = getEditCost(wrapModel, wrapQuality).credits * wrapBatchSize;
+
   if (authLoading) {
     return (
       <div className="min-h-screen bg-black flex items-center justify-center">
@@ -661,9 +962,38 @@ function AppShell() {
 
   return (
     <>
-      {pathname !== '/app/profile' && pathname !== '/app/moodboards' && pathname !== '/app/prompts' && pathname !== '/app/video' && <Header onSignOut={signOut} credits={credits} userId={user?.id} subscriptionPlan={subscriptionPlan} subscriptionStatus={subscriptionStatus} />}
+      {pathname !== '/app/profile' && pathname !== '/app/moodboards' && pathname !== '/app/prompts' && pathname !== '/app/video' && (
+        <Header
+          onSignOut={signOut}
+          credits={credits}
+          userId={user?.id}
+          subscriptionPlan={subscriptionPlan}
+          subscriptionStatus={subscriptionStatus}
+          workspaces={workspaces}
+          activeWorkspaceId={activeWorkspace?.id ?? null}
+          onSwitchWorkspace={handleSwitchWorkspace}
+          onManageWorkspace={(create) => setWorkspaceModal(create ? 'create' : 'active')}
+        />
+      )}
+      {workspaceModal && user?.id && (
+        <WorkspaceModal
+          key={workspaceModal === 'active' ? activeWorkspace?.id : 'create'}
+          userId={user.id}
+          workspace={workspaceModal === 'active' ? activeWorkspace : null}
+          onClose={() => setWorkspaceModal(null)}
+          onWorkspacesChange={refetchBalances}
+          onSwitchWorkspace={handleSwitchWorkspace}
+        />
+      )}
       {pathname === '/app/profile' ? (
-        <ProfilePage user={user} credits={credits} onSignOut={signOut} onRequestPasswordReset={user?.email ? async () => { await resetPassword(user.email!); } : undefined} />
+        <ProfilePage
+          user={user}
+          credits={credits}
+          workspace={activeWorkspace}
+          onCreditsChange={refetchBalances}
+          onSignOut={signOut}
+          onRequestPasswordReset={user?.email ? async () => { await resetPassword(user.email!); } : undefined}
+        />
       ) : pathname === '/app/moodboards' ? (
         <MoodboardsPage
           user={user}
@@ -672,9 +1002,10 @@ function AppShell() {
             setMoodboardUrlsToInject(urls);
             setControlPanelOpen(true);
           }}
+          workspace={activeWorkspace}
         />
       ) : pathname === '/app/prompts' ? (
-        <MyPromptsPage user={user} onSignOut={signOut} />
+        <MyPromptsPage user={user} onSignOut={signOut} workspace={activeWorkspace} />
       ) : pathname === '/app/video' ? (
         <VideoPage userId={user?.id} credits={credits} onCreditsChange={setCredits} />
       ) : (
@@ -784,6 +1115,106 @@ function AppShell() {
         </div>
       )}
 
+      {/* Variations modal */}
+      {variationSource && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm" onClick={() => setVariationSource(null)}>
+          <div
+            className="bg-[#0d0e10] border border-white/10 rounded-2xl shadow-xl p-6 w-full max-w-md mx-4"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-start gap-4 mb-4">
+              <img
+                src={variationSource.thumbUrl || variationSource.url}
+                alt=""
+                className="w-16 h-16 rounded-lg object-cover border border-white/10 flex-shrink-0"
+              />
+              <div>
+                <h3 className="landing-font-display text-lg font-semibold text-white mb-1">
+                  Variations
+                </h3>
+                <p className="text-white/55 text-sm">
+                  New takes on this image with the same prompt, ratio, quality, and model.
+                </p>
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                <p className="text-white/60 text-xs font-medium uppercase tracking-wider mb-1.5">
+                  Strength
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {(Object.keys(VARIATION_STRENGTHS) as VariationStrength[]).map((strength) => (
+                    <button
+                      key={strength}
+                      type="button"
+                      onClick={() => setVariationStrength(strength)}
+                      className={`px-3 py-1.5 rounded-full text-xs font-medium transition-all ${
+                        variationStrength === strength
+                          ? 'bg-blue-500 text-white'
+                          : 'bg-white/5 text-white/80 border border-white/10 hover:bg-white/10 hover:text-white'
+                      }`}
+                    >
+                      {VARIATION_STRENGTHS[strength]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <p className="text-white/60 text-xs font-medium uppercase tracking-wider mb-1.5">
+                  Count
+                </p>
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setVariationCount((n) => Math.max(1, n - 1))}
+                    className="w-9 h-9 flex items-center justify-center rounded-lg bg-white/5 border border-white/10 text-white hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed"
+                    disabled={variationCount <= 1}
+                    aria-label="Fewer variations"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 12H4" />
+                    </svg>
+                  </button>
+                  <span className="text-white text-sm min-w-[3ch] text-center">{variationCount}</span>
+                  <button
+                    type="button"
+                    onClick={() => setVariationCount((n) => Math.min(MAX_VARIATIONS, n + 1))}
+                    className="w-9 h-9 flex items-center justify-center rounded-lg bg-white/5 border border-white/10 text-white hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed"
+                    disabled={variationCount >= MAX_VARIATIONS}
+                    aria-label="More variations"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                    </svg>
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            <div className="flex gap-2 justify-end mt-6">
+              <button
+                type="button"
+                onClick={() => setVariationSource(null)}
+                className="px-4 py-2 rounded-xl text-sm font-medium text-white/80 hover:text-white bg-white/10"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleStartVariations}
+                disabled={typeof spendableCredits === 'number' && spendableCredits < variationCredits}
+                title={typeof spendableCredits === 'number' && spendableCredits < variationCredits ? `Not enough credits (${variationCredits} needed)` : `${variationCredits} credits`}
+                className="px-4 py-2 rounded-xl text-sm font-medium bg-blue-500 hover:bg-blue-600 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {`Create ${variationCount} variation${variationCount > 1 ? 's' : ''}`}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Wrap & regenerate settings modal */}
       {wrapSettings && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm" onClick={() => !wrapGenerating && setWrapSettings(null)}>
@@ -792,13 +1223,40 @@ function AppShell() {
             onClick={(e) => e.stopPropagation()}
           >
             <h3 className="landing-font-display text-lg font-semibold text-white mb-2">
-              Wrap settings
+              Apply edits
             </h3>
             <p className="text-white/55 text-sm mb-4">
-              Choose aspect ratio, quality, and model for this wrapped regeneration.
+              Each box is applied with its own instruction. Adjust them and choose aspect ratio, quality, and model.
             </p>
 
             <div className="space-y-4">
+              <div>
+                <p className="text-white/60 text-xs font-medium uppercase tracking-wider mb-1.5">
+                  Regions
+                </p>
+                <div className="space-y-2 max-h-48 overflow-y-auto">
+                  {wrapSettings.regions.map((region, index) => (
+                    <div key={index} className="flex items-start gap-2">
+                      <span className="mt-1.5 w-4 h-4 flex-shrink-0 flex items-center justify-center rounded-sm border border-red-400 text-[10px] text-red-300">
+                        {index + 1}
+                      </span>
+                      <textarea
+                        value={region.instruction}
+                        onChange={(e) => {
+                          const instruction = e.target.value;
+                          setWrapSettings((prev) => prev && {
+                            ...prev,
+                            regions: prev.regions.map((r, i) => (i === index ? { ...r, instruction } : r)),
+                          });
+                        }}
+                        rows={2}
+                        className="w-full rounded-lg bg-white/5 border border-white/10 px-2.5 py-1.5 text-xs text-white placeholder-white/40 focus:outline-none focus:ring-1 focus:ring-blue-500/60 focus:border-blue-500/60 resize-none"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
               <div>
                 <p className="text-white/60 text-xs font-medium uppercase tracking-wider mb-1.5">
                   Aspect ratio
@@ -897,6 +1355,9 @@ function AppShell() {
               </div>
             </div>
 
+            {/* The page's error toast sits under this dialog's backdrop */}
+            {error && <p className="mt-4 text-red-300 text-sm">{error}</p>}
+
             <div className="flex gap-2 justify-end mt-6">
               <button
                 type="button"
@@ -911,26 +1372,33 @@ function AppShell() {
                 onClick={async () => {
                   if (!wrapSettings || wrapGenerating) return;
                   setWrapGenerating(true);
+                  setError(null);
                   try {
-                    const base64 = await compressImageFromUrl(wrapSettings.wrappedUrl);
+                    const imageUrl = await ensureReferenceImageUrl(wrapSettings.imageUrl);
+                    const regions = wrapSettings.regions.map((r) => ({ ...r, instruction: r.instruction.trim() }));
+                    // The server builds the prompt from the regions; this one is only the placeholder label
                     const params: ImageGenerationParams = {
-                      prompt: WRAP_PROMPT,
+                      prompt: regions.map((r) => r.instruction).join('; '),
                       aspectRatio: wrapAspect,
                       imageSize: wrapQuality,
                       model: wrapModel,
-                      referenceImages: [base64],
+                      parent: { imageId: wrapSettings.parentImageId, derivationType: 'edit' },
                     };
-                    // Do not pass referenceImageUrls: only the wrapped image is the reference.
-                    handleGenerate(params, wrapBatchSize);
+                    queueDerivedJobs(params, { edit: { imageUrl, regions } }, getEditCost(wrapModel, wrapQuality).credits, wrapBatchSize);
                     setWrapSettings(null);
                   } catch (err) {
                     console.error('Wrap generate failed:', err);
+                    setError(err instanceof Error ? err.message : 'Failed to start the edit');
                   } finally {
                     setWrapGenerating(false);
                   }
                 }}
-                disabled={wrapGenerating || (typeof credits === 'number' && credits < wrapBatchSize)}
-                title={typeof credits === 'number' && credits < wrapBatchSize ? 'Not enough credits' : undefined}
+                disabled={
+                  wrapGenerating ||
+                  wrapSettings.regions.some((r) => !r.instruction.trim()) ||
+                  (typeof spendableCredits === 'number' && spendableCredits < wrapCredits)
+                }
+                title={typeof spendableCredits === 'number' && spendableCredits < wrapCredits ? `Not enough credits (${wrapCredits} needed)` : `${wrapCredits} credits`}
                 className="px-4 py-2 rounded-xl text-sm font-medium bg-blue-500 hover:bg-blue-600 text-white disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
               >
                 {wrapGenerating && (
@@ -1005,6 +1473,9 @@ function AppShell() {
                 >
                   My Kreations
                 </button>
+                {activeWorkspace && (
+                  <span className="text-white/40 text-xs uppercase tracking-wider px-1">{activeWorkspace.name}</span>
+                )}
                 {folders.map((f) => (
                   <button
                     key={f.id}
@@ -1019,13 +1490,15 @@ function AppShell() {
                     {f.name}
                   </button>
                 ))}
-                <button
-                  type="button"
-                  onClick={() => setCreateFolderOpen(true)}
-                  className="px-4 py-2 rounded-xl text-sm font-medium bg-white/5 text-white/70 border border-white/10 hover:bg-white/10 hover:text-white border-dashed transition-all flex items-center gap-1.5"
-                >
-                  <span aria-hidden>+</span> New folder
-                </button>
+                {canEditWorkspace(activeWorkspace) && (
+                  <button
+                    type="button"
+                    onClick={() => setCreateFolderOpen(true)}
+                    className="px-4 py-2 rounded-xl text-sm font-medium bg-white/5 text-white/70 border border-white/10 hover:bg-white/10 hover:text-white border-dashed transition-all flex items-center gap-1.5"
+                  >
+                    <span aria-hidden>+</span> New folder
+                  </button>
+                )}
             </div>
             <div className="flex items-center gap-3 flex-wrap mr-[5px]">
               <div className="relative">
@@ -1126,11 +1599,25 @@ function AppShell() {
             </div>
           ) : (
             <>
+              {queue.length > 0 && (
+                <div className="flex items-center justify-end gap-3 mb-2 text-xs text-white/60">
+                  <span>{queue.length} queued</span>
+                  <button
+                    type="button"
+                    onClick={handleCancelAllQueued}
+                    className="px-2.5 py-1 rounded-lg bg-white/5 border border-white/10 text-white/80 hover:bg-red-500/20 hover:border-red-500/40 hover:text-white transition-colors"
+                  >
+                    Cancel all queued
+                  </button>
+                </div>
+              )}
               <ImageGrid
                 items={filteredGridItems}
                 onImageClick={handleImageClick}
+                onCancelPlaceholder={handleCancelJob}
                 onReRun={handleReRun}
                 onAddToReference={handleAddToReference}
+                onVariations={handleOpenVariations}
               />
               {hasMoreImages && (
                 <div ref={loadMoreSentinelRef} className="flex justify-center py-8 min-h-12">
@@ -1163,8 +1650,9 @@ function AppShell() {
       >
         <div className="flex justify-center">
           <ControlPanel
-            onGenerate={handleGenerate}
-            credits={credits}
+            onGenerate={canSpendCredits ? handleGenerate : undefined}
+            generateDisabledReason={canSpendCredits ? null : VIEWER_SPEND_ERROR}
+            credits={spendableCredits}
             promptToInject={promptToInject}
             onPromptInjected={handlePromptInjected}
             referenceImageUrlToInject={referenceImageUrlToInject}
@@ -1173,6 +1661,7 @@ function AppShell() {
             onReferenceImagesInjected={handleReferenceImagesInjected}
             moodboards={moodboards}
             promptTemplates={[...DEFAULT_PROMPT_TEMPLATES, ...promptTemplates]}
+            wildcards={wildcards}
             onRequestMoodboardInjection={(urls) => setMoodboardUrlsToInject(urls)}
             moodboardUrlsToInject={moodboardUrlsToInject}
             onMoodboardInjected={handleMoodboardInjected}
@@ -1183,8 +1672,8 @@ function AppShell() {
       </div>
 
       {/* Image Modal */}
-      {selectedImageIndex !== null && (() => {
-        const item = filteredGridItems[selectedImageIndex];
+      {(selectedImageIndex !== null || lineageImage) && (() => {
+        const item = lineageImage ?? (selectedImageIndex !== null ? filteredGridItems[selectedImageIndex] : undefined);
         if (!item || item.type !== 'image') return null;
         const imageItems = filteredGridItems.filter((i): i is Extract<typeof item, { type: 'image' }> => i.type === 'image');
         const currentImageIdx = imageItems.findIndex((i) => i.id === item.id);
@@ -1194,22 +1683,35 @@ function AppShell() {
           if (currentImageIdx <= 0) return;
           const prevItem = imageItems[currentImageIdx - 1];
           const idx = filteredGridItems.findIndex((i) => i.type === 'image' && i.id === prevItem.id);
-          if (idx >= 0) setSelectedImageIndex(idx);
+          if (idx >= 0) {
+            setLineageImage(null);
+            setSelectedImageIndex(idx);
+          }
         };
         const onNext = () => {
           if (currentImageIdx < 0 || currentImageIdx >= imageItems.length - 1) return;
           const nextItem = imageItems[currentImageIdx + 1];
           const idx = filteredGridItems.findIndex((i) => i.type === 'image' && i.id === nextItem.id);
-          if (idx >= 0) setSelectedImageIndex(idx);
+          if (idx >= 0) {
+            setLineageImage(null);
+            setSelectedImageIndex(idx);
+          }
         };
-        const handleWrapGenerate = (wrappedUrl: string, referenceImageUrlsFromModal?: string[]) => {
+        const handleOpenLineageImage = (img: StoredImage) => {
+          const idx = filteredGridItems.findIndex((i) => i.type === 'image' && i.id === img.id);
+          if (idx >= 0) {
+            setLineageImage(null);
+            setSelectedImageIndex(idx);
+          } else {
+            setLineageImage(toGridImage(img, currentUserCreator ?? undefined));
+          }
+        };
+        const handleWrapGenerate = (sourceUrl: string, regions: EditRegion[]) => {
           const aspect = (item.aspectRatio as ImageGenerationParams['aspectRatio']) || '3:2';
           const size = (item.imageSize as ImageGenerationParams['imageSize']) || '1K';
-          const model = (item.model as ImageModelId | undefined) ?? 'gemini-3-pro-image-preview';
-          setWrapSettings({
-            wrappedUrl,
-            referenceImageUrls: referenceImageUrlsFromModal ?? item.referenceImageUrls,
-          });
+          const model = isImageModelId(item.model) ? item.model : DEFAULT_IMAGE_MODEL;
+          // Re-running a region edit goes back to its source, which is also the new edit's parent
+          setWrapSettings({ imageUrl: sourceUrl, regions, parentImageId: sourceUrl === item.url ? item.id : item.parentImageId ?? item.id });
           setWrapAspect(aspect);
           setWrapQuality(size);
           setWrapModel(model);
@@ -1221,13 +1723,27 @@ function AppShell() {
             prompt={item.prompt}
             aspectRatio={item.aspectRatio}
             imageSize={item.imageSize}
-            model={item.model}
+            model={getImageModelLabel(item.model)}
             referenceImageUrls={item.referenceImageUrls}
+            editRegions={item.editRegions}
+            wildcards={item.wildcards}
+            onOpenLineageImage={handleOpenLineageImage}
+            onVariations={() => setVariationSource(item)}
+            extendAspects={WRAP_ASPECTS}
+            onExtend={(aspectRatios) => handleOutpaint(item, aspectRatios)}
+            extendCredits={getEditCost(item.model, item.imageSize).credits}
             onClose={handleCloseModal}
             onReusePrompt={(promptText, refUrls) => {
-              handleReRun(promptText, refUrls);
+              handleReRun(promptText, refUrls, item.id);
             }}
             onWrapGenerate={handleWrapGenerate}
+            onInpaint={(maskBlob, instruction) => handleInpaint(item, maskBlob, instruction)}
+            inpaintCredits={getEditCost(item.model, item.imageSize).credits}
+            onUpscale={(targetSize) => handleUpscale(item, targetSize)}
+            upscaleCredits={{
+              '2K': getUpscaleCost(item.model, '2K').credits,
+              '4K': getUpscaleCost(item.model, '4K').credits,
+            }}
             imageId={item.id}
             onDelete={handleDeleteImage}
             onPrev={onPrev}
@@ -1,10 +1,21 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { createPortal } from 'react-dom';
-import { compressImageForReference, compressImageFromUrl } from '../utils/compressImage';
-import { enhancePrompt } from '../services/promptEnhancer';
+import { ensureReferenceImageUrl } from '../services/imageStorage';
+import { describeImage, enhancePromptVariants } from '../services/promptEnhancer';
 import type { ImageGenerationParams, ImageModelId } from '../services/imageGeneration';
 import { IMAGE_MODELS } from '../services/imageGeneration';
+import { getImageCost } from '../config/pricing';
+import { DEFAULT_ENHANCE_MODE, ENHANCE_MODES, MAX_ENHANCE_VARIANTS, type EnhanceMode } from '../config/enhance';
 import { SHOW_KREATE_PLUS } from '../constants/features';
+import { expandPromptMatrix, MAX_MATRIX_PROMPTS } from '../utils/promptMatrix';
+import { findWildcardNames, randomSeed, resolveWildcards } from '../utils/wildcards';
+import {
+  defaultTemplateValues,
+  fillTemplateVariables,
+  missingTemplateValues,
+  parseTemplateVariables,
+  type TemplateVariable,
+} from '../utils/templateVariables';
 interface MoodboardItem {
   id: string;
   name: string;
@@ -12,8 +23,11 @@ interface MoodboardItem {
 }
 
 interface ControlPanelProps {
-  onGenerate?: (params: ImageGenerationParams, batchSize: number) => void;
+  /** `group` is set for prompt-matrix expansions so their results stay together in the grid */
+  onGenerate?: (params: ImageGenerationParams, batchSize: number, group?: string) => void;
   credits?: number | null;
+  /** Shown on the disabled Kreate button when the user can't generate here (e.g. a workspace viewer) */
+  generateDisabledReason?: string | null;
   promptToInject?: string | null;
   onPromptInjected?: () => void;
   referenceImageUrlToInject?: string | null;
@@ -25,6 +39,8 @@ interface ControlPanelProps {
   moodboardUrlsToInject?: string[] | null;
   onMoodboardInjected?: () => void;
   promptTemplates?: Array<{ id: string; handle: string; prompt_text: string }>;
+  /** The user's wildcard lists for `__name__` in prompts (one draw per image at submit) */
+  wildcards?: Array<{ name: string; lines: string[] }>;
   onCloseMobile?: () => void;
   className?: string;
 }
@@ -33,13 +49,25 @@ interface ControlPanelProps {
 const ASPECT_RATIOS = ['1:1', '16:9', '9:16', '4:3', '3:4', '21:9', '3:2', '2:3', '5:4', '4:5'] as const;
 const QUALITIES = ['1K', '2K', '4K'] as const;
 const MODEL_IDS = Object.keys(IMAGE_MODELS) as ImageModelId[];
+const ENHANCE_MODE_IDS = Object.keys(ENHANCE_MODES) as EnhanceMode[];
 const MAX_REFERENCE_IMAGES = 6;
 /** Sentinel for "reserved main reference" slot when using moodboard - first slot stays empty for user's main ref */
 const RESERVED_MAIN = '__RESERVED_MAIN__';
 
+/** Resolves once the browser can display the image (used to report injected refs that fail to load) */
+function preloadImage(url: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve();
+    img.onerror = () => reject(new Error(`Failed to load image: ${url}`));
+    img.src = url;
+  });
+}
+
 const ControlPanel: React.FC<ControlPanelProps> = ({
   onGenerate,
   credits,
+  generateDisabledReason,
   promptToInject,
   onPromptInjected,
   referenceImageUrlToInject,
@@ -51,27 +79,48 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
   moodboardUrlsToInject,
   onMoodboardInjected,
   promptTemplates = [],
+  wildcards = [],
   onCloseMobile,
   className,
 }) => {
   const [prompt, setPrompt] = useState('');
   const [referenceImages, setReferenceImages] = useState<string[]>([]);
-  const [referenceImagesBase64, setReferenceImagesBase64] = useState<string[]>([]);
   const [selectedAspectRatio, setSelectedAspectRatio] = useState<typeof ASPECT_RATIOS[number]>('3:2');
   const [selectedQuality, setSelectedQuality] = useState<typeof QUALITIES[number]>('1K');
   const [selectedModel, setSelectedModel] = useState<ImageModelId>('gemini-3-pro-image-preview');
   const [batchSize, setBatchSize] = useState(1);
+  /** Wildcard seed as typed; empty = a random seed per submit */
+  const [wildcardSeed, setWildcardSeed] = useState('');
   const [openPicker, setOpenPicker] = useState<'aspect' | 'quality' | 'model' | null>(null);
   const [isEnhancing, setIsEnhancing] = useState(false);
   const [enhanceError, setEnhanceError] = useState<string | null>(null);
+  const [enhanceMode, setEnhanceMode] = useState<EnhanceMode>(DEFAULT_ENHANCE_MODE);
+  const [enhanceCount, setEnhanceCount] = useState(3);
+  /** Kreate+ alternatives shown side-by-side until one is picked (or all are queued) */
+  const [enhanceVariants, setEnhanceVariants] = useState<string[] | null>(null);
   const [enlargedRefUrl, setEnlargedRefUrl] = useState<string | null>(null);
   const [useMoodboardModalOpen, setUseMoodboardModalOpen] = useState(false);
   const [moodboardInUse, setMoodboardInUse] = useState(false);
   const [atMention, setAtMention] = useState<{ atIndex: number; filter: string; cursorPos: number } | null>(null);
+  /** Values form for a template with {{variables}}; the @mention is already removed and the text goes in at `insertAt` */
+  const [templateForm, setTemplateForm] = useState<{
+    handle: string;
+    text: string;
+    variables: TemplateVariable[];
+    values: Record<string, string>;
+    insertAt: number;
+  } | null>(null);
   const [isLoadingReferenceUrls, setIsLoadingReferenceUrls] = useState(false);
   const [referenceLoadResult, setReferenceLoadResult] = useState<{ loaded: number; failed: number; total: number } | null>(null);
 
   const objectUrlsRef = useRef<string[]>([]);
+  /** blob: URL → uploaded storage URL, so batches / repeated Kreates don't re-upload the same local file */
+  const uploadedRefUrlsRef = useRef(new Map<string, string>());
+  const [isUploadingRefs, setIsUploadingRefs] = useState(false);
+  const [referenceUploadError, setReferenceUploadError] = useState<string | null>(null);
+  /** Reference currently being reverse-prompted via "Describe" */
+  const [describingRefUrl, setDescribingRefUrl] = useState<string | null>(null);
+  const [describeError, setDescribeError] = useState<string | null>(null);
   const promptRef = useRef<HTMLTextAreaElement>(null);
   /** Ignore stale reference-injection completions when user triggers another Re-run before the first finishes */
   const referenceInjectionIdRef = useRef(0);
@@ -87,6 +136,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
         setOpenPicker(null);
         setUseMoodboardModalOpen(false);
         setAtMention(null);
+        setTemplateForm(null);
       }
     };
     window.addEventListener('keydown', onEscape);
@@ -120,22 +170,47 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
     [promptTemplates.length]
   );
 
+  /** Put `text` into the prompt at `index` (replacing up to `replaceEnd`) and move the caret after it */
+  const spliceIntoPrompt = useCallback((text: string, index: number, replaceEnd = index) => {
+    setPrompt((current) => current.slice(0, index) + text + current.slice(replaceEnd));
+    setTimeout(() => {
+      const newPos = index + text.length;
+      promptRef.current?.focus();
+      promptRef.current?.setSelectionRange(newPos, newPos);
+    }, 0);
+  }, []);
+
   const insertPromptTemplate = useCallback(
     (template: { handle: string; prompt_text: string }) => {
       if (!atMention) return;
-      const before = prompt.slice(0, atMention.atIndex);
-      const after = prompt.slice(atMention.cursorPos);
-      setPrompt(before + template.prompt_text + after);
       setAtMention(null);
-      setTimeout(() => {
-        const newPos = atMention.atIndex + template.prompt_text.length;
-        promptRef.current?.focus();
-        promptRef.current?.setSelectionRange(newPos, newPos);
-      }, 0);
+      const variables = parseTemplateVariables(template.prompt_text);
+      if (variables.length === 0) {
+        spliceIntoPrompt(template.prompt_text, atMention.atIndex, atMention.cursorPos);
+        return;
+      }
+      // Drop the @mention now; the filled-in text goes in where it was
+      setPrompt((current) => current.slice(0, atMention.atIndex) + current.slice(atMention.cursorPos));
+      setTemplateForm({
+        handle: template.handle,
+        text: template.prompt_text,
+        variables,
+        values: defaultTemplateValues(variables),
+        insertAt: atMention.atIndex,
+      });
     },
-    [atMention, prompt]
+    [atMention, spliceIntoPrompt]
   );
 
+  const submitTemplateForm = useCallback(() => {
+    if (!templateForm || missingTemplateValues(templateForm.variables, templateForm.values).length > 0) return;
+    spliceIntoPrompt(
+      fillTemplateVariables(templateForm.text, templateForm.values),
+      Math.min(templateForm.insertAt, prompt.length)
+    );
+    setTemplateForm(null);
+  }, [templateForm, prompt.length, spliceIntoPrompt]);
+
   useEffect(() => {
     if (promptToInject?.trim()) {
       setPrompt(promptToInject.trim());
@@ -156,17 +231,12 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
     onReferenceImageInjected?.();
     (async () => {
       try {
-        const base64 = await compressImageFromUrl(url);
+        await preloadImage(url);
         if (injectionId !== singleRefInjectionIdRef.current) return;
-        let didAdd = false;
         setReferenceImages(prev => {
           if (prev.includes(url) || prev.length >= MAX_REFERENCE_IMAGES) return prev;
-          didAdd = true;
           return [...prev, url];
         });
-        if (didAdd) {
-          setReferenceImagesBase64(prev => (prev.length >= MAX_REFERENCE_IMAGES ? prev : [...prev, base64]));
-        }
         setReferenceLoadResult({ loaded: 1, failed: 0, total: 1 });
       } catch (err) {
         console.error('Failed to add reference image:', err);
@@ -201,13 +271,11 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
     onReferenceImagesInjected();
     (async () => {
       const newUrls: string[] = [];
-      const newBase64: string[] = [];
       let failed = 0;
       for (const url of urls) {
         try {
-          const base64 = await compressImageFromUrl(url);
+          await preloadImage(url);
           newUrls.push(url);
-          newBase64.push(base64);
         } catch (err) {
           console.error('Failed to add reference image from Re-run:', err);
           failed++;
@@ -216,7 +284,6 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
       if (injectionId !== referenceInjectionIdRef.current) return;
       if (newUrls.length > 0) {
         setReferenceImages(newUrls);
-        setReferenceImagesBase64(newBase64);
       }
       setReferenceLoadResult({ loaded: newUrls.length, failed, total });
       setIsLoadingReferenceUrls(false);
@@ -236,19 +303,16 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
     onMoodboardInjected();
     (async () => {
       const newUrls: string[] = [RESERVED_MAIN];
-      const newBase64: string[] = ['']; // reserved slot has no base64
       for (const url of urls) {
         try {
-          const base64 = await compressImageFromUrl(url);
+          await preloadImage(url);
           newUrls.push(url);
-          newBase64.push(base64);
         } catch (err) {
           console.error('Failed to add moodboard reference image:', err);
         }
       }
       if (injectionId !== moodboardInjectionIdRef.current) return;
       setReferenceImages(newUrls);
-      setReferenceImagesBase64(newBase64);
     })();
   }, [moodboardUrlsToInject, onMoodboardInjected]);
 
@@ -287,17 +351,6 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
       }
       return [...prev, ...newUrls];
     });
-    try {
-      const base64Images = await Promise.all(toAdd.map(f => compressImageForReference(f)));
-      setReferenceImagesBase64(prev => {
-        if (hasReserved && prev[0] === '') {
-          return [base64Images[0], ...prev.slice(1), ...base64Images.slice(1)];
-        }
-        return [...prev, ...base64Images];
-      });
-    } catch (err) {
-      console.error('Failed to compress images:', err);
-    }
   }, [referenceImages.length, referenceImages]);
 
   const handleFileUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -320,7 +373,6 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
       if (next.length === 0) setMoodboardInUse(false);
       return next;
     });
-    setReferenceImagesBase64(prev => prev.filter((_, i) => i !== index));
   }, []);
 
   const reorderReferenceImages = useCallback((fromIndex: number, toIndex: number) => {
@@ -331,12 +383,6 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
       next.splice(toIndex, 0, removed);
       return next;
     });
-    setReferenceImagesBase64(prev => {
-      const next = [...prev];
-      const [removed] = next.splice(fromIndex, 1);
-      next.splice(toIndex, 0, removed);
-      return next;
-    });
   }, []);
 
   // Paste from clipboard (Ctrl+V / Cmd+V) - skip when typing in prompt
@@ -357,45 +403,154 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
   }, [addImagesFromFiles]);
 
   const canAddMoreRefs = referenceImages.length < MAX_REFERENCE_IMAGES;
+  const creditsPerImage = getImageCost(selectedModel, selectedQuality, referenceImages.filter(u => u !== RESERVED_MAIN).length).credits;
+  const batchCredits = creditsPerImage * batchSize;
+  /** `{a|b}` groups in the prompt - every combination is queued as its own batch */
+  const promptMatrix = useMemo(() => expandPromptMatrix(prompt.trim()), [prompt]);
+  const isMatrix = promptMatrix.groupCount > 0;
+  const matrixTooLarge = promptMatrix.total > MAX_MATRIX_PROMPTS;
+  const totalImages = promptMatrix.prompts.length * batchSize;
+  const totalCredits = creditsPerImage * totalImages;
+  const notEnoughCredits = typeof credits === 'number' && credits < totalCredits;
+  const wildcardLists = useMemo(() => new Map(wildcards.map((w) => [w.name, w.lines])), [wildcards]);
+  const usedWildcards = useMemo(() => findWildcardNames(prompt), [prompt]);
+  const missingWildcards = usedWildcards.filter((name) => !wildcardLists.get(name)?.length);
+  const parsedWildcardSeed = /^\d+$/.test(wildcardSeed.trim()) && Number(wildcardSeed) <= 0xffffffff ? Number(wildcardSeed) : null;
+
+  /** Storage URL for one ref - local files are uploaded once and cached */
+  const resolveReferenceUrl = useCallback(async (url: string): Promise<string> => {
+    const cached = uploadedRefUrlsRef.current.get(url);
+    if (cached) return cached;
+    const uploaded = await ensureReferenceImageUrl(url);
+    uploadedRefUrlsRef.current.set(url, uploaded);
+    return uploaded;
+  }, []);
+
+  /**
+   * Backend fetches refs by URL: upload local files (original quality) first, reusing earlier uploads.
+   * Returns null (and shows an error) when an upload fails.
+   */
+  const resolveReferenceUrls = useCallback(async (): Promise<string[] | null> => {
+    const localRefs = referenceImages.filter(u => u !== RESERVED_MAIN);
+    if (localRefs.length === 0) return [];
+    setIsUploadingRefs(true);
+    setReferenceUploadError(null);
+    try {
+      return await Promise.all(localRefs.map(resolveReferenceUrl));
+    } catch (err) {
+      console.error('Failed to upload reference images:', err);
+      setReferenceUploadError('Could not upload reference images. Try again.');
+      return null;
+    } finally {
+      setIsUploadingRefs(false);
+    }
+  }, [referenceImages, resolveReferenceUrl]);
+
+  /** Reverse prompt: replace the prompt with one that recreates the reference's look */
+  const handleDescribeReference = useCallback(async (url: string) => {
+    if (describingRefUrl) return;
+    setDescribingRefUrl(url);
+    setDescribeError(null);
+    try {
+      const described = await describeImage(await resolveReferenceUrl(url));
+      setPrompt(described);
+      promptRef.current?.focus();
+    } catch (err) {
+      console.error('Failed to describe reference image:', err);
+      setDescribeError(err instanceof Error ? err.message : 'Failed to describe image');
+    } finally {
+      setDescribingRefUrl(null);
+    }
+  }, [describingRefUrl, resolveReferenceUrl]);
 
   const handleEnhanceClick = useCallback(async () => {
     const text = prompt.trim();
     if (!text) return;
     setIsEnhancing(true);
     setEnhanceError(null);
+    setEnhanceVariants(null);
     try {
-      const enhanced = await enhancePrompt(text);
-      setPrompt(enhanced);
+      // The enhancer looks at the references so it can name concrete product/subject details
+      const referenceImageUrls = await resolveReferenceUrls();
+      if (!referenceImageUrls) return;
+      const variants = await enhancePromptVariants(text, { count: enhanceCount, mode: enhanceMode, referenceImageUrls });
+      if (variants.length === 1) {
+        setPrompt(variants[0]);
+      } else {
+        setEnhanceVariants(variants);
+      }
     } catch (err) {
       setEnhanceError(err instanceof Error ? err.message : 'Failed to enhance prompt');
     } finally {
       setIsEnhancing(false);
     }
-  }, [prompt]);
+  }, [prompt, enhanceCount, enhanceMode, resolveReferenceUrls]);
 
-  const handleGenerateClick = useCallback(() => {
-    if (!onGenerate) return;
+  const pickEnhanceVariant = useCallback((variant: string) => {
+    setPrompt(variant);
+    setEnhanceVariants(null);
+    promptRef.current?.focus();
+  }, []);
+
+  /** Current settings + refs as generation params for `promptText`; null when the reference upload failed */
+  const buildGenerateParams = useCallback(async (promptText: string): Promise<ImageGenerationParams | null> => {
     const hasMainRef = referenceImages[0] !== RESERVED_MAIN;
     const realRefCount = referenceImages.filter(u => u !== RESERVED_MAIN).length;
     const promptWithMoodboard = moodboardInUse && hasMainRef && realRefCount > 1
-      ? MOODBOARD_PROMPT_PREFIX + prompt
-      : prompt;
+      ? MOODBOARD_PROMPT_PREFIX + promptText
+      : promptText;
     const params: ImageGenerationParams = {
       prompt: promptWithMoodboard,
       aspectRatio: selectedAspectRatio,
       imageSize: selectedQuality,
       model: selectedModel,
     };
-    const base64Filtered = referenceImagesBase64.filter((_, i) => referenceImages[i] !== RESERVED_MAIN);
-    if (base64Filtered.length > 0) {
-      params.referenceImages = base64Filtered;
+    const referenceImageUrls = await resolveReferenceUrls();
+    if (!referenceImageUrls) return null;
+    if (referenceImageUrls.length > 0) params.referenceImageUrls = referenceImageUrls;
+    return params;
+  }, [selectedAspectRatio, selectedQuality, selectedModel, referenceImages, moodboardInUse, resolveReferenceUrls]);
+
+  const handleGenerateClick = useCallback(async () => {
+    if (!onGenerate || isUploadingRefs || matrixTooLarge || missingWildcards.length > 0) return;
+    const hasWildcards = usedWildcards.length > 0;
+    if (!isMatrix && !hasWildcards) {
+      const params = await buildGenerateParams(prompt);
+      if (params) onGenerate(params, batchSize);
+      return;
     }
-    const refUrls = referenceImages.filter((u): u is string => typeof u === 'string' && u !== RESERVED_MAIN && (u.startsWith('http://') || u.startsWith('https://')));
-    if (refUrls.length > 0) {
-      params.referenceImageUrls = refUrls;
+    const group = `batch-${Date.now().toString(36)}`;
+    let seed = parsedWildcardSeed ?? randomSeed();
+    // Sequential: local refs are uploaded by the first call and reused (uploadedRefUrlsRef) by the rest
+    for (const expanded of promptMatrix.prompts) {
+      if (!hasWildcards) {
+        const params = await buildGenerateParams(expanded);
+        if (!params) return;
+        onGenerate(params, batchSize, group);
+        continue;
+      }
+      // One job per image, each with its own draws (seed, seed + 1, ...) so every result records its values
+      for (let i = 0; i < batchSize; i++) {
+        const { prompt: resolved, resolution } = resolveWildcards(expanded, wildcardLists, seed);
+        seed = (seed + 1) >>> 0;
+        const params = await buildGenerateParams(resolved);
+        if (!params) return;
+        onGenerate({ ...params, wildcards: resolution }, 1, group);
+      }
     }
-    onGenerate(params, batchSize);
-  }, [onGenerate, prompt, selectedAspectRatio, selectedQuality, selectedModel, referenceImagesBase64, referenceImages, batchSize, moodboardInUse]);
+  }, [onGenerate, isUploadingRefs, buildGenerateParams, prompt, batchSize, isMatrix, matrixTooLarge, promptMatrix, usedWildcards, missingWildcards.length, parsedWildcardSeed, wildcardLists]);
+
+  /** One batch per Kreate+ alternative, all through the same queue as a normal Kreate */
+  const handleQueueAllVariants = useCallback(async () => {
+    if (!onGenerate || isUploadingRefs || !enhanceVariants) return;
+    // Sequential: local refs are uploaded by the first call and reused (uploadedRefUrlsRef) by the rest
+    for (const variant of enhanceVariants) {
+      const params = await buildGenerateParams(variant);
+      if (!params) return;
+      onGenerate(params, batchSize);
+    }
+    setEnhanceVariants(null);
+  }, [onGenerate, isUploadingRefs, enhanceVariants, buildGenerateParams, batchSize]);
 
   return (
     <div className={`w-[96%] md:w-[50%] mb-8 px-1 md:px-4 ${className ?? ''}`}>
@@ -470,7 +625,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                             </svg>
                           </label>
                         ) : (
-                          <div className="relative flex-shrink-0">
+                          <div className="group relative flex-shrink-0">
                             <button
                               type="button"
                               onClick={() => setEnlargedRefUrl(referenceImages[0])}
@@ -490,6 +645,17 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                             >
                               ×
                             </button>
+                            <button
+                              type="button"
+                              onClick={(e) => { e.stopPropagation(); void handleDescribeReference(referenceImages[0]); }}
+                              disabled={describingRefUrl !== null}
+                              className={`absolute bottom-0.5 left-0.5 right-0.5 rounded bg-black/70 text-white/90 text-[10px] font-medium py-0.5 transition-opacity hover:bg-black/85 disabled:cursor-not-allowed ${
+                                describingRefUrl === referenceImages[0] ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+                              }`}
+                              title="Describe: write a prompt that recreates this image"
+                            >
+                              {describingRefUrl === referenceImages[0] ? 'Describing…' : 'Describe'}
+                            </button>
                           </div>
                         )}
                       </div>
@@ -508,7 +674,6 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                           type="button"
                           onClick={() => {
                             setReferenceImages([]);
-                            setReferenceImagesBase64([]);
                             setMoodboardInUse(false);
                             objectUrlsRef.current.forEach(url => {
                               if (url.startsWith('blob:')) URL.revokeObjectURL(url);
@@ -565,7 +730,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                         <div
                           key={isReserved ? `reserved-${index}` : `ref-${index}-${img.slice(0, 20)}`}
                           draggable={!isReserved}
-                          className={`relative flex-shrink-0 ${isReserved ? '' : 'cursor-grab active:cursor-grabbing'}`}
+                          className={`group relative flex-shrink-0 ${isReserved ? '' : 'cursor-grab active:cursor-grabbing'}`}
                           onDragStart={!isReserved ? (e) => {
                             e.dataTransfer.effectAllowed = 'move';
                             e.dataTransfer.setData('text/plain', String(index));
@@ -633,6 +798,17 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                               >
                                 ×
                               </button>
+                              <button
+                                type="button"
+                                onClick={(e) => { e.stopPropagation(); void handleDescribeReference(img); }}
+                                disabled={describingRefUrl !== null}
+                                className={`absolute bottom-0.5 left-0.5 right-0.5 rounded bg-black/70 text-white/90 text-[9px] font-medium py-0.5 transition-opacity hover:bg-black/85 disabled:cursor-not-allowed ${
+                                  describingRefUrl === img ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+                                }`}
+                                title="Describe: write a prompt that recreates this image"
+                              >
+                                {describingRefUrl === img ? 'Describing…' : 'Describe'}
+                              </button>
                             </>
                           )}
                         </div>
@@ -666,11 +842,15 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
               <div className="mt-1 flex flex-wrap items-center gap-x-3 gap-y-0.5 text-xs">
                 {!moodboardInUse && (
                   <>
-                    {isLoadingReferenceUrls ? (
+                    {isLoadingReferenceUrls || isUploadingRefs ? (
                       <span className="text-blue-400/90 flex items-center gap-1.5">
                         <span className="inline-block w-3.5 h-3.5 rounded-full border-2 border-blue-400/50 border-t-blue-300 animate-spin" />
-                        Loading references…
+                        {isUploadingRefs ? 'Uploading references…' : 'Loading references…'}
                       </span>
+                    ) : referenceUploadError ? (
+                      <span className="text-red-400/90">{referenceUploadError}</span>
+                    ) : describeError ? (
+                      <span className="text-red-400/90">{describeError}</span>
                     ) : referenceLoadResult ? (
                       referenceLoadResult.failed > 0 ? (
                         <span className="text-amber-400/90">
@@ -726,6 +906,51 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                     </div>
                   );
                 })()}
+                {templateForm && (
+                  <form
+                    className="absolute left-0 right-0 bottom-full z-50 mb-1 rounded-lg border border-white/10 bg-[#0d0e10]/95 shadow-lg p-3 space-y-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      submitTemplateForm();
+                    }}
+                  >
+                    <p className="text-xs font-mono text-blue-300">@{templateForm.handle}</p>
+                    {templateForm.variables.map((variable, index) => (
+                      <label key={variable.name} className="flex items-center gap-2 text-xs">
+                        <span className="w-24 flex-shrink-0 font-mono text-white/60 truncate" title={variable.name}>{variable.name}</span>
+                        <input
+                          type="text"
+                          autoFocus={index === 0}
+                          value={templateForm.values[variable.name] ?? ''}
+                          onChange={(e) =>
+                            setTemplateForm({ ...templateForm, values: { ...templateForm.values, [variable.name]: e.target.value } })
+                          }
+                          placeholder={variable.defaultValue ?? 'required'}
+                          className="flex-1 rounded-md bg-white/5 border border-white/10 px-2 py-1 text-white placeholder-white/40 focus:outline-none focus:border-blue-500/50"
+                        />
+                      </label>
+                    ))}
+                    <p className="text-[11px] text-white/50 line-clamp-2">
+                      {fillTemplateVariables(templateForm.text, templateForm.values)}
+                    </p>
+                    <div className="flex justify-end gap-2">
+                      <button
+                        type="button"
+                        onClick={() => setTemplateForm(null)}
+                        className="px-2.5 py-1 rounded-md text-xs text-white/70 hover:text-white bg-white/10"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={missingTemplateValues(templateForm.variables, templateForm.values).length > 0}
+                        className="px-2.5 py-1 rounded-md text-xs font-medium bg-blue-500 hover:bg-blue-600 text-white disabled:opacity-50"
+                      >
+                        Insert
+                      </button>
+                    </div>
+                  </form>
+                )}
                 {SHOW_KREATE_PLUS && (
                   <button
                     type="button"
@@ -745,9 +970,132 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                   </button>
                 )}
               </div>
+              {SHOW_KREATE_PLUS && (
+                <div className="mt-1.5 flex flex-wrap items-center gap-1.5 text-xs">
+                  {ENHANCE_MODE_IDS.map((modeId) => (
+                    <button
+                      key={modeId}
+                      type="button"
+                      onClick={() => setEnhanceMode(modeId)}
+                      className={`px-2.5 py-1 rounded-full font-medium transition-all ${
+                        enhanceMode === modeId
+                          ? 'bg-amber-500/25 text-amber-200 border border-amber-500/50'
+                          : 'bg-[#16181c]/80 text-white/70 hover:text-white border border-white/10'
+                      }`}
+                    >
+                      {ENHANCE_MODES[modeId]}
+                    </button>
+                  ))}
+                  <div className="ml-auto flex items-center gap-2 text-white/60" title="Number of Kreate+ alternatives">
+                    <button
+                      type="button"
+                      onClick={() => setEnhanceCount(Math.max(1, enhanceCount - 1))}
+                      className="text-white/80 hover:text-white transition-colors"
+                    >
+                      −
+                    </button>
+                    <span className="text-white/90 min-w-[6ch] text-center">{enhanceCount} {enhanceCount === 1 ? 'idea' : 'ideas'}</span>
+                    <button
+                      type="button"
+                      onClick={() => setEnhanceCount(Math.min(MAX_ENHANCE_VARIANTS, enhanceCount + 1))}
+                      className="text-white/80 hover:text-white transition-colors"
+                    >
+                      +
+                    </button>
+                  </div>
+                </div>
+              )}
               {SHOW_KREATE_PLUS && enhanceError && (
                 <p className="mt-1.5 text-red-400/90 text-xs">{enhanceError}</p>
               )}
+              {isMatrix && (
+                matrixTooLarge ? (
+                  <p className="mt-1.5 text-red-400/90 text-xs">
+                    Prompt matrix has {promptMatrix.total} combinations - at most {MAX_MATRIX_PROMPTS} per Kreate
+                  </p>
+                ) : (
+                  <p className="mt-1.5 text-white/60 text-xs" title={promptMatrix.prompts.join('\n')}>
+                    Prompt matrix: {promptMatrix.total} combinations
+                    {batchSize > 1 ? ` × ${batchSize}` : ''} = {totalImages} images · {totalCredits} cr
+                  </p>
+                )
+              )}
+              {usedWildcards.length > 0 && (
+                <div className="mt-1.5 flex items-center gap-2 flex-wrap text-xs">
+                  <span className="text-white/60">Wildcards:</span>
+                  {usedWildcards.map((name) => {
+                    const count = wildcardLists.get(name)?.length ?? 0;
+                    return (
+                      <span
+                        key={name}
+                        className={`font-mono ${count > 0 ? 'text-blue-300/90' : 'text-red-400/90'}`}
+                        title={count > 0 ? `${count} option${count === 1 ? '' : 's'}` : 'No list with this name - add it in My Prompts'}
+                      >
+                        __{name}__{count > 0 ? ` (${count})` : ''}
+                      </span>
+                    );
+                  })}
+                  <label className="ml-auto flex items-center gap-1.5 text-white/60">
+                    Seed
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      value={wildcardSeed}
+                      onChange={(e) => setWildcardSeed(e.target.value.replace(/\D/g, ''))}
+                      placeholder="random"
+                      className="w-24 rounded-md bg-white/5 border border-white/10 px-2 py-0.5 text-white placeholder-white/40 focus:outline-none focus:border-blue-500/50"
+                    />
+                  </label>
+                  {missingWildcards.length > 0 && (
+                    <p className="w-full text-red-400/90">
+                      No wildcard list for {missingWildcards.map((n) => `__${n}__`).join(', ')}
+                    </p>
+                  )}
+                </div>
+              )}
+              {SHOW_KREATE_PLUS && enhanceVariants && (
+                <div className="mt-3 rounded-xl border border-amber-500/25 bg-amber-500/[0.04] p-3">
+                  <div className="flex items-center justify-between gap-3 mb-2">
+                    <span className="text-amber-200/90 text-xs font-medium">
+                      {enhanceVariants.length} alternatives · {ENHANCE_MODES[enhanceMode]}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => setEnhanceVariants(null)}
+                      className="text-white/50 hover:text-white text-xs transition-colors"
+                    >
+                      Dismiss
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                    {enhanceVariants.map((variant, i) => (
+                      <button
+                        key={i}
+                        type="button"
+                        onClick={() => pickEnhanceVariant(variant)}
+                        className="text-left rounded-lg border border-white/10 bg-[#16181c]/80 p-3 text-white/85 text-xs leading-relaxed hover:border-amber-500/50 hover:bg-[#1a1d22]/95 transition-all"
+                        title="Use this prompt"
+                      >
+                        <span className="block text-amber-300/80 font-medium mb-1">Option {i + 1}</span>
+                        <span className="line-clamp-6">{variant}</span>
+                      </button>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => void handleQueueAllVariants()}
+                    disabled={
+                      !onGenerate ||
+                      isUploadingRefs ||
+                      (typeof credits === 'number' && credits < batchCredits * enhanceVariants.length)
+                    }
+                    className="mt-2 w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-amber-500/20 hover:bg-amber-500/30 border border-amber-500/40 text-amber-200 text-xs font-medium transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Kreate all {enhanceVariants.length}{batchSize > 1 ? ` × ${batchSize}` : ''}
+                    <span className="text-amber-200/60">{batchCredits * enhanceVariants.length} cr</span>
+                  </button>
+                </div>
+              )}
             </div>
 
             {/* Settings Row */}
@@ -762,7 +1110,6 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                   onClick={() => {
                     if (moodboardInUse) {
                       setReferenceImages([]);
-                      setReferenceImagesBase64([]);
                       setMoodboardInUse(false);
                       objectUrlsRef.current.forEach(url => {
                         if (url.startsWith('blob:')) URL.revokeObjectURL(url);
@@ -859,13 +1206,20 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                 onClick={() => void handleGenerateClick()}
                 disabled={
                   !prompt.trim() ||
-                  (typeof credits === 'number' && credits < batchSize) ||
+                  notEnoughCredits ||
+                  matrixTooLarge ||
+                  missingWildcards.length > 0 ||
+                  isUploadingRefs ||
                   !onGenerate
                 }
-                title={typeof credits === 'number' && credits < batchSize ? 'Not enough credits' : undefined}
+                title={
+                  generateDisabledReason ??
+                  (notEnoughCredits ? `Not enough credits (${totalCredits} needed)` : `${creditsPerImage} credit${creditsPerImage === 1 ? '' : 's'} per image`)
+                }
                 className="ml-auto bg-blue-500 hover:bg-blue-600 text-white font-semibold px-6 py-2 rounded-xl transition-all flex items-center gap-2 shadow-lg shadow-blue-500/30 hover:shadow-blue-500/50 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-blue-500"
               >
-                <span>{`Kreate${batchSize > 1 ? ` +${batchSize}` : ''}`}</span>
+                <span>{`Kreate${totalImages > 1 ? ` +${totalImages}` : ''}`}</span>
+                <span className="text-white/70 text-xs font-medium">{totalCredits} cr</span>
               </button>
             </div>
 
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { PLANS, getCheckoutUrl } from '../config/pricing';
 import { createPortalSession } from '../services/profileService';
+import type { Workspace } from '../services/workspaceService';
 
 interface HeaderProps {
   onSignOut: () => void;
@@ -9,9 +10,27 @@ interface HeaderProps {
   userId?: string;
   subscriptionPlan?: string | null;
   subscriptionStatus?: string | null;
+  workspaces?: Workspace[];
+  /** null = personal */
+  activeWorkspaceId?: string | null;
+  onSwitchWorkspace?: (workspaceId: string | null) => void;
+  /** Open workspace settings: the active workspace, or the create form when `create` */
+  onManageWorkspace?: (create: boolean) => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ onSignOut, credits, userId, subscriptionPlan, subscriptionStatus }) => {
+const NEW_WORKSPACE_OPTION = '__new';
+
+const Header: React.FC<HeaderProps> = ({
+  onSignOut,
+  credits,
+  userId,
+  subscriptionPlan,
+  subscriptionStatus,
+  workspaces = [],
+  activeWorkspaceId = null,
+  onSwitchWorkspace,
+  onManageWorkspace,
+}) => {
   const location = useLocation();
   const isProfile = location.pathname === '/app/profile';
   const [showModal, setShowModal] = useState(false);
@@ -19,6 +38,7 @@ const Header: React.FC<HeaderProps> = ({ onSignOut, credits, userId, subscriptio
 
   const isSubscribed = subscriptionStatus === 'active' || subscriptionStatus === 'trialing';
   const currentPlanLabel = PLANS.find((p) => p.id === subscriptionPlan)?.name ?? subscriptionPlan;
+  const activeWorkspace = workspaces.find((w) => w.id === activeWorkspaceId) ?? null;
 
   useEffect(() => {
     if (showModal) {
@@ -63,6 +83,44 @@ const Header: React.FC<HeaderProps> = ({ onSignOut, credits, userId, subscriptio
         </div>
 
         <div className="flex items-center gap-2">
+          {onSwitchWorkspace && (
+            <div className="flex items-center gap-1">
+              <select
+                value={activeWorkspaceId ?? ''}
+                onChange={(e) => {
+                  if (e.target.value === NEW_WORKSPACE_OPTION) onManageWorkspace?.(true);
+                  else onSwitchWorkspace(e.target.value || null);
+                }}
+                className="px-2 py-1.5 rounded-lg bg-white/5 text-white/90 text-xs font-medium border border-white/10 hover:bg-white/10 focus:outline-none max-w-[10rem]"
+                aria-label="Workspace"
+              >
+                <option value="">Personal</option>
+                {workspaces.map((w) => (
+                  <option key={w.id} value={w.id}>{w.name}</option>
+                ))}
+                <option value={NEW_WORKSPACE_OPTION}>+ New workspace…</option>
+              </select>
+              {activeWorkspaceId && (
+                <button
+                  type="button"
+                  onClick={() => onManageWorkspace?.(false)}
+                  className="px-2 py-1.5 rounded-lg bg-white/5 text-white/70 text-xs border border-white/10 hover:bg-white/10 hover:text-white transition-all"
+                  title="Workspace members"
+                >
+                  Members
+                </button>
+              )}
+              {activeWorkspace && (
+                <Link
+                  to="/app/profile"
+                  className="px-2 py-1.5 rounded-lg bg-emerald-500/10 text-emerald-200 text-xs font-semibold border border-emerald-500/20 hover:bg-emerald-500/20 transition-all"
+                  title="Jobs in this workspace draw from its shared credits - usage by member is on your profile"
+                >
+                  {activeWorkspace.credits} team credits
+                </Link>
+              )}
+            </div>
+          )}
           <button
             onClick={onSignOut}
             type="button"
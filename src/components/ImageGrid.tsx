@@ -4,16 +4,22 @@ import Masonry from '@mui/lab/Masonry';
 export type CreatorInfo = { username: string; avatar_url: string | null };
 
 export type ImageGridItem =
-  | { type: 'image'; id: string; url: string; thumbUrl?: string; aspectRatio: string; prompt: string; imageSize: string; model?: string; referenceImageUrls?: string[]; creator?: CreatorInfo }
+  | { type: 'image'; id: string; url: string; thumbUrl?: string; thumbSrcSet?: string; aspectRatio: string; prompt: string; imageSize: string; model?: string; referenceImageUrls?: string[]; creator?: CreatorInfo }
   | { type: 'placeholder'; id: string; status: 'generating' | 'queued'; aspectRatio: string; imageSize: string };
 
 interface ImageGridProps {
   items: ImageGridItem[];
   onImageClick?: (index: number) => void;
-  onReRun?: (prompt: string, referenceImageUrls?: string[]) => void;
+  onReRun?: (prompt: string, referenceImageUrls?: string[], sourceImageId?: string) => void;
   onAddToReference?: (imageUrl: string) => void;
+  onVariations?: (imageId: string) => void;
+  /** Cancel a queued or generating job (placeholder id) */
+  onCancelPlaceholder?: (id: string) => void;
 }
 
+/** Tile width per Masonry breakpoint (MUI: sm 600, md 900, lg 1200, xl 1536) so the browser picks the right thumb variant */
+const GRID_IMAGE_SIZES = '(min-width: 1536px) 17vw, (min-width: 1200px) 20vw, (min-width: 900px) 25vw, (min-width: 600px) 34vw, 50vw';
+
 function parseAspectRatio(ratio: string): string {
   if (!ratio) return '1';
   return ratio.replace(':', '/');
@@ -25,7 +31,12 @@ function hashToDelay(id: string, maxMs: number): number {
   return Math.abs(h % 1000) / 1000 * maxMs;
 }
 
-const PlaceholderCard = memo(function PlaceholderCard({ item }: { item: Extract<ImageGridItem, { type: 'placeholder' }> }) {
+interface PlaceholderCardProps {
+  item: Extract<ImageGridItem, { type: 'placeholder' }>;
+  onCancel?: (id: string) => void;
+}
+
+const PlaceholderCard = memo(function PlaceholderCard({ item, onCancel }: PlaceholderCardProps) {
   const isGenerating = item.status === 'generating';
   return (
     <div
@@ -34,6 +45,19 @@ const PlaceholderCard = memo(function PlaceholderCard({ item }: { item: Extract<
     >
       <div className="absolute inset-0 bg-gradient-to-br from-white/5 via-transparent to-white/5 opacity-50" />
       <div className="absolute top-0 left-0 right-0 h-px bg-gradient-to-r from-transparent via-white/30 to-transparent" />
+      {onCancel && (
+        <button
+          type="button"
+          onClick={() => onCancel(item.id)}
+          className="absolute top-2 right-2 z-20 p-1.5 rounded-lg bg-black/30 hover:bg-red-500/60 text-white/70 hover:text-white transition-colors"
+          title={isGenerating ? 'Cancel generation' : 'Remove from queue'}
+          aria-label="Cancel"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      )}
       <div className="relative z-10 flex flex-col items-center gap-3">
         {isGenerating ? (
           <>
@@ -57,11 +81,12 @@ interface ImageCardProps {
   item: Extract<ImageGridItem, { type: 'image' }>;
   index: number;
   onImageClick?: (index: number) => void;
-  onReRun?: (prompt: string, referenceImageUrls?: string[]) => void;
+  onReRun?: (prompt: string, referenceImageUrls?: string[], sourceImageId?: string) => void;
   onAddToReference?: (imageUrl: string) => void;
+  onVariations?: (imageId: string) => void;
 }
 
-const ImageCard = memo(function ImageCard({ item, index, onImageClick, onReRun, onAddToReference }: ImageCardProps) {
+const ImageCard = memo(function ImageCard({ item, index, onImageClick, onReRun, onAddToReference, onVariations }: ImageCardProps) {
   const [inView, setInView] = useState(false);
   const cardRef = useRef<HTMLDivElement>(null);
 
@@ -81,12 +106,16 @@ const ImageCard = memo(function ImageCard({ item, index, onImageClick, onReRun,
   const handleClick = useCallback(() => onImageClick?.(index), [index, onImageClick]);
   const handleReRun = useCallback((e: React.MouseEvent) => {
     e.stopPropagation();
-    if (item.prompt) onReRun?.(item.prompt, item.referenceImageUrls);
-  }, [item.prompt, item.referenceImageUrls, onReRun]);
+    if (item.prompt) onReRun?.(item.prompt, item.referenceImageUrls, item.id);
+  }, [item.prompt, item.referenceImageUrls, item.id, onReRun]);
   const handleAddRef = useCallback((e: React.MouseEvent) => {
     e.stopPropagation();
     onAddToReference?.(item.url);
   }, [item.url, onAddToReference]);
+  const handleVariations = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation();
+    onVariations?.(item.id);
+  }, [item.id, onVariations]);
 
   return (
     <div
@@ -98,6 +127,8 @@ const ImageCard = memo(function ImageCard({ item, index, onImageClick, onReRun,
       {inView ? (
         <img
           src={item.thumbUrl || item.url}
+          srcSet={item.thumbSrcSet}
+          sizes={GRID_IMAGE_SIZES}
           alt=""
           loading="lazy"
           decoding="async"
@@ -105,6 +136,7 @@ const ImageCard = memo(function ImageCard({ item, index, onImageClick, onReRun,
           className="absolute inset-0 w-full h-full object-cover"
           onError={(e) => {
             const target = e.target as HTMLImageElement;
+            target.removeAttribute('srcset');
             if (item.thumbUrl && target.src !== item.url) {
               target.src = item.url;
             } else {
@@ -135,6 +167,13 @@ const ImageCard = memo(function ImageCard({ item, index, onImageClick, onReRun,
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
           </svg>
         </button>
+        {onVariations && (
+          <button onClick={handleVariations} className="p-2 rounded-lg bg-white/20 hover:bg-white/30 text-white transition-colors" title="Variations of this image" aria-label="Variations">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 5a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1V5zm10 0a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1V5zM4 15a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1v-4zm10 0a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1v-4z" />
+            </svg>
+          </button>
+        )}
         <button onClick={handleAddRef} className="p-2 rounded-lg bg-white/20 hover:bg-white/30 text-white transition-colors" title="Add to reference" aria-label="Add to reference">
           <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
@@ -145,13 +184,13 @@ const ImageCard = memo(function ImageCard({ item, index, onImageClick, onReRun,
   );
 });
 
-const ImageGrid: React.FC<ImageGridProps> = memo(({ items, onImageClick, onReRun, onAddToReference }) => {
+const ImageGrid: React.FC<ImageGridProps> = memo(({ items, onImageClick, onReRun, onAddToReference, onVariations, onCancelPlaceholder }) => {
   return (
     <div className="w-full">
       <Masonry columns={{ xs: 2, sm: 3, md: 4, lg: 5, xl: 6 }} spacing={1} sx={{ width: '100%' }}>
         {items.map((item, index) =>
           item.type === 'placeholder' ? (
-            <PlaceholderCard key={item.id} item={item} />
+            <PlaceholderCard key={item.id} item={item} onCancel={onCancelPlaceholder} />
           ) : (
             <ImageCard
               key={item.id}
@@ -160,6 +199,7 @@ const ImageGrid: React.FC<ImageGridProps> = memo(({ items, onImageClick, onReRun
               onImageClick={onImageClick}
               onReRun={onReRun}
               onAddToReference={onAddToReference}
+              onVariations={onVariations}
             />
           )
         )}
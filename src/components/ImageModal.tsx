@@ -1,4 +1,10 @@
 import React, { useEffect, useCallback, useState, useRef } from 'react';
+import type { EditRegion } from '../config/edits';
+import { IMAGE_SIZES, type AspectRatio, type ImageSize } from '../config/models';
+import { DERIVATION_TYPES } from '../config/lineage';
+import type { WildcardResolution } from '../config/wildcards';
+import { fetchImageLineage, type ImageLineage, type StoredImage } from '../services/imageStorage';
+import { describeImage } from '../services/promptEnhancer';
 // import { useNavigate } from 'react-router-dom'; // hidden — video is internal beta
 
 interface ImageModalProps {
@@ -11,7 +17,27 @@ interface ImageModalProps {
   referenceImageUrls?: string[];
   onClose: () => void;
   onReusePrompt?: (prompt: string, referenceImageUrls?: string[]) => void;
-  onWrapGenerate?: (wrappedUrl: string, referenceImageUrls?: string[]) => void;
+  /** Region edits: boxes with one instruction each (normalized coords), applied to `sourceUrl` */
+  onWrapGenerate?: (sourceUrl: string, regions: EditRegion[]) => void;
+  /** Regions this image was edited with (re-run / tweak from the sidebar) */
+  editRegions?: EditRegion[];
+  /** Wildcard values the prompt was resolved with */
+  wildcards?: WildcardResolution;
+  /** Lineage strip: open an ancestor/descendant (it may not be in the current grid page) */
+  onOpenLineageImage?: (image: StoredImage) => void;
+  /** Mask inpainting: mask is a PNG at the image's natural size, white = repaint */
+  onInpaint?: (maskBlob: Blob, instruction: string) => Promise<void>;
+  inpaintCredits?: number;
+  /** Outpainting: ratios offered, and a callback queueing one extended copy per selected ratio */
+  extendAspects?: readonly AspectRatio[];
+  onExtend?: (aspectRatios: AspectRatio[]) => void;
+  /** Credits per extended copy */
+  extendCredits?: number;
+  /** Open the Variations dialog for this image */
+  onVariations?: () => void;
+  /** Save a larger copy as a child of this image */
+  onUpscale?: (targetSize: ImageSize) => void;
+  upscaleCredits?: Partial<Record<ImageSize, number>>;
   onDelete?: (imageId: string) => void | Promise<void>;
   imageId?: string;
   onPrev?: () => void;
@@ -58,6 +84,47 @@ function getTextPositionInsideBounds(
   return { x: textX, y: textY, maxWidth };
 }
 
+/** Inpaint mask, in natural image pixels */
+type MaskShape =
+  | { kind: 'stroke'; points: { x: number; y: number }[]; size: number }
+  | { kind: 'rect'; x: number; y: number; width: number; height: number };
+
+const DEFAULT_BRUSH_SIZE = 40; // screen px
+const MASK_OVERLAY_COLOR = '#ff4d4f';
+
+/** Paint mask shapes in `color`, mapping natural image coords to the canvas with offset/scale */
+function paintMaskShapes(
+  ctx: CanvasRenderingContext2D,
+  shapes: MaskShape[],
+  color: string,
+  transform: { offsetX: number; offsetY: number; scale: number }
+) {
+  const { offsetX, offsetY, scale } = transform;
+  ctx.fillStyle = color;
+  ctx.strokeStyle = color;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  for (const shape of shapes) {
+    if (shape.kind === 'rect') {
+      ctx.fillRect(offsetX + shape.x * scale, offsetY + shape.y * scale, shape.width * scale, shape.height * scale);
+      continue;
+    }
+    const [first, ...rest] = shape.points;
+    if (!first) continue;
+    ctx.lineWidth = shape.size * scale;
+    ctx.beginPath();
+    ctx.moveTo(offsetX + first.x * scale, offsetY + first.y * scale);
+    if (rest.length === 0) {
+      // Single click: a dot
+      ctx.arc(offsetX + first.x * scale, offsetY + first.y * scale, (shape.size * scale) / 2, 0, Math.PI * 2);
+      ctx.fill();
+      continue;
+    }
+    for (const point of rest) ctx.lineTo(offsetX + point.x * scale, offsetY + point.y * scale);
+    ctx.stroke();
+  }
+}
+
 /** Must match ControlPanel MOODBOARD_PROMPT_PREFIX - used to detect moodboard-generated images */
 const MOODBOARD_PROMPT_PREFIX = 'First reference photo is the main reference. All other reference images are moodboard, to help you reach the final output for the prompt. ';
 
@@ -69,9 +136,20 @@ const ImageModal: React.FC<ImageModalProps> = ({
   imageSize,
   model,
   referenceImageUrls,
+  editRegions,
+  wildcards,
+  onOpenLineageImage,
   onClose,
   onReusePrompt,
   onWrapGenerate,
+  onInpaint,
+  inpaintCredits,
+  onUpscale,
+  upscaleCredits,
+  onVariations,
+  extendAspects,
+  onExtend,
+  extendCredits,
   onDelete,
   imageId,
   onPrev,
@@ -89,6 +167,12 @@ const ImageModal: React.FC<ImageModalProps> = ({
   const annotationCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const imageElementRef = useRef<HTMLImageElement | null>(null);
 
+  const [describedPrompt, setDescribedPrompt] = useState<string | null>(null);
+  const [isDescribing, setIsDescribing] = useState(false);
+  const [describeError, setDescribeError] = useState<string | null>(null);
+
+  const [lineage, setLineage] = useState<ImageLineage | null>(null);
+
   const [displaySrc, setDisplaySrc] = useState<string>(thumbUrl || imageUrl);
   const [fullImageLoaded, setFullImageLoaded] = useState(false);
 
@@ -101,7 +185,6 @@ const ImageModal: React.FC<ImageModalProps> = ({
   };
 
   const [isAnnotating, setIsAnnotating] = useState(false);
-  const [hasAnnotations, setHasAnnotations] = useState(false);
   const [annotationsState, setAnnotationsState] = useState<Annotation[]>([]);
   const annotationsRef = useRef<Annotation[]>([]);
   const drawingRef = useRef<{
@@ -126,6 +209,18 @@ const ImageModal: React.FC<ImageModalProps> = ({
   } | null>(null);
   const fetchedImageRef = useRef<HTMLImageElement | null>(null);
 
+  /** Canvas mode while isAnnotating: red boxes + notes (Wrap) or an inpaint mask */
+  const [canvasMode, setCanvasMode] = useState<'annotate' | 'inpaint'>('annotate');
+  const canvasModeRef = useRef<'annotate' | 'inpaint'>('annotate');
+  const [maskTool, setMaskTool] = useState<'brush' | 'rect'>('brush');
+  const [brushSize, setBrushSize] = useState(DEFAULT_BRUSH_SIZE);
+  const maskShapesRef = useRef<MaskShape[]>([]);
+  const maskDrawingRef = useRef<MaskShape | null>(null);
+  const [maskShapeCount, setMaskShapeCount] = useState(0);
+  const [inpaintInstruction, setInpaintInstruction] = useState('');
+  const [isSubmittingInpaint, setIsSubmittingInpaint] = useState(false);
+  const [inpaintError, setInpaintError] = useState<string | null>(null);
+
   useEffect(() => {
     setDisplaySrc(thumbUrl || imageUrl);
     setFullImageLoaded(false);
@@ -213,6 +308,25 @@ const ImageModal: React.FC<ImageModalProps> = ({
     const { offsetX, offsetY, drawWidth, drawHeight, scale } = info;
     ctx.drawImage(img, offsetX, offsetY, drawWidth, drawHeight);
 
+    if (canvasModeRef.current === 'inpaint') {
+      // Opaque shapes on a scratch canvas, then one translucent blit - overlapping strokes don't stack
+      const overlay = document.createElement('canvas');
+      overlay.width = canvas.width;
+      overlay.height = canvas.height;
+      const octx = overlay.getContext('2d');
+      if (octx) {
+        octx.setTransform(dpr, 0, 0, dpr, 0, 0);
+        const shapes = maskDrawingRef.current ? [...maskShapesRef.current, maskDrawingRef.current] : maskShapesRef.current;
+        paintMaskShapes(octx, shapes, MASK_OVERLAY_COLOR, { offsetX, offsetY, scale });
+        ctx.save();
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.globalAlpha = 0.45;
+        ctx.drawImage(overlay, 0, 0);
+        ctx.restore();
+      }
+      return;
+    }
+
     const annotations = annotationsRef.current;
     const current = drawingRef.current.current;
 
@@ -308,6 +422,14 @@ const ImageModal: React.FC<ImageModalProps> = ({
 
       const xInImage = (px - info.offsetX) / info.scale;
       const yInImage = (py - info.offsetY) / info.scale;
+      if (canvasModeRef.current === 'inpaint') {
+        maskDrawingRef.current = maskTool === 'brush'
+          ? { kind: 'stroke', points: [{ x: xInImage, y: yInImage }], size: brushSize / info.scale }
+          : { kind: 'rect', x: xInImage, y: yInImage, width: 0, height: 0 };
+        drawingRef.current = { isDrawing: true, startX: xInImage, startY: yInImage, current: undefined };
+        drawAnnotations();
+        return;
+      }
       drawingRef.current = {
         isDrawing: true,
         startX: xInImage,
@@ -321,13 +443,14 @@ const ImageModal: React.FC<ImageModalProps> = ({
       };
       drawAnnotations();
     },
-    [isAnnotating, drawAnnotations]
+    [isAnnotating, drawAnnotations, maskTool, brushSize]
   );
 
   const handleCanvasMouseMove = useCallback(
     (e: React.MouseEvent<HTMLCanvasElement>) => {
       if (!isAnnotating || !annotationCanvasRef.current || !imageInfoRef.current) return;
-      if (!drawingRef.current.isDrawing || !drawingRef.current.current) return;
+      const mask = maskDrawingRef.current;
+      if (!drawingRef.current.isDrawing || (!drawingRef.current.current && !mask)) return;
 
       const canvas = annotationCanvasRef.current;
       const info = imageInfoRef.current;
@@ -338,6 +461,23 @@ const ImageModal: React.FC<ImageModalProps> = ({
       const xInImage = (px - info.offsetX) / info.scale;
       const yInImage = (py - info.offsetY) / info.scale;
 
+      if (mask) {
+        if (mask.kind === 'stroke') {
+          mask.points.push({ x: xInImage, y: yInImage });
+        } else {
+          const { startX, startY } = drawingRef.current;
+          maskDrawingRef.current = {
+            kind: 'rect',
+            x: Math.max(0, Math.min(startX, xInImage)),
+            y: Math.max(0, Math.min(startY, yInImage)),
+            width: Math.min(info.naturalWidth, Math.max(startX, xInImage)) - Math.max(0, Math.min(startX, xInImage)),
+            height: Math.min(info.naturalHeight, Math.max(startY, yInImage)) - Math.max(0, Math.min(startY, yInImage)),
+          };
+        }
+        drawAnnotations();
+        return;
+      }
+
       const startX = drawingRef.current.startX;
       const startY = drawingRef.current.startY;
       const x = Math.min(startX, xInImage);
@@ -357,6 +497,18 @@ const ImageModal: React.FC<ImageModalProps> = ({
   );
 
   const handleCanvasMouseUp = useCallback(() => {
+    const mask = maskDrawingRef.current;
+    if (mask) {
+      maskDrawingRef.current = null;
+      drawingRef.current.isDrawing = false;
+      const tooSmall = mask.kind === 'rect' && (mask.width <= 4 || mask.height <= 4);
+      if (!tooSmall) {
+        maskShapesRef.current = [...maskShapesRef.current, mask];
+        setMaskShapeCount(maskShapesRef.current.length);
+      }
+      drawAnnotations();
+      return;
+    }
     if (!isAnnotating || !drawingRef.current.isDrawing || !drawingRef.current.current) {
       drawingRef.current.isDrawing = false;
       drawingRef.current.current = undefined;
@@ -377,19 +529,73 @@ const ImageModal: React.FC<ImageModalProps> = ({
     };
     annotationsRef.current = [...annotationsRef.current, ann];
     setAnnotationsState(annotationsRef.current);
-    setHasAnnotations(annotationsRef.current.length > 0);
     drawAnnotations();
   }, [isAnnotating, drawAnnotations]);
 
-  const handleToggleAnnotate = useCallback(() => {
-    setIsAnnotating((prev) => !prev);
+  /** Open the canvas in `mode`, switch modes, or close it when `mode` is already active */
+  const handleToggleCanvasMode = useCallback((mode: 'annotate' | 'inpaint') => {
+    if (isAnnotating && canvasModeRef.current === mode) {
+      setIsAnnotating(false);
+      return;
+    }
+    canvasModeRef.current = mode;
+    setCanvasMode(mode);
+    setIsAnnotating(true);
+    drawAnnotations();
+  }, [isAnnotating, drawAnnotations]);
+
+  const handleUndoMask = useCallback(() => {
+    maskShapesRef.current = maskShapesRef.current.slice(0, -1);
+    setMaskShapeCount(maskShapesRef.current.length);
+    drawAnnotations();
+  }, [drawAnnotations]);
+
+  const handleClearMask = useCallback(() => {
+    maskShapesRef.current = [];
+    setMaskShapeCount(0);
+    drawAnnotations();
+  }, [drawAnnotations]);
+
+  /** Black/white PNG at the image's natural size (white = repaint) */
+  const buildMaskBlob = useCallback(async (): Promise<Blob | null> => {
+    const info = imageInfoRef.current;
+    if (!info || maskShapesRef.current.length === 0) return null;
+    const canvas = document.createElement('canvas');
+    canvas.width = info.naturalWidth;
+    canvas.height = info.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    paintMaskShapes(ctx, maskShapesRef.current, '#ffffff', { offsetX: 0, offsetY: 0, scale: 1 });
+    return new Promise((resolve) => canvas.toBlob((b) => resolve(b), 'image/png'));
   }, []);
 
+  const handleSubmitInpaint = useCallback(async () => {
+    const instruction = inpaintInstruction.trim();
+    if (!onInpaint || !instruction || isSubmittingInpaint) return;
+    setIsSubmittingInpaint(true);
+    setInpaintError(null);
+    try {
+      const maskBlob = await buildMaskBlob();
+      if (!maskBlob) {
+        setInpaintError('Paint the area you want to change first.');
+        return;
+      }
+      await onInpaint(maskBlob, instruction);
+      onClose();
+    } catch (err) {
+      console.error('Failed to start inpaint:', err);
+      setInpaintError(err instanceof Error ? err.message : 'Failed to start edit');
+    } finally {
+      setIsSubmittingInpaint(false);
+    }
+  }, [onInpaint, inpaintInstruction, isSubmittingInpaint, buildMaskBlob, onClose]);
+
   const handleClearAnnotations = useCallback(() => {
     annotationsRef.current = [];
     drawingRef.current = { isDrawing: false, startX: 0, startY: 0, current: undefined };
     setAnnotationsState([]);
-    setHasAnnotations(false);
     if (isAnnotating) {
       drawAnnotations();
     }
@@ -423,9 +629,31 @@ const ImageModal: React.FC<ImageModalProps> = ({
     };
   }, [isDragging, handleMouseMove, handleMouseUp]);
 
+  useEffect(() => {
+    setLineage(null);
+    if (!imageId) return;
+    let cancelled = false;
+    fetchImageLineage(imageId)
+      .then((result) => {
+        if (!cancelled) setLineage(result);
+      })
+      .catch((err) => console.error('Failed to load lineage:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [imageId]);
+
   useEffect(() => {
     setZoom(1);
     setPan({ x: 0, y: 0 });
+    setDescribedPrompt(null);
+    setDescribeError(null);
+    setExtendSelection([]);
+    // A mask only makes sense for the image it was painted on
+    maskShapesRef.current = [];
+    maskDrawingRef.current = null;
+    setMaskShapeCount(0);
+    setInpaintError(null);
   }, [imageUrl]);
 
   useEffect(() => {
@@ -508,62 +736,78 @@ const ImageModal: React.FC<ImageModalProps> = ({
     }
   }, [imageUrl, prompt]);
 
-  const handleWrapAndReuse = useCallback(async () => {
-    if (!onWrapGenerate) return;
-    if (!imageInfoRef.current || !fetchedImageRef.current || annotationsRef.current.length === 0) {
-      onWrapGenerate(imageUrl, referenceImageUrls);
-      onClose();
-      return;
-    }
-
-    try {
-      const info = imageInfoRef.current;
-      const img = fetchedImageRef.current;
-      const canvas = document.createElement('canvas');
-      canvas.width = info.naturalWidth;
-      canvas.height = info.naturalHeight;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        onWrapGenerate(imageUrl, referenceImageUrls);
-        onClose();
-        return;
-      }
-
-      ctx.drawImage(img, 0, 0, info.naturalWidth, info.naturalHeight);
+  /** Boxes with an instruction, normalized to the natural image size (boxes without text are skipped) */
+  const annotationRegions = useCallback((): EditRegion[] => {
+    const info = imageInfoRef.current;
+    if (!info) return [];
+    return annotationsRef.current
+      .filter((ann) => ann.text?.trim())
+      .map((ann) => ({
+        x: ann.x / info.naturalWidth,
+        y: ann.y / info.naturalHeight,
+        width: ann.width / info.naturalWidth,
+        height: ann.height / info.naturalHeight,
+        instruction: (ann.text ?? '').trim(),
+      }));
+  }, []);
 
-      ctx.strokeStyle = '#ff4d4f';
-      ctx.lineWidth = Math.max(2, Math.round(info.naturalWidth / 400));
-      const exportFontSize = Math.max(16, Math.round(info.naturalWidth / 40));
-      ctx.font = `${exportFontSize}px ${FONT_FAMILY}`;
-      ctx.fillStyle = '#ff4d4f';
+  const handleWrapAndReuse = useCallback(() => {
+    if (!onWrapGenerate) return;
+    const regions = annotationRegions();
+    if (regions.length === 0) return;
+    // The clean original goes to /api/edit with the boxes as data - nothing is drawn onto the image
+    onWrapGenerate(imageUrl, regions);
+    onClose();
+  }, [onWrapGenerate, annotationRegions, imageUrl, onClose]);
+
+  const handleRerunRegionEdits = useCallback(() => {
+    if (!onWrapGenerate || !editRegions?.length) return;
+    // Region edits keep their source as the only reference
+    onWrapGenerate(referenceImageUrls?.[0] ?? imageUrl, editRegions);
+    onClose();
+  }, [onWrapGenerate, editRegions, referenceImageUrls, imageUrl, onClose]);
+
+  /** Sizes above the current one (unknown sizes count as 1K) */
+  const upscaleTargets = IMAGE_SIZES.slice(
+    Math.max(0, (IMAGE_SIZES as readonly string[]).indexOf(imageSize ?? '1K')) + 1
+  );
 
-      const imageBounds = { left: 0, top: 0, width: info.naturalWidth, height: info.naturalHeight };
-      for (const ann of annotationsRef.current) {
-        ctx.strokeRect(ann.x, ann.y, ann.width, ann.height);
-        if (ann.text) {
-          const pos = getTextPositionInsideBounds(ctx, ann.text, exportFontSize, imageBounds, ann);
-          ctx.fillText(ann.text, pos.x, pos.y, pos.maxWidth);
-        }
-      }
+  const [extendSelection, setExtendSelection] = useState<AspectRatio[]>([]);
 
-      const blob: Blob | null = await new Promise((resolve) =>
-        canvas.toBlob((b) => resolve(b), 'image/png')
-      );
-      if (!blob) {
-        onWrapGenerate(imageUrl, referenceImageUrls);
-        onClose();
-        return;
-      }
+  const toggleExtendAspect = useCallback((ratio: AspectRatio) => {
+    setExtendSelection((prev) => (prev.includes(ratio) ? prev.filter((r) => r !== ratio) : [...prev, ratio]));
+  }, []);
 
-      const wrappedUrl = URL.createObjectURL(blob);
-      onWrapGenerate(wrappedUrl, referenceImageUrls);
-      onClose();
+  const handleExtend = useCallback(() => {
+    if (!onExtend || extendSelection.length === 0) return;
+    onExtend(extendSelection);
+    onClose();
+  }, [onExtend, extendSelection, onClose]);
+
+  const handleUpscale = useCallback((targetSize: ImageSize) => {
+    if (!onUpscale) return;
+    onUpscale(targetSize);
+    onClose();
+  }, [onUpscale, onClose]);
+
+  const handleDescribe = useCallback(async () => {
+    setIsDescribing(true);
+    setDescribeError(null);
+    try {
+      setDescribedPrompt(await describeImage(imageUrl));
     } catch (err) {
-      console.error('Failed to create wrapped image:', err);
-      onWrapGenerate(imageUrl, referenceImageUrls);
+      setDescribeError(err instanceof Error ? err.message : 'Failed to describe image');
+    } finally {
+      setIsDescribing(false);
+    }
+  }, [imageUrl]);
+
+  const handleUseDescribedPrompt = useCallback(() => {
+    if (describedPrompt && onReusePrompt) {
+      onReusePrompt(describedPrompt);
       onClose();
     }
-  }, [onWrapGenerate, imageUrl, referenceImageUrls, onClose]);
+  }, [describedPrompt, onReusePrompt, onClose]);
 
   const handleReusePrompt = useCallback(() => {
     const textToReuse = (displayPrompt ?? prompt)?.trim();
@@ -719,15 +963,28 @@ const ImageModal: React.FC<ImageModalProps> = ({
               </svg>
             </button>
             <button
-              onClick={handleToggleAnnotate}
+              onClick={() => handleToggleCanvasMode('annotate')}
               className={`px-3 h-9 flex items-center justify-center rounded-lg text-xs font-medium transition-all ${
-                isAnnotating
+                isAnnotating && canvasMode === 'annotate'
                   ? 'bg-red-500 text-white hover:bg-red-600'
                   : 'bg-white/10 text-white hover:bg-white/20'
               }`}
             >
-              {isAnnotating ? 'Exit edit mode' : 'Edit mode'}
+              {isAnnotating && canvasMode === 'annotate' ? 'Exit edit mode' : 'Edit mode'}
             </button>
+            {onInpaint && (
+              <button
+                onClick={() => handleToggleCanvasMode('inpaint')}
+                className={`px-3 h-9 flex items-center justify-center rounded-lg text-xs font-medium transition-all ${
+                  isAnnotating && canvasMode === 'inpaint'
+                    ? 'bg-red-500 text-white hover:bg-red-600'
+                    : 'bg-white/10 text-white hover:bg-white/20'
+                }`}
+                title="Paint over an area and describe the change - the rest of the image stays untouched"
+              >
+                {isAnnotating && canvasMode === 'inpaint' ? 'Exit inpaint' : 'Inpaint'}
+              </button>
+            )}
           </div>
         </div>
 
@@ -785,6 +1042,109 @@ const ImageModal: React.FC<ImageModalProps> = ({
               </div>
             )}
 
+            {(describedPrompt || describeError) && (
+              <div>
+                <p className="text-white/60 text-xs font-medium uppercase tracking-wider mb-1">
+                  Described prompt
+                </p>
+                {describeError ? (
+                  <p className="text-red-400/90 text-xs">{describeError}</p>
+                ) : (
+                  <>
+                    <p className="text-white/90 text-sm leading-relaxed">{describedPrompt}</p>
+                    <div className="mt-2 flex gap-2">
+                      {onReusePrompt && (
+                        <button
+                          type="button"
+                          onClick={handleUseDescribedPrompt}
+                          className="px-3 py-1.5 rounded-lg bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/40 text-blue-200 text-xs font-medium transition-all"
+                        >
+                          Use prompt
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => void navigator.clipboard.writeText(describedPrompt ?? '')}
+                        className="px-3 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 border border-white/15 text-white/80 text-xs font-medium transition-all"
+                      >
+                        Copy
+                      </button>
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+
+            {isAnnotating && canvasMode === 'inpaint' && onInpaint && (
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <p className="text-white/60 text-xs font-medium uppercase tracking-wider">
+                    Inpaint
+                  </p>
+                  <div className="flex gap-3">
+                    <button
+                      type="button"
+                      onClick={handleUndoMask}
+                      disabled={maskShapeCount === 0}
+                      className="text-[11px] text-white/40 hover:text-white/70 disabled:opacity-40 transition-colors"
+                    >
+                      Undo
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleClearMask}
+                      disabled={maskShapeCount === 0}
+                      className="text-[11px] text-white/40 hover:text-white/70 disabled:opacity-40 transition-colors"
+                    >
+                      Clear
+                    </button>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 mb-2">
+                  {(['brush', 'rect'] as const).map((tool) => (
+                    <button
+                      key={tool}
+                      type="button"
+                      onClick={() => setMaskTool(tool)}
+                      className={`px-3 py-1 rounded-lg text-xs font-medium transition-all ${
+                        maskTool === tool ? 'bg-red-500/80 text-white' : 'bg-white/5 text-white/70 hover:bg-white/10 border border-white/10'
+                      }`}
+                    >
+                      {tool === 'brush' ? 'Brush' : 'Rectangle'}
+                    </button>
+                  ))}
+                  {maskTool === 'brush' && (
+                    <input
+                      type="range"
+                      min={8}
+                      max={160}
+                      value={brushSize}
+                      onChange={(e) => setBrushSize(Number(e.target.value))}
+                      className="flex-1 accent-red-500"
+                      aria-label="Brush size"
+                    />
+                  )}
+                </div>
+                <textarea
+                  value={inpaintInstruction}
+                  onChange={(e) => setInpaintInstruction(e.target.value)}
+                  placeholder="What should change in the painted area?"
+                  rows={3}
+                  className="w-full rounded-lg bg-white/5 border border-white/10 px-2.5 py-1.5 text-xs text-white placeholder-white/40 focus:outline-none focus:ring-1 focus:ring-red-500/60 focus:border-red-500/60 resize-none"
+                />
+                {inpaintError && <p className="mt-1 text-red-400/90 text-xs">{inpaintError}</p>}
+                <button
+                  type="button"
+                  onClick={() => void handleSubmitInpaint()}
+                  disabled={maskShapeCount === 0 || !inpaintInstruction.trim() || isSubmittingInpaint}
+                  className="mt-2 w-full flex items-center justify-center gap-2 bg-red-500/80 hover:bg-red-500 text-white py-2 rounded-xl text-xs font-semibold transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isSubmittingInpaint ? 'Starting…' : 'Apply to painted area'}
+                  {typeof inpaintCredits === 'number' && <span className="text-white/70 font-medium">{inpaintCredits} cr</span>}
+                </button>
+              </div>
+            )}
+
             {annotationsState.length > 0 && (
               <div>
                 <div className="flex items-center justify-between mb-2">
@@ -816,6 +1176,91 @@ const ImageModal: React.FC<ImageModalProps> = ({
               </div>
             )}
 
+            {editRegions && editRegions.length > 0 && !isAnnotating && (
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <p className="text-white/60 text-xs font-medium uppercase tracking-wider">
+                    Region edits
+                  </p>
+                  {onWrapGenerate && (
+                    <button
+                      type="button"
+                      onClick={handleRerunRegionEdits}
+                      className="text-[11px] text-white/40 hover:text-white/70 transition-colors"
+                      title="Apply these edits to the source image again - instructions can be changed first"
+                    >
+                      Re-run / tweak
+                    </button>
+                  )}
+                </div>
+                <ol className="space-y-1.5">
+                  {editRegions.map((region, index) => (
+                    <li key={index} className="flex items-start gap-2 text-xs text-white/80">
+                      <span className="mt-0.5 w-4 h-4 flex-shrink-0 flex items-center justify-center rounded-sm border border-red-400 text-[10px] text-red-300">
+                        {index + 1}
+                      </span>
+                      <span className="leading-relaxed">{region.instruction}</span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+
+            {wildcards && wildcards.values.length > 0 && (
+              <div>
+                <p className="text-white/60 text-xs font-medium uppercase tracking-wider mb-2">
+                  Wildcards
+                </p>
+                <ul className="space-y-1 text-xs">
+                  {wildcards.values.map((draw, index) => (
+                    <li key={index} className="flex items-start gap-2">
+                      <span className="font-mono text-blue-300/90 flex-shrink-0">__{draw.name}__</span>
+                      <span className="text-white/80 leading-relaxed">{draw.value}</span>
+                    </li>
+                  ))}
+                </ul>
+                <p className="text-white/40 text-[11px] mt-1.5">Seed {wildcards.seed}</p>
+              </div>
+            )}
+
+            {lineage && lineage.ancestors.length + lineage.descendants.length > 0 && (
+              <div>
+                <p className="text-white/60 text-xs font-medium uppercase tracking-wider mb-2">
+                  Lineage
+                </p>
+                <div className="flex items-start gap-2 overflow-x-auto pb-1">
+                  {[...lineage.ancestors, null, ...lineage.descendants].map((node) => {
+                    if (!node) {
+                      return (
+                        <div key="current" className="flex flex-col items-start gap-1 flex-shrink-0">
+                          <div className="w-14 h-14 rounded-lg overflow-hidden border-2 border-blue-400">
+                            <img src={thumbUrl || imageUrl} alt="This image" className="w-full h-full object-cover" />
+                          </div>
+                          <span className="text-blue-300 text-[10px] font-medium">This image</span>
+                        </div>
+                      );
+                    }
+                    const label = node.derivation_type ? DERIVATION_TYPES[node.derivation_type] : 'Original';
+                    return (
+                      <button
+                        key={node.id}
+                        type="button"
+                        onClick={() => onOpenLineageImage?.(node)}
+                        disabled={!onOpenLineageImage}
+                        className="flex flex-col items-start gap-1 flex-shrink-0 disabled:cursor-default"
+                        title={node.prompt ?? undefined}
+                      >
+                        <span className="block w-14 h-14 rounded-lg overflow-hidden border border-white/20 hover:border-white/40 transition-colors">
+                          <img src={node.thumbUrl || node.url} alt={label} className="w-full h-full object-cover" />
+                        </span>
+                        <span className="text-white/50 text-[10px] font-medium max-w-[56px] truncate">{label}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             {referenceImageUrls && referenceImageUrls.length > 0 && (
               <div>
                 <p className="text-white/60 text-xs font-medium uppercase tracking-wider mb-2">
@@ -872,6 +1317,64 @@ const ImageModal: React.FC<ImageModalProps> = ({
                 </div>
               )}
             </div>
+
+            {onExtend && extendAspects && extendAspects.length > 0 && (
+              <div>
+                <p className="text-white/60 text-xs font-medium uppercase tracking-wider mb-2">
+                  Extend to aspect ratio
+                </p>
+                <div className="flex flex-wrap gap-1.5">
+                  {extendAspects
+                    .filter((ratio) => ratio !== aspectRatio)
+                    .map((ratio) => (
+                      <button
+                        key={ratio}
+                        type="button"
+                        onClick={() => toggleExtendAspect(ratio)}
+                        className={`px-2.5 py-1 rounded-full text-[11px] font-medium transition-all ${
+                          extendSelection.includes(ratio)
+                            ? 'bg-blue-500 text-white'
+                            : 'bg-white/5 text-white/80 border border-white/10 hover:bg-white/10 hover:text-white'
+                        }`}
+                      >
+                        {ratio}
+                      </button>
+                    ))}
+                </div>
+                {extendSelection.length > 0 && (
+                  <button
+                    type="button"
+                    onClick={handleExtend}
+                    className="mt-2 w-full flex items-center justify-center gap-1.5 bg-white/5 hover:bg-white/10 text-white/90 py-2 rounded-xl text-xs font-medium transition-all border border-white/15"
+                    title="The original stays centered and unchanged; only the new margins are generated"
+                  >
+                    Extend to {extendSelection.join(', ')}
+                    {typeof extendCredits === 'number' && (
+                      <span className="text-white/50">{extendCredits * extendSelection.length} cr</span>
+                    )}
+                  </button>
+                )}
+              </div>
+            )}
+
+            {onUpscale && upscaleTargets.length > 0 && (
+              <div className="flex items-center gap-2">
+                {upscaleTargets.map((size) => (
+                  <button
+                    key={size}
+                    type="button"
+                    onClick={() => handleUpscale(size)}
+                    className="flex-1 flex items-center justify-center gap-1.5 bg-white/5 hover:bg-white/10 text-white/90 py-2 rounded-xl text-xs font-medium transition-all border border-white/15"
+                    title="Saves a larger copy next to this image"
+                  >
+                    Upscale to {size}
+                    {upscaleCredits?.[size] !== undefined && (
+                      <span className="text-white/50">{upscaleCredits[size]} cr</span>
+                    )}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
 
           <div className="flex-shrink-0 p-4 border-t border-white/10 space-y-3">
@@ -879,7 +1382,8 @@ const ImageModal: React.FC<ImageModalProps> = ({
             {(displayPrompt ?? prompt)?.trim() && onReusePrompt && (
               <button
                 onClick={handleWrapAndReuse}
-                disabled={!hasAnnotations}
+                disabled={!annotationsState.some((ann) => ann.text?.trim())}
+                title="Each box is sent with its own instruction"
                 className="w-full flex items-center justify-center gap-2 bg-blue-500 hover:bg-blue-600 text-white py-2.5 rounded-xl text-sm font-semibold transition-all shadow-lg shadow-blue-500/30 hover:shadow-blue-500/50 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-blue-500"
               >
                 <svg
@@ -895,7 +1399,7 @@ const ImageModal: React.FC<ImageModalProps> = ({
                     d="M4 4h9m0 0l-3-3m3 3l-3 3M4 12h9m7 8H11m0 0l3-3m-3 3l3 3m7-8H11"
                   />
                 </svg>
-                Wrap & regenerate
+                Apply edits
               </button>
             )}
 
@@ -921,6 +1425,37 @@ const ImageModal: React.FC<ImageModalProps> = ({
                 </svg>
                 Reuse prompt
               </button>
+              <button
+                onClick={() => void handleDescribe()}
+                disabled={isDescribing}
+                className="flex-1 flex items-center justify-center gap-2 bg-white/5 hover:bg-white/10 text-white/90 py-2.5 rounded-xl text-sm font-medium transition-all border border-white/15 disabled:opacity-40 disabled:cursor-not-allowed"
+                title="Write a prompt that recreates this image's look"
+              >
+                {isDescribing ? (
+                  <span className="animate-spin inline-block w-4 h-4 border-2 border-white/40 border-t-white rounded-full" />
+                ) : (
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                  </svg>
+                )}
+                Describe
+              </button>
+              {onVariations && (
+                <button
+                  onClick={() => {
+                    onVariations();
+                    onClose();
+                  }}
+                  className="flex-1 flex items-center justify-center gap-2 bg-white/5 hover:bg-white/10 text-white/90 py-2.5 rounded-xl text-sm font-medium transition-all border border-white/15"
+                  title="New takes on this image"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 5a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1V5zm10 0a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1V5zM4 15a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1v-4zm10 0a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1v-4z" />
+                  </svg>
+                  Variations
+                </button>
+              )}
               {/* Create video button hidden — internal beta only
               <button
                 onClick={() => {
@@ -18,12 +18,23 @@ import { fetchProfile, updateProfile, uploadAvatar, fetchPurchases, createPortal
 import type { CreditPurchase } from '../services/profileService';
 import { PLANS } from '../config/pricing';
 import { fetchUserStats } from '../services/imageStorage';
+import {
+  fetchWorkspaceCreditUsage,
+  setWorkspaceMemberCap,
+  transferCreditsToWorkspace,
+  type Workspace,
+  type WorkspaceCreditUsage,
+} from '../services/workspaceService';
 import type { User } from '@supabase/supabase-js';
 import type { ImageStats } from '../services/imageStorage';
 
 interface ProfilePageProps {
   user: User;
   credits?: number | null;
+  /** Active team workspace - its credit pool and this month's usage are shown with the credits */
+  workspace?: Workspace | null;
+  /** Balances changed here (credits moved into the pool) - resync them */
+  onCreditsChange?: () => void;
   onSignOut: () => void;
   onRequestPasswordReset?: () => Promise<void>;
 }
@@ -32,7 +43,14 @@ type Section = 'overview' | 'purchases' | 'account';
 
 const QUALITY_COLORS = { '1K': '#3b82f6', '2K': '#6366f1', '4K': '#8b5cf6' };
 
-const ProfilePage: React.FC<ProfilePageProps> = ({ user, credits, onSignOut, onRequestPasswordReset }) => {
+const ProfilePage: React.FC<ProfilePageProps> = ({
+  user,
+  credits,
+  workspace = null,
+  onCreditsChange,
+  onSignOut,
+  onRequestPasswordReset,
+}) => {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -50,8 +68,17 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ user, credits, onSignOut, onR
   const [portalLoading, setPortalLoading] = useState(false);
   const [passwordResetSent, setPasswordResetSent] = useState(false);
   const [passwordResetLoading, setPasswordResetLoading] = useState(false);
+  const [teamUsage, setTeamUsage] = useState<WorkspaceCreditUsage[]>([]);
+  /** Cap inputs by member ('' = no cap) */
+  const [capDrafts, setCapDrafts] = useState<Record<string, string>>({});
+  const [transferAmount, setTransferAmount] = useState('');
+  const [teamBusy, setTeamBusy] = useState(false);
+  const [teamError, setTeamError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const workspaceId = workspace?.id ?? null;
+  const isWorkspaceOwner = workspace?.role === 'owner';
+
   const loadProfile = useCallback(async () => {
     if (!user?.id) return;
     setLoading(true);
@@ -94,6 +121,59 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ user, credits, onSignOut, onR
       .finally(() => setPurchasesLoading(false));
   }, [user?.id, section]);
 
+  const loadTeamUsage = useCallback(async () => {
+    if (!workspaceId) {
+      setTeamUsage([]);
+      return;
+    }
+    try {
+      const usage = await fetchWorkspaceCreditUsage(workspaceId);
+      setTeamUsage(usage);
+      setCapDrafts(Object.fromEntries(usage.map((u) => [u.user_id, u.monthly_credit_cap?.toString() ?? ''])));
+    } catch (err) {
+      setTeamError(err instanceof Error ? err.message : 'Failed to load team usage');
+    }
+  }, [workspaceId]);
+
+  useEffect(() => {
+    if (section !== 'account') return;
+    setTeamError(null);
+    void loadTeamUsage();
+  }, [section, loadTeamUsage]);
+
+  /** Run a team credits change with the busy flag and error display */
+  const runTeamChange = async (action: () => Promise<void>) => {
+    if (teamBusy) return;
+    setTeamBusy(true);
+    setTeamError(null);
+    try {
+      await action();
+    } catch (err) {
+      setTeamError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setTeamBusy(false);
+    }
+  };
+
+  const handleTransfer = () =>
+    runTeamChange(async () => {
+      const amount = parseInt(transferAmount, 10);
+      if (!workspaceId || !(amount > 0)) return;
+      await transferCreditsToWorkspace(workspaceId, amount);
+      setTransferAmount('');
+      onCreditsChange?.();
+    });
+
+  const handleSaveCap = (member: WorkspaceCreditUsage) =>
+    runTeamChange(async () => {
+      if (!workspaceId) return;
+      const draft = (capDrafts[member.user_id] ?? '').trim();
+      const cap = draft === '' ? null : parseInt(draft, 10);
+      if (cap !== null && !(cap >= 0)) throw new Error('Enter a whole number of credits, or leave empty for no cap');
+      await setWorkspaceMemberCap(workspaceId, member.user_id, cap);
+      await loadTeamUsage();
+    });
+
   const handleSave = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user?.id || saving) return;
@@ -784,6 +864,104 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ user, credits, onSignOut, onR
                   </Link>
                 </section>
 
+                {/* Team credit pool of the active workspace */}
+                {workspace && (
+                  <section className="rounded-2xl bg-white/[0.04] border border-white/10 p-6">
+                    <h2 className="landing-font-display text-lg font-semibold text-white mb-4">Team credits · {workspace.name}</h2>
+                    <div className="flex items-baseline gap-2">
+                      <span className="text-3xl font-bold text-white">{workspace.credits.toLocaleString()}</span>
+                      <span className="text-white/50 text-sm">credits in the shared pool</span>
+                    </div>
+                    <p className="text-white/40 text-xs mt-2">
+                      Images owners and editors make while this workspace is selected are paid from the pool, up to each member's monthly cap. Viewers can't spend it.
+                    </p>
+                    {teamError && (
+                      <div className="mt-4 p-3 rounded-xl bg-red-500/15 border border-red-500/30 text-red-300 text-sm">{teamError}</div>
+                    )}
+                    {isWorkspaceOwner && (
+                      <div className="flex gap-2 mt-4">
+                        <input
+                          type="number"
+                          min={1}
+                          value={transferAmount}
+                          onChange={(e) => setTransferAmount(e.target.value)}
+                          placeholder="Credits to add"
+                          className="w-40 px-3 py-2 rounded-xl bg-white/5 border border-white/10 text-white placeholder-white/40 text-sm focus:outline-none focus:border-blue-500/50"
+                        />
+                        <button
+                          type="button"
+                          onClick={handleTransfer}
+                          disabled={teamBusy || !(parseInt(transferAmount, 10) > 0)}
+                          className="px-4 py-2 rounded-xl text-sm font-medium bg-blue-500 hover:bg-blue-600 text-white disabled:opacity-50"
+                        >
+                          Add from my credits
+                        </button>
+                      </div>
+                    )}
+                    {isWorkspaceOwner && workspace.created_by !== user.id && (
+                      <p className="text-white/40 text-xs mt-2">
+                        Credits you add belong to the workspace. If its creator deletes it, what's left goes back to them.
+                      </p>
+                    )}
+                    {teamUsage.length > 0 && (
+                      <div className="overflow-x-auto mt-6">
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="text-white/50 text-xs uppercase tracking-wider border-b border-white/10">
+                              <th className="text-left py-3 font-medium">Member</th>
+                              <th className="text-right py-3 font-medium">Used this month</th>
+                              <th className="text-right py-3 font-medium">Monthly cap</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {teamUsage.map((member) => {
+                              const draft = capDrafts[member.user_id] ?? '';
+                              const capChanged = draft.trim() !== (member.monthly_credit_cap?.toString() ?? '');
+                              return (
+                                <tr key={member.user_id} className="border-b border-white/5 last:border-0">
+                                  <td className="py-3 text-white/80">
+                                    {member.username || member.email}
+                                    {member.user_id === user.id && <span className="text-white/40"> (you)</span>}
+                                  </td>
+                                  <td className="py-3 text-right text-white font-medium">{member.credits_used.toLocaleString()}</td>
+                                  <td className="py-3 text-right">
+                                    {isWorkspaceOwner ? (
+                                      <div className="flex items-center justify-end gap-2">
+                                        <input
+                                          type="number"
+                                          min={0}
+                                          value={draft}
+                                          onChange={(e) => setCapDrafts((d) => ({ ...d, [member.user_id]: e.target.value }))}
+                                          placeholder="No cap"
+                                          className="w-24 px-2 py-1 rounded-lg bg-white/5 border border-white/10 text-white placeholder-white/40 text-xs text-right focus:outline-none focus:border-blue-500/50"
+                                        />
+                                        {capChanged && (
+                                          <button
+                                            type="button"
+                                            onClick={() => handleSaveCap(member)}
+                                            disabled={teamBusy}
+                                            className="px-2 py-1 rounded-lg text-xs font-medium text-white/80 hover:text-white bg-white/10 disabled:opacity-50"
+                                          >
+                                            Save
+                                          </button>
+                                        )}
+                                      </div>
+                                    ) : (
+                                      <span className="text-white/60">
+                                        {member.monthly_credit_cap === null ? 'No cap' : member.monthly_credit_cap.toLocaleString()}
+                                      </span>
+                                    )}
+                                  </td>
+                                </tr>
+                              );
+                            })}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                  </section>
+                )}
+
                 {/* Profile & identity */}
                 <section className="rounded-2xl bg-white/[0.04] border border-white/10 p-6">
                   <h2 className="landing-font-display text-lg font-semibold text-white mb-4">Profile details</h2>
@@ -0,0 +1,302 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  addWorkspaceMember,
+  createWorkspace,
+  deleteWorkspace,
+  fetchWorkspaceMembers,
+  removeWorkspaceMember,
+  renameWorkspace,
+  updateWorkspaceMemberRole,
+  WORKSPACE_ROLES,
+  type Workspace,
+  type WorkspaceMember,
+  type WorkspaceRole,
+} from '../services/workspaceService';
+
+interface WorkspaceModalProps {
+  userId: string;
+  /** Workspace being managed; null shows only the create form */
+  workspace: Workspace | null;
+  onClose: () => void;
+  /** Workspaces changed (created, renamed, left, deleted) - reload the list and balances */
+  onWorkspacesChange: () => void;
+  onSwitchWorkspace: (workspaceId: string | null) => void;
+}
+
+const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
+export default function WorkspaceModal({
+  userId,
+  workspace,
+  onClose,
+  onWorkspacesChange,
+  onSwitchWorkspace,
+}: WorkspaceModalProps) {
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [newName, setNewName] = useState('');
+  const [rename, setRename] = useState(workspace?.name ?? '');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>('editor');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isOwner = workspace?.role === 'owner';
+
+  const loadMembers = useCallback(async () => {
+    if (!workspace) return;
+    try {
+      setMembers(await fetchWorkspaceMembers(workspace.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load members');
+    }
+  }, [workspace]);
+
+  useEffect(() => {
+    void loadMembers();
+  }, [loadMembers]);
+
+  /** Run a change with the busy flag and error display */
+  const run = async (action: () => Promise<void>) => {
+    if (busy) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = () =>
+    run(async () => {
+      const created = await createWorkspace(userId, newName);
+      onWorkspacesChange();
+      onSwitchWorkspace(created.id);
+      onClose();
+    });
+
+  const handleRename = () =>
+    run(async () => {
+      if (!workspace) return;
+      await renameWorkspace(workspace.id, rename);
+      onWorkspacesChange();
+    });
+
+  const handleInvite = () =>
+    run(async () => {
+      if (!workspace || !inviteEmail.trim()) return;
+      await addWorkspaceMember(workspace.id, inviteEmail, inviteRole);
+      setInviteEmail('');
+      await loadMembers();
+    });
+
+  const handleRoleChange = (member: WorkspaceMember, role: WorkspaceRole) =>
+    run(async () => {
+      if (!workspace) return;
+      await updateWorkspaceMemberRole(workspace.id, member.user_id, role);
+      await loadMembers();
+    });
+
+  const handleRemove = (member: WorkspaceMember) =>
+    run(async () => {
+      if (!workspace) return;
+      const leaving = member.user_id === userId;
+      if (!confirm(leaving ? `Leave ${workspace.name}?` : `Remove ${member.username || member.email}?`)) return;
+      await removeWorkspaceMember(workspace.id, member.user_id);
+      if (leaving) {
+        onSwitchWorkspace(null);
+        onWorkspacesChange();
+        onClose();
+      } else {
+        await loadMembers();
+      }
+    });
+
+  const handleDelete = () =>
+    run(async () => {
+      if (!workspace) return;
+      const pool = workspace.credits > 0 ? ` The ${workspace.credits} credits left in its pool go back to your balance.` : '';
+      if (!confirm(`Delete ${workspace.name}? Its shared folders, moodboards and prompts are deleted for everyone.${pool}`)) return;
+      await deleteWorkspace(workspace.id);
+      onSwitchWorkspace(null);
+      onWorkspacesChange();
+      onClose();
+    });
+
+  const ownerCount = members.filter((m) => m.role === 'owner').length;
+  // The creator deletes (and gets the pool back); other owners only once the creator has left
+  const canDelete =
+    isOwner && (workspace?.created_by === userId || !members.some((m) => m.user_id === workspace?.created_by));
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+      onClick={() => !busy && onClose()}
+    >
+      <div
+        className="bg-[#0d0e10] border border-white/10 rounded-2xl shadow-xl w-full max-w-lg max-h-[85vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-6 space-y-6">
+          <div className="flex items-center justify-between">
+            <h3 className="landing-font-display text-lg font-semibold text-white">
+              {workspace ? workspace.name : 'Workspaces'}
+            </h3>
+            <button type="button" onClick={onClose} className="text-white/50 hover:text-white" aria-label="Close">
+              ×
+            </button>
+          </div>
+
+          {error && (
+            <div className="p-3 rounded-xl bg-red-500/15 border border-red-500/30 text-red-300 text-sm">{error}</div>
+          )}
+
+          {workspace && isOwner && (
+            <div>
+              <label className="block text-white/80 text-sm mb-1.5">Name</label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={rename}
+                  onChange={(e) => setRename(e.target.value)}
+                  className="flex-1 px-4 py-2.5 rounded-xl bg-white/5 border border-white/10 text-white text-sm focus:outline-none focus:border-blue-500/50"
+                />
+                <button
+                  type="button"
+                  onClick={handleRename}
+                  disabled={busy || !rename.trim() || rename.trim() === workspace.name}
+                  className="px-4 py-2 rounded-xl text-sm font-medium text-white/80 hover:text-white bg-white/10 disabled:opacity-50"
+                >
+                  Rename
+                </button>
+              </div>
+            </div>
+          )}
+
+          {workspace && (
+            <div>
+              <p className="text-white/80 text-sm mb-2">Members</p>
+              <div className="space-y-2">
+                {members.map((member) => {
+                  const isSelf = member.user_id === userId;
+                  // Keep at least one owner
+                  const lastOwner = member.role === 'owner' && ownerCount <= 1;
+                  return (
+                    <div key={member.user_id} className="flex items-center gap-2 rounded-xl border border-white/10 bg-white/5 px-3 py-2">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-white truncate">
+                          {member.username || member.email}
+                          {isSelf && <span className="text-white/40"> (you)</span>}
+                        </p>
+                        <p className="text-xs text-white/40 truncate">{member.email}</p>
+                      </div>
+                      {isOwner && !lastOwner ? (
+                        <select
+                          value={member.role}
+                          onChange={(e) => handleRoleChange(member, e.target.value as WorkspaceRole)}
+                          disabled={busy}
+                          className="rounded-lg bg-white/5 border border-white/10 px-2 py-1 text-xs text-white focus:outline-none"
+                        >
+                          {WORKSPACE_ROLES.map((role) => (
+                            <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className="text-xs text-white/60">{ROLE_LABELS[member.role]}</span>
+                      )}
+                      {(isOwner || isSelf) && !lastOwner && (
+                        <button
+                          type="button"
+                          onClick={() => handleRemove(member)}
+                          disabled={busy}
+                          className="px-2 py-1 rounded-lg text-xs font-medium text-red-400/80 hover:text-red-400 bg-red-500/10 disabled:opacity-50"
+                        >
+                          {isSelf ? 'Leave' : 'Remove'}
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+              {isOwner && (
+                <div className="flex gap-2 mt-3">
+                  <input
+                    type="email"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    placeholder="teammate@agency.com"
+                    className="flex-1 min-w-0 px-3 py-2 rounded-xl bg-white/5 border border-white/10 text-white placeholder-white/40 text-sm focus:outline-none focus:border-blue-500/50"
+                  />
+                  <select
+                    value={inviteRole}
+                    onChange={(e) => setInviteRole(e.target.value as WorkspaceRole)}
+                    className="rounded-xl bg-white/5 border border-white/10 px-2 text-sm text-white focus:outline-none"
+                  >
+                    {WORKSPACE_ROLES.map((role) => (
+                      <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={handleInvite}
+                    disabled={busy || !inviteEmail.trim()}
+                    className="px-4 py-2 rounded-xl text-sm font-medium bg-blue-500 hover:bg-blue-600 text-white disabled:opacity-50"
+                  >
+                    Add
+                  </button>
+                </div>
+              )}
+              <p className="text-white/40 text-xs mt-2">
+                Editors can add and change shared folders, moodboards and prompts. Viewers can see and use them.
+              </p>
+            </div>
+          )}
+
+          {workspace && canDelete && members.length > 0 && (
+            <button
+              type="button"
+              onClick={handleDelete}
+              disabled={busy}
+              className="px-4 py-2 rounded-xl text-sm font-medium text-red-400/80 hover:text-red-400 bg-red-500/10 disabled:opacity-50"
+            >
+              Delete workspace
+            </button>
+          )}
+
+          {!workspace && (
+            <div>
+              <label className="block text-white/80 text-sm mb-1.5">New team workspace</label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  placeholder="e.g. Agency"
+                  className="flex-1 px-4 py-2.5 rounded-xl bg-white/5 border border-white/10 text-white placeholder-white/40 text-sm focus:outline-none focus:border-blue-500/50"
+                  onKeyDown={(e) => e.key === 'Enter' && newName.trim() && handleCreate()}
+                />
+                <button
+                  type="button"
+                  onClick={handleCreate}
+                  disabled={busy || !newName.trim()}
+                  className="px-4 py-2 rounded-xl text-sm font-medium bg-blue-500 hover:bg-blue-600 text-white disabled:opacity-50"
+                >
+                  {busy ? 'Creating…' : 'Create'}
+                </button>
+              </div>
+              <p className="text-white/40 text-xs mt-2">
+                You'll be its owner. Folders, moodboards and prompts you make while it's selected are shared with its members.
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+/**
+ * Structured region edits: boxes drawn in ImageModal, each with its own instruction.
+ * Imported by both the client and /api/edit, so keep it free of browser-only code.
+ */
+
+/** One edited area. Coordinates are normalized to the image (0-1, origin top-left) */
+export interface EditRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  instruction: string;
+}
+
+export const MAX_EDIT_REGIONS = 8;
+export const MAX_EDIT_INSTRUCTION_LENGTH = 500;
@@ -0,0 +1,20 @@
+/**
+ * Prompt enhancer modes and variant limits (Kreate+).
+ * Imported by both the client and /api/enhance-prompt, so keep it free of browser-only code.
+ */
+
+export const ENHANCE_MODES = {
+  faithful: 'Faithful',
+  cinematic: 'More cinematic',
+  product: 'Product shot',
+} as const;
+
+export type EnhanceMode = keyof typeof ENHANCE_MODES;
+
+export const DEFAULT_ENHANCE_MODE: EnhanceMode = 'faithful';
+
+export const MAX_ENHANCE_VARIANTS = 4;
+
+export function isEnhanceMode(value: unknown): value is EnhanceMode {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ENHANCE_MODES, value);
+}
@@ -0,0 +1,17 @@
+/**
+ * Image lineage: how an image was derived from its parent (images.parent_image_id).
+ * Imported by both the client and the /api handlers, so keep it free of browser-only code.
+ */
+
+export const DERIVATION_TYPES = {
+  rerun: 'Re-run',
+  edit: 'Edit',
+  variation: 'Variation',
+  upscale: 'Upscale',
+} as const;
+
+export type DerivationType = keyof typeof DERIVATION_TYPES;
+
+export function isDerivationType(value: unknown): value is DerivationType {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(DERIVATION_TYPES, value);
+}
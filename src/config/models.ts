@@ -0,0 +1,31 @@
+/**
+ * Image models, aspect ratios and sizes offered in the control panel.
+ * Imported by both the client and the /api handlers, so keep it free of browser-only code.
+ */
+
+export const IMAGE_MODELS = {
+  'gemini-3-pro-image-preview': 'Nano Banana Pro',
+  'gemini-3.1-flash-image-preview': 'Nano Banana 2',
+} as const;
+
+export type ImageModelId = keyof typeof IMAGE_MODELS;
+
+export const DEFAULT_IMAGE_MODEL: ImageModelId = 'gemini-3-pro-image-preview';
+
+export const ASPECT_RATIOS = ['1:1', '3:2', '4:3', '16:9', '9:16', '2:3', '3:4', '21:9', '5:4', '4:5'] as const;
+
+export type AspectRatio = (typeof ASPECT_RATIOS)[number];
+
+export const IMAGE_SIZES = ['1K', '2K', '4K'] as const;
+
+export type ImageSize = (typeof IMAGE_SIZES)[number];
+
+export function isImageModelId(value: unknown): value is ImageModelId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(IMAGE_MODELS, value);
+}
+
+/** Display name for a stored model ID; unknown IDs are shown as-is. */
+export function getImageModelLabel(model: string | null | undefined): string | undefined {
+  if (!model) return undefined;
+  return isImageModelId(model) ? IMAGE_MODELS[model] : model;
+}
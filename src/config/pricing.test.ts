@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { getCheckoutUrl, getEditCost, getImageCost, getUpscaleCost } from './pricing';
+
+describe('getImageCost', () => {
+  it('prices by model and size', () => {
+    expect(getImageCost('gemini-3-pro-image-preview', '4K')).toEqual({ credits: 4, usd: 0.08 });
+    expect(getImageCost('gemini-3.1-flash-image-preview', '2K')).toEqual({ credits: 1, usd: 0.025 });
+  });
+
+  it('falls back to the default model at 1K for unknown values', () => {
+    expect(getImageCost('retired-model', '8K')).toEqual({ credits: 1, usd: 0.05 });
+    expect(getImageCost(null, undefined)).toEqual({ credits: 1, usd: 0.05 });
+  });
+
+  it('adds a credit per four references and a fraction of a cent per reference', () => {
+    expect(getImageCost('gemini-3-pro-image-preview', '1K', 3).credits).toBe(1);
+    expect(getImageCost('gemini-3-pro-image-preview', '1K', 4).credits).toBe(2);
+    expect(getImageCost('gemini-3-pro-image-preview', '1K', 9).credits).toBe(3);
+    expect(getImageCost('gemini-3-pro-image-preview', '1K', 3).usd).toBeCloseTo(0.053);
+  });
+
+  it('ignores a negative reference count', () => {
+    expect(getImageCost('gemini-3-pro-image-preview', '1K', -2)).toEqual({ credits: 1, usd: 0.05 });
+  });
+});
+
+describe('derived image pricing', () => {
+  it('prices edits as two references and upscales as one', () => {
+    expect(getEditCost('gemini-3-pro-image-preview', '2K').usd).toBeCloseTo(0.052);
+    const upscale = getUpscaleCost('gemini-3.1-flash-image-preview', '4K');
+    expect(upscale.credits).toBe(2);
+    expect(upscale.usd).toBeCloseTo(0.041);
+  });
+});
+
+describe('getCheckoutUrl', () => {
+  it('appends the encoded user id with the right separator', () => {
+    expect(getCheckoutUrl('https://buy.stripe.com/abc', 'a b')).toBe(
+      'https://buy.stripe.com/abc?client_reference_id=a%20b'
+    );
+    expect(getCheckoutUrl('https://buy.stripe.com/abc?x=1', 'u1')).toBe(
+      'https://buy.stripe.com/abc?x=1&client_reference_id=u1'
+    );
+  });
+});
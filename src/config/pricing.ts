@@ -1,3 +1,6 @@
+// .js extension: this file is also loaded by the /api functions under Node ESM
+import { DEFAULT_IMAGE_MODEL, IMAGE_SIZES, isImageModelId, type ImageModelId, type ImageSize } from './models.js';
+
 /**
  * Subscription plans.
  * Payment Links point to Stripe subscription checkout with ?client_reference_id={userId}.
@@ -49,3 +52,55 @@ export function getCheckoutUrl(paymentLink: string, userId: string): string {
   const sep = paymentLink.includes('?') ? '&' : '?';
   return `${paymentLink}${sep}client_reference_id=${encodeURIComponent(userId)}`;
 }
+
+/**
+ * Image generation pricing - single source for the ControlPanel cost label, the server-side
+ * credit deduction in /api/generate and the spend charts (buildUserImageStats).
+ * `usd` is our provider cost per image; `credits` is what the user is charged.
+ */
+export const IMAGE_PRICING: Record<ImageModelId, { credits: Record<ImageSize, number>; usd: Record<ImageSize, number> }> = {
+  'gemini-3-pro-image-preview': {
+    credits: { '1K': 1, '2K': 2, '4K': 4 },
+    usd: { '1K': 0.05, '2K': 0.05, '4K': 0.08 },
+  },
+  'gemini-3.1-flash-image-preview': {
+    credits: { '1K': 1, '2K': 1, '4K': 2 },
+    usd: { '1K': 0.025, '2K': 0.025, '4K': 0.04 },
+  },
+};
+
+/** Every N reference images add one credit (they are billed as input tokens upstream) */
+export const REFERENCE_IMAGES_PER_CREDIT = 4;
+export const USD_PER_REFERENCE_IMAGE = 0.001;
+
+export interface ImageCost {
+  credits: number;
+  usd: number;
+}
+
+/**
+ * Cost of one image. Unknown models/sizes (old rows) are priced as the default model at 1K.
+ */
+export function getImageCost(
+  model: string | null | undefined,
+  imageSize: string | null | undefined,
+  referenceCount = 0
+): ImageCost {
+  const pricing = IMAGE_PRICING[isImageModelId(model) ? model : DEFAULT_IMAGE_MODEL];
+  const size: ImageSize = (IMAGE_SIZES as readonly string[]).includes(imageSize ?? '') ? (imageSize as ImageSize) : '1K';
+  const refs = Math.max(0, referenceCount);
+  return {
+    credits: pricing.credits[size] + Math.floor(refs / REFERENCE_IMAGES_PER_CREDIT),
+    usd: pricing.usd[size] + refs * USD_PER_REFERENCE_IMAGE,
+  };
+}
+
+/** Edits (inpaint, outpaint, region edits): priced as two references - the source image and its mask */
+export function getEditCost(model: string | null | undefined, imageSize: string | null | undefined): ImageCost {
+  return getImageCost(model, imageSize, 2);
+}
+
+/** Upscale: priced like a render at the target size with the original as its one reference */
+export function getUpscaleCost(model: string | null | undefined, targetSize: string | null | undefined): ImageCost {
+  return getImageCost(model, targetSize, 1);
+}
@@ -0,0 +1,20 @@
+/**
+ * Variations of an existing image: how far a variation may drift from its source, and how many per request.
+ * Imported by both the client and /api/generate, so keep it free of browser-only code.
+ */
+
+export const VARIATION_STRENGTHS = {
+  subtle: 'Subtle',
+  medium: 'Medium',
+  strong: 'Strong',
+} as const;
+
+export type VariationStrength = keyof typeof VARIATION_STRENGTHS;
+
+export const DEFAULT_VARIATION_STRENGTH: VariationStrength = 'medium';
+
+export const MAX_VARIATIONS = 4;
+
+export function isVariationStrength(value: unknown): value is VariationStrength {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(VARIATION_STRENGTHS, value);
+}
@@ -0,0 +1,43 @@
+/**
+ * Wildcards: `__lighting__` in a prompt draws a random line from the user's "lighting" list at submit time.
+ * The draws are stored on the image (images.wildcards) so each result records the values it used.
+ * Imported by both the client and /api/generate, so keep it free of browser-only code.
+ */
+
+/** One `__name__` occurrence and the line drawn for it */
+export interface WildcardDraw {
+  name: string;
+  value: string;
+}
+
+/** What images.wildcards holds: the seed the draws came from and the values, in prompt order */
+export interface WildcardResolution {
+  seed: number;
+  values: WildcardDraw[];
+}
+
+export const MAX_WILDCARD_DRAWS = 50;
+export const MAX_WILDCARD_VALUE_LENGTH = 500;
+
+/** Names are lowercase letters, digits, `-` and single `_` (so `__a_b__` is the wildcard "a_b") */
+export const WILDCARD_NAME_PATTERN = /^[a-z0-9]+(?:[-_][a-z0-9]+)*$/;
+
+export function isWildcardResolution(value: unknown): value is WildcardResolution {
+  const resolution = value as Partial<WildcardResolution> | null;
+  return (
+    typeof resolution === 'object' &&
+    resolution !== null &&
+    Number.isInteger(resolution.seed) &&
+    (resolution.seed as number) >= 0 &&
+    (resolution.seed as number) <= 0xffffffff &&
+    Array.isArray(resolution.values) &&
+    resolution.values.length <= MAX_WILDCARD_DRAWS &&
+    resolution.values.every(
+      (draw) =>
+        typeof draw?.name === 'string' &&
+        WILDCARD_NAME_PATTERN.test(draw.name) &&
+        typeof draw.value === 'string' &&
+        draw.value.length <= MAX_WILDCARD_VALUE_LENGTH
+    )
+  );
+}
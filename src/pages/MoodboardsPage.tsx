@@ -10,15 +10,20 @@ import {
   MAX_MOODBOARD_IMAGES,
   type Moodboard,
 } from '../services/moodboardService';
+import { canEditWorkspace, type Workspace } from '../services/workspaceService';
 import type { User } from '@supabase/supabase-js';
 
 interface MoodboardsPageProps {
   user: User;
   onSignOut: () => void;
   onUseMoodboard?: (urls: string[]) => void;
+  /** Active team workspace (null = personal moodboards) */
+  workspace?: Workspace | null;
 }
 
-const MoodboardsPage: React.FC<MoodboardsPageProps> = ({ user, onUseMoodboard }) => {
+const MoodboardsPage: React.FC<MoodboardsPageProps> = ({ user, onUseMoodboard, workspace = null }) => {
+  const workspaceId = workspace?.id ?? null;
+  const canEdit = canEditWorkspace(workspace);
   const [loading, setLoading] = useState(true);
   const [moodboards, setMoodboards] = useState<Moodboard[]>([]);
   const [error, setError] = useState<string | null>(null);
@@ -36,14 +41,14 @@ const MoodboardsPage: React.FC<MoodboardsPageProps> = ({ user, onUseMoodboard })
     setLoading(true);
     setError(null);
     try {
-      const list = await fetchMoodboards(user.id);
+      const list = await fetchMoodboards(user.id, workspaceId);
       setMoodboards(list);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load moodboards');
     } finally {
       setLoading(false);
     }
-  }, [user?.id]);
+  }, [user?.id, workspaceId]);
 
   useEffect(() => {
     loadMoodboards();
@@ -95,14 +100,15 @@ const MoodboardsPage: React.FC<MoodboardsPageProps> = ({ user, onUseMoodboard })
     setError(null);
     try {
       if (editingId) {
-        const updated = await updateMoodboard(editingId, user.id, {
-          name: createName,
-          description: createDesc,
-          reference_image_urls: createImages,
-        });
+        const updated = await updateMoodboard(
+          editingId,
+          user.id,
+          { name: createName, description: createDesc, reference_image_urls: createImages },
+          workspaceId
+        );
         setMoodboards((prev) => prev.map((m) => (m.id === editingId ? updated : m)));
       } else {
-        const created = await createMoodboard(user.id, createName, createDesc, createImages);
+        const created = await createMoodboard(user.id, createName, createDesc, createImages, workspaceId);
         setMoodboards((prev) => [created, ...prev]);
       }
       setCreateOpen(false);
@@ -116,7 +122,7 @@ const MoodboardsPage: React.FC<MoodboardsPageProps> = ({ user, onUseMoodboard })
   const handleDelete = async (mb: Moodboard) => {
     if (!confirm(`Delete "${mb.name}"?`)) return;
     try {
-      await deleteMoodboard(mb.id, user!.id);
+      await deleteMoodboard(mb.id, user!.id, workspaceId);
       setMoodboards((prev) => prev.filter((m) => m.id !== mb.id));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to delete');
@@ -151,10 +157,12 @@ const MoodboardsPage: React.FC<MoodboardsPageProps> = ({ user, onUseMoodboard })
         <div className="flex items-center justify-between mb-8">
           <div>
             <h1 className="landing-font-display text-3xl font-bold text-white tracking-tight">
-              My <span className="dashboard-title-gradient">Moodboards</span>
+              {workspace ? workspace.name : 'My'} <span className="dashboard-title-gradient">Moodboards</span>
             </h1>
             <p className="text-white/55 text-base mt-1">
-              Create sets of reference images to reuse in your image generations
+              {workspace
+                ? `Shared with everyone in ${workspace.name}${canEdit ? '' : ' · view only'}`
+                : 'Create sets of reference images to reuse in your image generations'}
             </p>
           </div>
           <div className="flex items-center gap-3">
@@ -164,13 +172,15 @@ const MoodboardsPage: React.FC<MoodboardsPageProps> = ({ user, onUseMoodboard })
             >
               Back to Kreations
             </Link>
-            <button
-              type="button"
-              onClick={openCreate}
-              className="px-5 py-2 rounded-xl text-sm font-semibold bg-gradient-to-r from-blue-500 to-indigo-500 text-white hover:opacity-95 transition-opacity"
-            >
-              + New moodboard
-            </button>
+            {canEdit && (
+              <button
+                type="button"
+                onClick={openCreate}
+                className="px-5 py-2 rounded-xl text-sm font-semibold bg-gradient-to-r from-blue-500 to-indigo-500 text-white hover:opacity-95 transition-opacity"
+              >
+                + New moodboard
+              </button>
+            )}
           </div>
         </div>
 
@@ -190,13 +200,15 @@ const MoodboardsPage: React.FC<MoodboardsPageProps> = ({ user, onUseMoodboard })
             </div>
             <h2 className="landing-font-display text-xl font-bold text-white mb-2">No moodboards yet</h2>
             <p className="text-white/55 text-sm mb-6">Create a moodboard to save reference images for reuse.</p>
-            <button
-              type="button"
-              onClick={openCreate}
-              className="px-6 py-3 rounded-xl bg-gradient-to-r from-blue-500 to-indigo-500 text-white font-semibold text-sm hover:opacity-95 transition-opacity"
-            >
-              Create moodboard
-            </button>
+            {canEdit && (
+              <button
+                type="button"
+                onClick={openCreate}
+                className="px-6 py-3 rounded-xl bg-gradient-to-r from-blue-500 to-indigo-500 text-white font-semibold text-sm hover:opacity-95 transition-opacity"
+              >
+                Create moodboard
+              </button>
+            )}
           </div>
         ) : (
           <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
@@ -233,20 +245,24 @@ const MoodboardsPage: React.FC<MoodboardsPageProps> = ({ user, onUseMoodboard })
                         Use in generation
                       </button>
                     )}
-                    <button
-                      type="button"
-                      onClick={() => openEdit(mb)}
-                      className="px-3 py-1.5 rounded-lg text-xs font-medium text-white/80 hover:text-white bg-white/10 transition-colors"
-                    >
-                      Edit
-                    </button>
-                    <button
-                      type="button"
-                      onClick={() => handleDelete(mb)}
-                      className="px-3 py-1.5 rounded-lg text-xs font-medium text-red-400/80 hover:text-red-400 bg-red-500/10 transition-colors"
-                    >
-                      Delete
-                    </button>
+                    {canEdit && (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => openEdit(mb)}
+                          className="px-3 py-1.5 rounded-lg text-xs font-medium text-white/80 hover:text-white bg-white/10 transition-colors"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDelete(mb)}
+                          className="px-3 py-1.5 rounded-lg text-xs font-medium text-red-400/80 hover:text-red-400 bg-red-500/10 transition-colors"
+                        >
+                          Delete
+                        </button>
+                      </>
+                    )}
                   </div>
                 </div>
               </div>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { Link } from 'react-router-dom';
 import {
   fetchPromptTemplates,
@@ -9,14 +9,41 @@ import {
   DEFAULT_PROMPT_TEMPLATES,
   type PromptTemplate,
 } from '../services/promptTemplateService';
+import {
+  fetchWildcards,
+  createWildcard,
+  updateWildcard,
+  deleteWildcard,
+  normalizeWildcardName,
+  parseWildcardLines,
+  type PromptWildcard,
+} from '../services/wildcardService';
+import { fetchMoodboards, type Moodboard } from '../services/moodboardService';
+import {
+  applyPromptPackImport,
+  buildPromptPack,
+  downloadPromptPack,
+  parsePromptPack,
+  planPromptPackImport,
+  validatePromptPackImport,
+  type HandleCollisionAction,
+  type PromptPack,
+  type PromptPackImportItem,
+} from '../services/promptPackService';
+import { canEditWorkspace, type Workspace } from '../services/workspaceService';
+import { fillTemplateVariables, parseTemplateVariables } from '../utils/templateVariables';
 import type { User } from '@supabase/supabase-js';
 
 interface MyPromptsPageProps {
   user: User;
   onSignOut: () => void;
+  /** Active team workspace (null = personal prompts); wildcard lists stay personal either way */
+  workspace?: Workspace | null;
 }
 
-const MyPromptsPage: React.FC<MyPromptsPageProps> = ({ user }) => {
+const MyPromptsPage: React.FC<MyPromptsPageProps> = ({ user, workspace = null }) => {
+  const workspaceId = workspace?.id ?? null;
+  const canEdit = canEditWorkspace(workspace);
   const [loading, setLoading] = useState(true);
   const [prompts, setPrompts] = useState<PromptTemplate[]>([]);
   const [error, setError] = useState<string | null>(null);
@@ -25,28 +52,93 @@ const MyPromptsPage: React.FC<MyPromptsPageProps> = ({ user }) => {
   const [createHandle, setCreateHandle] = useState('');
   const [createPromptText, setCreatePromptText] = useState('');
   const [createSaving, setCreateSaving] = useState(false);
+  /** Sample values for previewing {{variables}} in the editor (not saved) */
+  const [previewValues, setPreviewValues] = useState<Record<string, string>>({});
+  const [wildcards, setWildcards] = useState<PromptWildcard[]>([]);
+  /** Wildcard editor: null = closed, id null = new list */
+  const [wildcardEditor, setWildcardEditor] = useState<{ id: string | null; name: string; linesText: string } | null>(null);
+  const [wildcardSaving, setWildcardSaving] = useState(false);
+  /** Export dialog: which prompts/moodboards go in the pack (moodboards null while loading) */
+  const [exportDialog, setExportDialog] = useState<{
+    templateIds: string[];
+    moodboards: Moodboard[] | null;
+    moodboardIds: string[];
+  } | null>(null);
+  /** Import dialog for a parsed pack, with one collision choice per template */
+  const [importDialog, setImportDialog] = useState<{
+    pack: PromptPack;
+    items: PromptPackImportItem[];
+    includeMoodboards: boolean;
+  } | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   const loadPrompts = useCallback(async () => {
     if (!user?.id) return;
     setLoading(true);
     setError(null);
     try {
-      const list = await fetchPromptTemplates(user.id);
+      const list = await fetchPromptTemplates(user.id, workspaceId);
       setPrompts(list);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load prompts');
     } finally {
       setLoading(false);
     }
-  }, [user?.id]);
+  }, [user?.id, workspaceId]);
 
   useEffect(() => {
     loadPrompts();
   }, [loadPrompts]);
 
+  useEffect(() => {
+    if (!user?.id) return;
+    fetchWildcards(user.id)
+      .then(setWildcards)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load wildcards'));
+  }, [user?.id]);
+
+  const handleSaveWildcard = async () => {
+    if (!user?.id || !wildcardEditor || wildcardSaving) return;
+    const name = wildcardEditor.name.trim();
+    if (!normalizeWildcardName(name)) {
+      setError('Name is required (e.g. lighting)');
+      return;
+    }
+    const lines = parseWildcardLines(wildcardEditor.linesText);
+    setWildcardSaving(true);
+    setError(null);
+    try {
+      if (wildcardEditor.id) {
+        const updated = await updateWildcard(wildcardEditor.id, user.id, { name, lines });
+        setWildcards((prev) => prev.map((w) => (w.id === updated.id ? updated : w)));
+      } else {
+        const created = await createWildcard(user.id, name, lines);
+        setWildcards((prev) => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+      }
+      setWildcardEditor(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save wildcard');
+    } finally {
+      setWildcardSaving(false);
+    }
+  };
+
+  const handleDeleteWildcard = async (w: PromptWildcard) => {
+    if (!confirm(`Delete __${w.name}__?`)) return;
+    try {
+      await deleteWildcard(w.id, user!.id);
+      setWildcards((prev) => prev.filter((x) => x.id !== w.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete');
+    }
+  };
+
   const openCreate = () => {
     setCreateHandle('');
     setCreatePromptText('');
+    setPreviewValues({});
     setCreateOpen(true);
     setEditingId(null);
   };
@@ -54,6 +146,7 @@ const MyPromptsPage: React.FC<MyPromptsPageProps> = ({ user }) => {
   const openEdit = (p: PromptTemplate) => {
     setCreateHandle(p.handle);
     setCreatePromptText(p.prompt_text);
+    setPreviewValues({});
     setEditingId(p.id);
     setCreateOpen(true);
   };
@@ -69,13 +162,15 @@ const MyPromptsPage: React.FC<MyPromptsPageProps> = ({ user }) => {
     setError(null);
     try {
       if (editingId) {
-        const updated = await updatePromptTemplate(editingId, user.id, {
-          handle: handleTrim,
-          prompt_text: createPromptText,
-        });
+        const updated = await updatePromptTemplate(
+          editingId,
+          user.id,
+          { handle: handleTrim, prompt_text: createPromptText },
+          workspaceId
+        );
         setPrompts((prev) => prev.map((p) => (p.id === editingId ? updated : p)));
       } else {
-        const created = await createPromptTemplate(user.id, handleTrim, createPromptText);
+        const created = await createPromptTemplate(user.id, handleTrim, createPromptText, workspaceId);
         setPrompts((prev) => [created, ...prev]);
       }
       setCreateOpen(false);
@@ -89,13 +184,89 @@ const MyPromptsPage: React.FC<MyPromptsPageProps> = ({ user }) => {
   const handleDelete = async (p: PromptTemplate) => {
     if (!confirm(`Delete @${p.handle}?`)) return;
     try {
-      await deletePromptTemplate(p.id, user!.id);
+      await deletePromptTemplate(p.id, user!.id, workspaceId);
       setPrompts((prev) => prev.filter((x) => x.id !== p.id));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to delete');
     }
   };
 
+  const openExport = () => {
+    if (!user?.id) return;
+    setExportDialog({ templateIds: prompts.map((p) => p.id), moodboards: null, moodboardIds: [] });
+    fetchMoodboards(user.id, workspaceId)
+      .then((list) => setExportDialog((prev) => prev && { ...prev, moodboards: list }))
+      .catch((err) => {
+        setExportDialog((prev) => prev && { ...prev, moodboards: [] });
+        setError(err instanceof Error ? err.message : 'Failed to load moodboards');
+      });
+  };
+
+  const handleExport = () => {
+    if (!exportDialog) return;
+    const templates = prompts.filter((p) => exportDialog.templateIds.includes(p.id));
+    const moodboards = (exportDialog.moodboards ?? []).filter((m) => exportDialog.moodboardIds.includes(m.id));
+    downloadPromptPack(buildPromptPack(templates, moodboards));
+    setExportDialog(null);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    setNotice(null);
+    try {
+      const pack = parsePromptPack(await file.text());
+      if (pack.templates.length === 0 && pack.moodboards.length === 0) {
+        setError('This prompt pack is empty');
+        return;
+      }
+      setImportDialog({ pack, items: planPromptPackImport(pack, prompts), includeMoodboards: pack.moodboards.length > 0 });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read prompt pack');
+    }
+  };
+
+  const updateImportItem = (index: number, changes: Partial<Pick<PromptPackImportItem, 'action' | 'renameTo'>>) => {
+    setImportDialog((prev) =>
+      prev && { ...prev, items: prev.items.map((item, i) => (i === index ? { ...item, ...changes } : item)) }
+    );
+  };
+
+  const handleImport = async () => {
+    if (!user?.id || !importDialog || importing) return;
+    const problem = validatePromptPackImport(importDialog.items, prompts);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setImporting(true);
+    setError(null);
+    try {
+      const result = await applyPromptPackImport(
+        user.id,
+        importDialog.items,
+        importDialog.includeMoodboards ? importDialog.pack.moodboards : [],
+        workspaceId
+      );
+      const parts = [`${result.created} added`, `${result.updated} overwritten`, `${result.skipped} skipped`];
+      if (result.moodboards > 0) parts.push(`${result.moodboards} moodboard${result.moodboards === 1 ? '' : 's'} added`);
+      if (result.failed.length > 0) parts.push(`${result.failed.length} failed`);
+      setNotice(`Imported prompt pack: ${parts.join(', ')}`);
+      if (result.failed.length > 0) setError(`Some items weren't imported - ${result.failed.join('; ')}`);
+      setImportDialog(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import prompt pack');
+    } finally {
+      setImporting(false);
+      // Reload either way - a partial or failed import may still have saved some templates
+      fetchPromptTemplates(user.id, workspaceId)
+        .then(setPrompts)
+        .catch(() => {});
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-[#08090a] flex items-center justify-center">
@@ -117,11 +288,16 @@ const MyPromptsPage: React.FC<MyPromptsPageProps> = ({ user }) => {
         <div className="flex items-center justify-between mb-8">
           <div>
             <h1 className="landing-font-display text-3xl font-bold text-white tracking-tight">
-              My <span className="dashboard-title-gradient">Prompts</span>
+              {workspace ? workspace.name : 'My'} <span className="dashboard-title-gradient">Prompts</span>
             </h1>
             <p className="text-white/55 text-base mt-1 max-w-md">
               Save prompts with handles and use <kbd className="px-1.5 py-0.5 rounded bg-white/10 text-white/80">@handle</kbd> in the control panel to insert them
             </p>
+            {workspace && (
+              <p className="text-white/45 text-sm mt-1">
+                Prompts here are shared with everyone in {workspace.name}{canEdit ? '' : ' · view only'}
+              </p>
+            )}
           </div>
           <div className="flex items-center gap-3">
             <Link
@@ -130,13 +306,15 @@ const MyPromptsPage: React.FC<MyPromptsPageProps> = ({ user }) => {
             >
               Back to Kreations
             </Link>
-            <button
-              type="button"
-              onClick={openCreate}
-              className="px-5 py-2 rounded-xl text-sm font-semibold bg-gradient-to-r from-blue-500 to-indigo-500 text-white hover:opacity-95 transition-opacity"
-            >
-              + New prompt
-            </button>
+            {canEdit && (
+              <button
+                type="button"
+                onClick={openCreate}
+                className="px-5 py-2 rounded-xl text-sm font-semibold bg-gradient-to-r from-blue-500 to-indigo-500 text-white hover:opacity-95 transition-opacity"
+              >
+                + New prompt
+              </button>
+            )}
           </div>
         </div>
 
@@ -146,6 +324,12 @@ const MyPromptsPage: React.FC<MyPromptsPageProps> = ({ user }) => {
             <button type="button" onClick={() => setError(null)} className="text-red-400 hover:text-red-300">×</button>
           </div>
         )}
+        {notice && (
+          <div className="mb-6 p-4 rounded-xl bg-emerald-500/15 border border-emerald-500/30 text-emerald-300 text-sm flex items-center justify-between">
+            <span>{notice}</span>
+            <button type="button" onClick={() => setNotice(null)} className="text-emerald-400 hover:text-emerald-300">×</button>
+          </div>
+        )}
 
         <div className="space-y-10">
             {/* Default prompts – everyone can use these via @ in the control panel */}
@@ -186,7 +370,35 @@ const MyPromptsPage: React.FC<MyPromptsPageProps> = ({ user }) => {
 
             {/* User's saved prompts */}
             <div>
-              <h2 className="text-white/60 text-sm font-semibold uppercase tracking-wider mb-3">Your prompts</h2>
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="text-white/60 text-sm font-semibold uppercase tracking-wider">{workspace ? 'Shared prompts' : 'Your prompts'}</h2>
+                <div className="flex gap-2">
+                  <input
+                    ref={importInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={handleImportFile}
+                  />
+                  {canEdit && (
+                    <button
+                      type="button"
+                      onClick={() => importInputRef.current?.click()}
+                      className="px-3 py-1.5 rounded-lg text-xs font-medium text-white/80 hover:text-white bg-white/10 transition-colors"
+                    >
+                      Import pack
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={openExport}
+                    disabled={prompts.length === 0}
+                    className="px-3 py-1.5 rounded-lg text-xs font-medium text-white/80 hover:text-white bg-white/10 transition-colors disabled:opacity-50"
+                  >
+                    Export pack
+                  </button>
+                </div>
+              </div>
               {prompts.length === 0 ? (
                 <p className="text-white/50 text-sm">No saved prompts yet. Create one to reuse with @handle in the control panel.</p>
               ) : (
@@ -199,17 +411,69 @@ const MyPromptsPage: React.FC<MyPromptsPageProps> = ({ user }) => {
                       <div className="p-4">
                         <div className="font-mono font-semibold text-blue-300">@{p.handle}</div>
                         <p className="text-white/70 text-sm mt-1 line-clamp-3">{p.prompt_text || '—'}</p>
+                        {canEdit && (
+                          <div className="flex gap-2 mt-3">
+                            <button
+                              type="button"
+                              onClick={() => openEdit(p)}
+                              className="px-3 py-1.5 rounded-lg text-xs font-medium text-white/80 hover:text-white bg-white/10 transition-colors"
+                            >
+                              Edit
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => handleDelete(p)}
+                              className="px-3 py-1.5 rounded-lg text-xs font-medium text-red-400/80 hover:text-red-400 bg-red-500/10 transition-colors"
+                            >
+                              Delete
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Wildcard lists - __name__ in a prompt draws one line per image */}
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="text-white/60 text-sm font-semibold uppercase tracking-wider">Wildcards</h2>
+                <button
+                  type="button"
+                  onClick={() => setWildcardEditor({ id: null, name: '', linesText: '' })}
+                  className="px-3 py-1.5 rounded-lg text-xs font-medium text-white/80 hover:text-white bg-white/10 transition-colors"
+                >
+                  + New wildcard
+                </button>
+              </div>
+              {wildcards.length === 0 ? (
+                <p className="text-white/50 text-sm">
+                  No wildcards yet. Create a list (e.g. lighting) and write <span className="font-mono text-blue-300">__lighting__</span> in a prompt to use a random line from it for each image.
+                </p>
+              ) : (
+                <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                  {wildcards.map((w) => (
+                    <div
+                      key={w.id}
+                      className="rounded-2xl border border-white/10 bg-white/5 backdrop-blur-sm overflow-hidden hover:border-white/20 transition-colors"
+                    >
+                      <div className="p-4">
+                        <div className="font-mono font-semibold text-blue-300">__{w.name}__</div>
+                        <p className="text-white/70 text-sm mt-1 line-clamp-3">{w.lines.join(' · ') || '—'}</p>
+                        <p className="text-white/40 text-xs mt-2">{w.lines.length} option{w.lines.length === 1 ? '' : 's'}</p>
                         <div className="flex gap-2 mt-3">
                           <button
                             type="button"
-                            onClick={() => openEdit(p)}
+                            onClick={() => setWildcardEditor({ id: w.id, name: w.name, linesText: w.lines.join('\n') })}
                             className="px-3 py-1.5 rounded-lg text-xs font-medium text-white/80 hover:text-white bg-white/10 transition-colors"
                           >
                             Edit
                           </button>
                           <button
                             type="button"
-                            onClick={() => handleDelete(p)}
+                            onClick={() => handleDeleteWildcard(w)}
                             className="px-3 py-1.5 rounded-lg text-xs font-medium text-red-400/80 hover:text-red-400 bg-red-500/10 transition-colors"
                           >
                             Delete
@@ -224,6 +488,246 @@ const MyPromptsPage: React.FC<MyPromptsPageProps> = ({ user }) => {
           </div>
       </div>
 
+      {exportDialog && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+          onClick={() => setExportDialog(null)}
+        >
+          <div
+            className="bg-[#0d0e10] border border-white/10 rounded-2xl shadow-xl w-full max-w-lg"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="p-6">
+              <h3 className="landing-font-display text-lg font-semibold text-white mb-4">Export prompt pack</h3>
+              <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+                <div>
+                  <div className="flex items-center justify-between mb-1.5">
+                    <p className="text-white/80 text-sm">Prompts</p>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setExportDialog({
+                          ...exportDialog,
+                          templateIds: exportDialog.templateIds.length === prompts.length ? [] : prompts.map((p) => p.id),
+                        })
+                      }
+                      className="text-xs text-blue-300 hover:text-blue-200"
+                    >
+                      {exportDialog.templateIds.length === prompts.length ? 'Select none' : 'Select all'}
+                    </button>
+                  </div>
+                  {prompts.map((p) => (
+                    <label key={p.id} className="flex items-center gap-2 py-1 text-sm text-white/80">
+                      <input
+                        type="checkbox"
+                        checked={exportDialog.templateIds.includes(p.id)}
+                        onChange={(e) =>
+                          setExportDialog({
+                            ...exportDialog,
+                            templateIds: e.target.checked
+                              ? [...exportDialog.templateIds, p.id]
+                              : exportDialog.templateIds.filter((id) => id !== p.id),
+                          })
+                        }
+                      />
+                      <span className="font-mono text-blue-300">@{p.handle}</span>
+                    </label>
+                  ))}
+                </div>
+                <div>
+                  <p className="text-white/80 text-sm mb-1.5">Moodboards (optional)</p>
+                  {exportDialog.moodboards === null ? (
+                    <p className="text-white/50 text-xs">Loading…</p>
+                  ) : exportDialog.moodboards.length === 0 ? (
+                    <p className="text-white/50 text-xs">No moodboards to include.</p>
+                  ) : (
+                    exportDialog.moodboards.map((m) => (
+                      <label key={m.id} className="flex items-center gap-2 py-1 text-sm text-white/80">
+                        <input
+                          type="checkbox"
+                          checked={exportDialog.moodboardIds.includes(m.id)}
+                          onChange={(e) =>
+                            setExportDialog({
+                              ...exportDialog,
+                              moodboardIds: e.target.checked
+                                ? [...exportDialog.moodboardIds, m.id]
+                                : exportDialog.moodboardIds.filter((id) => id !== m.id),
+                            })
+                          }
+                        />
+                        <span>{m.name}</span>
+                        <span className="text-white/40 text-xs">{m.reference_image_urls.length} images</span>
+                      </label>
+                    ))
+                  )}
+                </div>
+              </div>
+              <div className="flex gap-2 justify-end mt-6">
+                <button
+                  type="button"
+                  onClick={() => setExportDialog(null)}
+                  className="px-4 py-2 rounded-xl text-sm font-medium text-white/80 hover:text-white bg-white/10"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleExport}
+                  disabled={exportDialog.templateIds.length === 0 && exportDialog.moodboardIds.length === 0}
+                  className="px-4 py-2 rounded-xl text-sm font-medium bg-blue-500 hover:bg-blue-600 text-white disabled:opacity-50"
+                >
+                  Download
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {importDialog && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+          onClick={() => !importing && setImportDialog(null)}
+        >
+          <div
+            className="bg-[#0d0e10] border border-white/10 rounded-2xl shadow-xl w-full max-w-lg"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="p-6">
+              <h3 className="landing-font-display text-lg font-semibold text-white mb-1">Import prompt pack</h3>
+              <p className="text-white/50 text-xs mb-4">
+                {importDialog.pack.templates.length} prompt{importDialog.pack.templates.length === 1 ? '' : 's'}
+                {importDialog.items.some((item) => item.existing) && ' · handles you already use are marked below'}
+              </p>
+              <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+                {importDialog.items.map((item, index) => (
+                  <div key={item.template.handle} className="rounded-xl border border-white/10 bg-white/5 px-3 py-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-mono text-sm text-blue-300">@{item.template.handle}</span>
+                      {item.existing ? (
+                        <select
+                          value={item.action}
+                          onChange={(e) => updateImportItem(index, { action: e.target.value as HandleCollisionAction })}
+                          className="rounded-lg bg-white/5 border border-white/10 px-2 py-1 text-xs text-white focus:outline-none"
+                        >
+                          <option value="skip">Skip</option>
+                          <option value="rename">Rename</option>
+                          <option value="overwrite">Overwrite mine</option>
+                        </select>
+                      ) : (
+                        <span className="text-white/40 text-xs">New</span>
+                      )}
+                    </div>
+                    <p className="text-white/60 text-xs mt-1 line-clamp-2">{item.template.prompt_text || '—'}</p>
+                    {item.existing && item.action === 'rename' && (
+                      <input
+                        type="text"
+                        value={item.renameTo}
+                        onChange={(e) => updateImportItem(index, { renameTo: e.target.value })}
+                        placeholder="new handle"
+                        className="mt-2 w-full px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 text-white placeholder-white/40 text-xs font-mono focus:outline-none focus:border-blue-500/50"
+                      />
+                    )}
+                    {item.existing && item.action === 'overwrite' && (
+                      <p className="text-amber-300/80 text-xs mt-1">Replaces your text: {item.existing.prompt_text || '—'}</p>
+                    )}
+                  </div>
+                ))}
+                {importDialog.pack.moodboards.length > 0 && (
+                  <label className="flex items-center gap-2 pt-2 text-sm text-white/80">
+                    <input
+                      type="checkbox"
+                      checked={importDialog.includeMoodboards}
+                      onChange={(e) => setImportDialog({ ...importDialog, includeMoodboards: e.target.checked })}
+                    />
+                    Also add {importDialog.pack.moodboards.length} moodboard{importDialog.pack.moodboards.length === 1 ? '' : 's'} (
+                    {importDialog.pack.moodboards.map((m) => m.name).join(', ')})
+                  </label>
+                )}
+              </div>
+              <div className="flex gap-2 justify-end mt-6">
+                <button
+                  type="button"
+                  onClick={() => !importing && setImportDialog(null)}
+                  className="px-4 py-2 rounded-xl text-sm font-medium text-white/80 hover:text-white bg-white/10"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleImport}
+                  disabled={importing}
+                  className="px-4 py-2 rounded-xl text-sm font-medium bg-blue-500 hover:bg-blue-600 text-white disabled:opacity-50"
+                >
+                  {importing ? 'Importing…' : 'Import'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {wildcardEditor && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+          onClick={() => !wildcardSaving && setWildcardEditor(null)}
+        >
+          <div
+            className="bg-[#0d0e10] border border-white/10 rounded-2xl shadow-xl w-full max-w-lg"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="p-6">
+              <h3 className="landing-font-display text-lg font-semibold text-white mb-4">
+                {wildcardEditor.id ? 'Edit wildcard' : 'New wildcard'}
+              </h3>
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-white/80 text-sm mb-1.5">Name (e.g. lighting — use as __lighting__ in prompts)</label>
+                  <input
+                    type="text"
+                    value={wildcardEditor.name}
+                    onChange={(e) => setWildcardEditor({ ...wildcardEditor, name: e.target.value })}
+                    placeholder="lighting"
+                    className="w-full px-4 py-2.5 rounded-xl bg-white/5 border border-white/10 text-white placeholder-white/40 text-sm focus:outline-none focus:border-blue-500/50"
+                  />
+                  {wildcardEditor.name.trim() && (
+                    <p className="text-white/50 text-xs mt-1">Use as <span className="font-mono text-blue-300">__{normalizeWildcardName(wildcardEditor.name) || '…'}__</span> in the control panel</p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-white/80 text-sm mb-1.5">Options (one per line)</label>
+                  <textarea
+                    value={wildcardEditor.linesText}
+                    onChange={(e) => setWildcardEditor({ ...wildcardEditor, linesText: e.target.value })}
+                    placeholder={'golden hour light\nsoft studio light\nneon rim light'}
+                    rows={8}
+                    className="w-full px-4 py-2.5 rounded-xl bg-white/5 border border-white/10 text-white placeholder-white/40 text-sm focus:outline-none focus:border-blue-500/50 resize-none"
+                  />
+                  <p className="text-white/50 text-xs mt-1">{parseWildcardLines(wildcardEditor.linesText).length} options</p>
+                </div>
+              </div>
+              <div className="flex gap-2 justify-end mt-6">
+                <button
+                  type="button"
+                  onClick={() => !wildcardSaving && setWildcardEditor(null)}
+                  className="px-4 py-2 rounded-xl text-sm font-medium text-white/80 hover:text-white bg-white/10"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleSaveWildcard}
+                  disabled={wildcardSaving || !wildcardEditor.name.trim()}
+                  className="px-4 py-2 rounded-xl text-sm font-medium bg-blue-500 hover:bg-blue-600 text-white disabled:opacity-50"
+                >
+                  {wildcardSaving ? 'Saving…' : wildcardEditor.id ? 'Save' : 'Create'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {createOpen && (
         <div
           className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
@@ -252,7 +756,9 @@ const MyPromptsPage: React.FC<MyPromptsPageProps> = ({ user }) => {
                   )}
                 </div>
                 <div>
-                  <label className="block text-white/80 text-sm mb-1.5">Prompt text</label>
+                  <label className="block text-white/80 text-sm mb-1.5">
+                    Prompt text <span className="text-white/50">(variables: {'{{name}}'} or {'{{name=default}}'})</span>
+                  </label>
                   <textarea
                     value={createPromptText}
                     onChange={(e) => setCreatePromptText(e.target.value)}
@@ -261,6 +767,30 @@ const MyPromptsPage: React.FC<MyPromptsPageProps> = ({ user }) => {
                     className="w-full px-4 py-2.5 rounded-xl bg-white/5 border border-white/10 text-white placeholder-white/40 text-sm focus:outline-none focus:border-blue-500/50 resize-none"
                   />
                 </div>
+                {(() => {
+                  const variables = parseTemplateVariables(createPromptText);
+                  if (variables.length === 0) return null;
+                  return (
+                    <div className="space-y-2">
+                      <p className="text-white/80 text-sm">Preview</p>
+                      {variables.map((variable) => (
+                        <label key={variable.name} className="flex items-center gap-2 text-xs">
+                          <span className="w-28 flex-shrink-0 font-mono text-white/60 truncate" title={variable.name}>{variable.name}</span>
+                          <input
+                            type="text"
+                            value={previewValues[variable.name] ?? ''}
+                            onChange={(e) => setPreviewValues((prev) => ({ ...prev, [variable.name]: e.target.value }))}
+                            placeholder={variable.defaultValue ?? 'required when inserted'}
+                            className="flex-1 px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 text-white placeholder-white/40 focus:outline-none focus:border-blue-500/50"
+                          />
+                        </label>
+                      ))}
+                      <p className="rounded-xl bg-white/5 border border-white/10 px-4 py-2.5 text-white/70 text-sm whitespace-pre-wrap">
+                        {fillTemplateVariables(createPromptText, previewValues)}
+                      </p>
+                    </div>
+                  );
+                })()}
               </div>
               <div className="flex gap-2 justify-end mt-6">
                 <button
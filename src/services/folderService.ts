@@ -1,6 +1,7 @@
 /**
  * Folders (projects) for organizing images.
  * "My Kreations" = folder_id null. Other folders = user-created projects.
+ * workspaceId null = the user's personal folders; otherwise that workspace's shared folders.
  */
 
 import { supabase } from '../lib/supabase';
@@ -8,17 +9,20 @@ import { supabase } from '../lib/supabase';
 export interface Folder {
   id: string;
   user_id: string;
+  workspace_id: string | null;
   name: string;
   created_at: string;
 }
 
-export async function fetchFolders(userId: string): Promise<Folder[]> {
+export async function fetchFolders(userId: string, workspaceId: string | null = null): Promise<Folder[]> {
   if (!supabase || !userId) return [];
-  const { data, error } = await supabase
+  const query = supabase
     .from('folders')
-    .select('id, user_id, name, created_at')
-    .eq('user_id', userId)
+    .select('id, user_id, workspace_id, name, created_at')
     .order('created_at', { ascending: true });
+  const { data, error } = workspaceId
+    ? await query.eq('workspace_id', workspaceId)
+    : await query.eq('user_id', userId).is('workspace_id', null);
   if (error) {
     console.error('Failed to fetch folders:', error);
     throw error;
@@ -26,38 +30,37 @@ export async function fetchFolders(userId: string): Promise<Folder[]> {
   return (data ?? []) as Folder[];
 }
 
-export async function createFolder(userId: string, name: string): Promise<Folder> {
+export async function createFolder(userId: string, name: string, workspaceId: string | null = null): Promise<Folder> {
   if (!supabase || !userId) throw new Error('Not authenticated');
   const trimmed = name.trim() || 'Untitled project';
   const { data, error } = await supabase
     .from('folders')
-    .insert({ user_id: userId, name: trimmed })
+    .insert({ user_id: userId, name: trimmed, workspace_id: workspaceId })
     .select()
     .single();
   if (error) throw error;
   return data as Folder;
 }
 
-export async function updateFolder(folderId: string, userId: string, name: string): Promise<Folder> {
+export async function updateFolder(
+  folderId: string,
+  userId: string,
+  name: string,
+  workspaceId: string | null = null
+): Promise<Folder> {
   if (!supabase) throw new Error('Supabase not configured');
   const trimmed = name.trim() || 'Untitled project';
-  const { data, error } = await supabase
-    .from('folders')
-    .update({ name: trimmed })
-    .eq('id', folderId)
-    .eq('user_id', userId)
+  const query = supabase.from('folders').update({ name: trimmed }).eq('id', folderId);
+  const { data, error } = await (workspaceId ? query.eq('workspace_id', workspaceId) : query.eq('user_id', userId))
     .select()
     .single();
   if (error) throw error;
   return data as Folder;
 }
 
-export async function deleteFolder(folderId: string, userId: string): Promise<void> {
+export async function deleteFolder(folderId: string, userId: string, workspaceId: string | null = null): Promise<void> {
   if (!supabase) throw new Error('Supabase not configured');
-  const { error } = await supabase
-    .from('folders')
-    .delete()
-    .eq('id', folderId)
-    .eq('user_id', userId);
+  const query = supabase.from('folders').delete().eq('id', folderId);
+  const { error } = workspaceId ? await query.eq('workspace_id', workspaceId) : await query.eq('user_id', userId);
   if (error) throw error;
 }
@@ -0,0 +1,57 @@
+/**
+ * Client-side generation queue (jobs waiting for a concurrency slot).
+ * Persisted per user in localStorage so a reload mid-batch picks the queue back up;
+ * jobs the server already accepted are tracked separately (see addActiveJob in imageGeneration).
+ */
+
+import type { EditRegion } from '../config/edits';
+import type { ImageGenerationParams } from './imageGeneration';
+
+export interface QueuedJob {
+  id: string;
+  params: ImageGenerationParams;
+  /** Folder ID at job start - used when saving so image goes to correct folder even if user switches folders */
+  folderId: string | null;
+  /** Credits taken off the displayed balance when queued - given back if cancelled before it starts */
+  credits: number;
+  /** Shared by the jobs one submit was expanded into (prompt matrix, wildcard draws); results keep their placeholders' slots */
+  group?: string;
+  /** Set for /api/edit jobs: a mask inpaint (params.prompt = instruction) or region edits */
+  edit?: { imageUrl: string; maskData?: string; regions?: EditRegion[] };
+  /** Set for /api/upscale jobs; params.imageSize is the target size */
+  upscale?: { imageId: string };
+  /** Set for /api/outpaint jobs; params.aspectRatio is the target ratio */
+  outpaint?: { imageId: string };
+}
+
+const QUEUE_KEY_PREFIX = 'kreator-generation-queue:';
+
+function isQueuedJob(value: unknown): value is QueuedJob {
+  const job = value as Partial<QueuedJob> | null;
+  return (
+    typeof job?.id === 'string' &&
+    typeof job.params?.prompt === 'string' &&
+    typeof job.params.aspectRatio === 'string' &&
+    typeof job.params.imageSize === 'string' &&
+    typeof job.credits === 'number'
+  );
+}
+
+/** The user's saved queue in order; malformed entries are dropped */
+export function loadQueuedJobs(userId: string): QueuedJob[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(QUEUE_KEY_PREFIX + userId) || '[]') as unknown;
+    return Array.isArray(stored) ? stored.filter(isQueuedJob) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveQueuedJobs(userId: string, jobs: QueuedJob[]): void {
+  try {
+    if (jobs.length === 0) localStorage.removeItem(QUEUE_KEY_PREFIX + userId);
+    else localStorage.setItem(QUEUE_KEY_PREFIX + userId, JSON.stringify(jobs));
+  } catch {
+    console.warn('Failed to save the generation queue to localStorage');
+  }
+}
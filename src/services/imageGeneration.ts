@@ -3,53 +3,110 @@
  * Calls our backend API proxy (keeps API key secure)
  */
 
-const API_BASE = (import.meta.env.VITE_API_BASE_URL || '').replace(/\/$/, '');
+import type { EditRegion } from '../config/edits';
+import type { DerivationType } from '../config/lineage';
+import type { AspectRatio, ImageModelId, ImageSize } from '../config/models';
+import type { VariationStrength } from '../config/variations';
+import type { WildcardResolution } from '../config/wildcards';
+import { getAuthHeaders } from '../lib/supabase';
+import { isJobStreamConnected, watchJob, type JobEvent } from './jobEvents';
 
-export const IMAGE_MODELS = {
-  'gemini-3-pro-image-preview': 'Nano Banana Pro',
-  'gemini-3.1-flash-image-preview': 'Nano Banana 2',
-} as const;
+export { IMAGE_MODELS, type ImageModelId } from '../config/models';
 
-export type ImageModelId = keyof typeof IMAGE_MODELS;
+const API_BASE = (import.meta.env.VITE_API_BASE_URL || '').replace(/\/$/, '');
 
 export interface ImageGenerationParams {
   prompt: string;
-  aspectRatio: '1:1' | '3:2' | '4:3' | '16:9' | '9:16' | '2:3' | '3:4' | '21:9' | '5:4' | '4:5';
-  imageSize: '1K' | '2K' | '4K';
+  aspectRatio: AspectRatio;
+  imageSize: ImageSize;
   /** Model ID for LaoZhang API (default: gemini-3-pro-image-preview) */
   model?: ImageModelId;
-  /** User ID for backend metadata save (survives reload) */
-  userId?: string;
-  /** Base64 data URLs - use when backend has high body limit (Heroku) or no ref URLs */
-  referenceImages?: string[];
-  /** Supabase public URLs - backend fetches these; avoids payload limits entirely */
+  /** Supabase public URLs (generated-images bucket) - backend fetches these at full quality; upload local files first */
   referenceImageUrls?: string[];
+  /** Folder the backend saves the image into (null = My Kreations) */
+  folderId?: string | null;
+  /** Lineage: the image this one is derived from (edits always record derivationType 'edit') */
+  parent?: { imageId: string; derivationType: DerivationType };
+  /** Variations: referenceImageUrls[0] is the source image and parent a 'variation' of it */
+  variationStrength?: VariationStrength;
+  /** Wildcard draws already applied to `prompt` - stored on the image */
+  wildcards?: WildcardResolution;
+  /** Team workspace whose credit pool pays for the job (null = the user's own credits) */
+  workspaceId?: string | null;
+}
+
+/**
+ * Edit of an existing image (/api/edit), either a mask inpaint (prompt = instruction for the masked area)
+ * or structured region edits (prompt = optional overall note). Set exactly one of maskData / regions.
+ */
+export interface ImageEditParams extends ImageGenerationParams {
+  /** Source image (storage URL) */
+  imageUrl: string;
+  /** Same-size PNG, white = repaint, black = keep (data: URL - sent inline, never stored) */
+  maskData?: string;
+  regions?: EditRegion[];
+}
+
+/** Upscale (/api/upscale): imageSize is the target size; prompt/ratio/model only label the placeholder */
+export interface ImageUpscaleParams extends ImageGenerationParams {
+  imageId: string;
+}
+
+/** Outpaint (/api/outpaint): aspectRatio is the target ratio; the source's prompt/size/model are used */
+export interface ImageOutpaintParams extends ImageGenerationParams {
+  imageId: string;
 }
 
+/** Image as saved by the backend (images row + public URLs) */
 export interface GeneratedImage {
   id: string;
   url: string;
-  storagePath?: string;
-  thumbUrl?: string;
+  storagePath: string;
+  thumbUrl: string;
   thumbStoragePath?: string;
-  base64Data: string;
+  /** Responsive WebP thumbnails for <img srcset> */
+  thumbSrcSet?: string;
   timestamp: number;
   prompt: string;
   aspectRatio: string;
   imageSize: string;
+  /** Model that actually produced the image (echoed back by the backend) */
+  model?: ImageModelId;
   referenceImageUrls?: string[];
+  folderId?: string | null;
+  /** Boxes + instructions when the image is a region edit */
+  editRegions?: EditRegion[];
+  parentImageId?: string;
+  derivationType?: DerivationType;
+  wildcards?: WildcardResolution;
 }
 
 const MAX_RETRIES = 3;
 const POLL_INTERVAL_MS = 1500;
+/** Safety poll while the events stream is connected (updates normally arrive as events) */
+const STREAM_POLL_INTERVAL_MS = 15 * 1000;
 const POLL_TIMEOUT_MS = 5 * 60 * 1000; // 5 min max
 const ACTIVE_JOBS_KEY = 'kreator-active-job-ids';
 
-export function addActiveJob(jobId: string): void {
+/** A job the server accepted, kept in localStorage so a reload can keep waiting for it */
+export interface ActiveJob {
+  jobId: string;
+  /** Placeholder shape while it renders */
+  aspectRatio: string;
+  imageSize: string;
+}
+
+function readActiveJobs(): ActiveJob[] {
+  const stored = JSON.parse(localStorage.getItem(ACTIVE_JOBS_KEY) || '[]') as (ActiveJob | string)[];
+  // Entries from before the placeholder shape was stored are bare job ids
+  return stored.map((entry) => (typeof entry === 'string' ? { jobId: entry, aspectRatio: '3:2', imageSize: '1K' } : entry));
+}
+
+export function addActiveJob(job: ActiveJob): void {
   try {
-    const ids = JSON.parse(localStorage.getItem(ACTIVE_JOBS_KEY) || '[]') as string[];
-    if (!ids.includes(jobId)) ids.push(jobId);
-    localStorage.setItem(ACTIVE_JOBS_KEY, JSON.stringify(ids));
+    const jobs = readActiveJobs();
+    if (!jobs.some((j) => j.jobId === job.jobId)) jobs.push(job);
+    localStorage.setItem(ACTIVE_JOBS_KEY, JSON.stringify(jobs));
   } catch {
     // ignore
   }
@@ -57,142 +114,264 @@ export function addActiveJob(jobId: string): void {
 
 export function removeActiveJob(jobId: string): void {
   try {
-    const ids = (JSON.parse(localStorage.getItem(ACTIVE_JOBS_KEY) || '[]') as string[]).filter((id) => id !== jobId);
-    localStorage.setItem(ACTIVE_JOBS_KEY, JSON.stringify(ids));
+    const jobs = readActiveJobs().filter((j) => j.jobId !== jobId);
+    localStorage.setItem(ACTIVE_JOBS_KEY, JSON.stringify(jobs));
   } catch {
     // ignore
   }
 }
 
-export function getActiveJobIds(): string[] {
+export function getActiveJobs(): ActiveJob[] {
   try {
-    return JSON.parse(localStorage.getItem(ACTIVE_JOBS_KEY) || '[]') as string[];
+    return readActiveJobs();
   } catch {
     return [];
   }
 }
 
-async function sleep(ms: number): Promise<void> {
-  return new Promise((r) => setTimeout(r, ms));
+/** Resolves early (without throwing) when `signal` aborts */
+async function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return;
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+/** Thrown (name 'AbortError') when the caller's signal cancels a generation */
+function cancelledError(): DOMException {
+  return new DOMException('Generation cancelled', 'AbortError');
 }
 
-function parseResult(
-  data: { id?: string; url?: string; storagePath?: string; thumbUrl?: string; thumbStoragePath?: string; base64Data?: string; prompt?: string; aspectRatio?: string; imageSize?: string },
-  params: ImageGenerationParams
-): GeneratedImage {
-  const resolvedPrompt = data.prompt || params.prompt;
-  const resolvedAspect = data.aspectRatio || params.aspectRatio;
-  const resolvedSize = data.imageSize || params.imageSize;
-  if (data.url && data.storagePath) {
-    return {
-      id: data.id || `img-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
-      url: data.url,
-      storagePath: data.storagePath,
-      thumbUrl: data.thumbUrl ?? data.url,
-      thumbStoragePath: data.thumbStoragePath,
-      base64Data: '',
-      timestamp: Date.now(),
-      prompt: resolvedPrompt,
-      aspectRatio: resolvedAspect,
-      imageSize: resolvedSize,
-    };
+export function isCancelledError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError';
+}
+
+/**
+ * Cancel a pending/running server job; its credits are refunded server-side.
+ * Returns false when the job had already finished (or the request failed).
+ */
+export async function cancelGenerationJob(jobId: string): Promise<boolean> {
+  try {
+    const res = await fetch(`${API_BASE}/api/generate/cancel/${jobId}`, {
+      method: 'POST',
+      headers: await getAuthHeaders(),
+    });
+    return res.ok;
+  } catch {
+    return false;
+  } finally {
+    removeActiveJob(jobId);
   }
-  if (data.base64Data) {
-    return {
-      id: `img-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
-      url: `data:image/png;base64,${data.base64Data}`,
-      storagePath: undefined,
-      base64Data: data.base64Data,
-      timestamp: Date.now(),
-      prompt: resolvedPrompt,
-      aspectRatio: resolvedAspect,
-      imageSize: resolvedSize,
-    };
+}
+
+type SavedImageResponse = {
+  id?: string;
+  url?: string;
+  storagePath?: string;
+  thumbUrl?: string;
+  thumbStoragePath?: string | null;
+  thumbSrcSet?: string;
+  prompt?: string;
+  aspectRatio?: string;
+  imageSize?: string;
+  model?: ImageModelId;
+  referenceImageUrls?: string[];
+  folderId?: string | null;
+  editRegions?: EditRegion[] | null;
+  parentImageId?: string | null;
+  derivationType?: DerivationType | null;
+  wildcards?: WildcardResolution | null;
+};
+
+type JobStatusBody = SavedImageResponse & { status?: string; error?: string };
+
+function pollInterval(): number {
+  return isJobStreamConnected() ? STREAM_POLL_INTERVAL_MS : POLL_INTERVAL_MS;
+}
+
+/** A status route body or stream event: the saved image, a thrown failure/cancel, or null while the job runs */
+function settleJob(data: JobStatusBody | JobEvent, params: ImageGenerationParams): GeneratedImage | null {
+  if (data.status === 'failed') throw new Error(data.error || 'Failed to generate image');
+  if (data.status === 'cancelled') throw cancelledError();
+  if (data.url) return parseResult(data as JobStatusBody, params);
+  return null;
+}
+
+function parseResult(data: SavedImageResponse, params: ImageGenerationParams): GeneratedImage {
+  if (!data.id || !data.url || !data.storagePath) {
+    throw new Error('No image data returned');
   }
-  throw new Error('No image data returned');
+  return {
+    id: data.id,
+    url: data.url,
+    storagePath: data.storagePath,
+    thumbUrl: data.thumbUrl ?? data.url,
+    thumbStoragePath: data.thumbStoragePath ?? undefined,
+    thumbSrcSet: data.thumbSrcSet || undefined,
+    timestamp: Date.now(),
+    prompt: data.prompt || params.prompt,
+    aspectRatio: data.aspectRatio || params.aspectRatio,
+    imageSize: data.imageSize || params.imageSize,
+    model: data.model || params.model,
+    referenceImageUrls: data.referenceImageUrls ?? params.referenceImageUrls,
+    folderId: data.folderId !== undefined ? data.folderId : params.folderId,
+    editRegions: data.editRegions ?? undefined,
+    parentImageId: data.parentImageId ?? undefined,
+    derivationType: data.derivationType ?? undefined,
+    wildcards: data.wildcards ?? undefined,
+  };
 }
 
 /**
  * Generate one image via our API proxy (key stays on server)
  * Uses async job flow: POST returns 202 + jobId, then polls for result (avoids Heroku 30s timeout)
  * Retries POST on 429/503 with exponential backoff
+ * Aborting `signal` cancels the server job (refunded) and rejects with an AbortError
  */
-export async function generateImage(params: ImageGenerationParams): Promise<GeneratedImage> {
-  const postUrl = `${API_BASE}/api/generate`;
-  let lastError: Error | null = null;
-
+export async function generateImage(params: ImageGenerationParams, signal?: AbortSignal): Promise<GeneratedImage> {
   const body: Record<string, unknown> = {
     prompt: params.prompt,
     aspectRatio: params.aspectRatio,
     imageSize: params.imageSize,
   };
   if (params.model) body.model = params.model;
-  if (params.userId) body.userId = params.userId;
-  // referenceImages (base64) for generation - includes main ref from blob uploads (moodboard flow)
-  if (params.referenceImages?.length) {
-    body.referenceImages = params.referenceImages;
+  if (params.folderId) body.folderId = params.folderId;
+  if (params.parent) {
+    body.parentImageId = params.parent.imageId;
+    body.derivationType = params.parent.derivationType;
   }
-  // referenceImageUrls for DB persistence (backend saves for modal display) - send when we have URLs
+  if (params.variationStrength) body.variationStrength = params.variationStrength;
+  if (params.wildcards) body.wildcards = params.wildcards;
+  if (params.workspaceId) body.workspaceId = params.workspaceId;
+  // Backend fetches the references itself (and they are saved with the image for Re-run)
   if (params.referenceImageUrls?.length) {
     body.referenceImageUrls = params.referenceImageUrls;
   }
+  return runImageJob('/api/generate', body, params, signal);
+}
+
+/** Inpaint a masked area or apply region edits; the result is saved as a new image (same job flow as generateImage) */
+export async function editImage(params: ImageEditParams, signal?: AbortSignal): Promise<GeneratedImage> {
+  const body: Record<string, unknown> = {
+    prompt: params.prompt,
+    imageUrl: params.imageUrl,
+    aspectRatio: params.aspectRatio,
+    imageSize: params.imageSize,
+  };
+  if (params.maskData) body.maskData = params.maskData;
+  if (params.regions) body.regions = params.regions;
+  if (params.model) body.model = params.model;
+  if (params.folderId) body.folderId = params.folderId;
+  if (params.parent) body.parentImageId = params.parent.imageId;
+  if (params.workspaceId) body.workspaceId = params.workspaceId;
+  return runImageJob('/api/edit', body, { ...params, referenceImageUrls: [params.imageUrl] }, signal);
+}
+
+/** Save a 2K/4K copy of a stored image as its child, in the original's folder (same job flow as generateImage) */
+export async function upscaleImage(params: ImageUpscaleParams, signal?: AbortSignal): Promise<GeneratedImage> {
+  const body = { imageId: params.imageId, targetSize: params.imageSize, workspaceId: params.workspaceId ?? null };
+  return runImageJob('/api/upscale', body, params, signal);
+}
+
+/** Extend a stored image to another aspect ratio (original centered) and save it as its child */
+export async function outpaintImage(params: ImageOutpaintParams, signal?: AbortSignal): Promise<GeneratedImage> {
+  const body = { imageId: params.imageId, aspectRatio: params.aspectRatio, workspaceId: params.workspaceId ?? null };
+  return runImageJob('/api/outpaint', body, params, signal);
+}
+
+/**
+ * POST to a job route, then poll /api/generate/status until the saved image comes back.
+ * The POST itself isn't aborted (the job would be charged without us learning its id);
+ * an abort during polling cancels the job through the cancel route instead.
+ */
+async function runImageJob(
+  path: string,
+  body: Record<string, unknown>,
+  params: ImageGenerationParams,
+  signal?: AbortSignal
+): Promise<GeneratedImage> {
+  const postUrl = `${API_BASE}${path}`;
+  let lastError: Error | null = null;
 
   for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+    if (signal?.aborted) throw cancelledError();
     const response = await fetch(postUrl, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
       body: JSON.stringify(body),
     });
 
     const data = await response.json().catch(() => ({}));
 
-    // Async flow: 202 + jobId → poll for result
+    // Async flow: 202 + jobId → wait for the job's events (or poll while the stream is down)
     if (response.status === 202 && data.jobId) {
       const jobId = data.jobId as string;
-      addActiveJob(jobId);
+      addActiveJob({ jobId, aspectRatio: params.aspectRatio, imageSize: params.imageSize });
       const statusUrl = `${API_BASE}/api/generate/status/${jobId}`;
+      const watch = watchJob(jobId);
       const start = Date.now();
+      let tooLateToCancel = false;
       try {
         for (;;) {
-          await sleep(POLL_INTERVAL_MS);
+          const event = await watch.next(pollInterval(), tooLateToCancel ? undefined : signal);
+          if (signal?.aborted && !tooLateToCancel) {
+            if (await cancelGenerationJob(jobId)) throw cancelledError();
+            // Already finished - keep waiting so a saved image still reaches the grid
+            tooLateToCancel = true;
+          }
           if (Date.now() - start > POLL_TIMEOUT_MS) {
             throw new Error('Generation timed out');
           }
-          const statusRes = await fetch(statusUrl);
-          const statusData = await statusRes.json().catch(() => ({}));
-          if (statusRes.status === 500 && statusData.error) {
-            throw new Error(statusData.error);
+          if (event) {
+            const image = settleJob(event, params);
+            if (image) return image;
+            continue;
           }
-          if (statusRes.ok && (statusData.url || statusData.base64Data)) {
-            return parseResult(statusData, params);
+          const statusRes = await fetch(statusUrl, { headers: await getAuthHeaders() });
+          const statusData = (await statusRes.json().catch(() => ({}))) as JobStatusBody;
+          if ((statusRes.status === 500 || statusRes.status === 404) && statusData.error) {
+            throw new Error(statusData.error);
           }
+          // 409 = cancelled elsewhere (another tab, or the cancel route raced this poll)
+          const image = settleJob(statusData, params);
+          if (image) return image;
         }
       } finally {
+        watch.close();
         removeActiveJob(jobId);
       }
     }
 
-    // Sync fallback: 200 with image data (legacy)
-    if (response.ok && (data.url || data.base64Data)) {
+    // Sync fallback: 200 with the saved image
+    if (response.ok && data.url) {
       return parseResult(data, params);
     }
 
     if (response.status === 402) {
       throw new Error(data.error || 'Insufficient credits');
     }
+    if (response.status === 401) {
+      throw new Error(data.error || 'Please sign in again');
+    }
     lastError = new Error(data.error || `Generation failed: ${response.status}`);
     const retryable = response.status === 429 || response.status === 503;
     if (!retryable || attempt === MAX_RETRIES - 1) throw lastError;
 
     const backoffMs = 1000 * Math.pow(2, attempt);
-    await sleep(backoffMs);
+    await sleep(backoffMs, signal);
   }
 
   throw lastError ?? new Error('Generation failed');
 }
 
 /**
- * Poll a job until complete (for recovery after reload).
+ * Wait for a job to finish (for recovery after reload) - on the events stream, or by polling while it's down.
  * Returns true if job completed (success or error), false if still pending after timeout.
  * Calls onComplete(jobId) when done so the caller can remove the placeholder and refetch.
  */
@@ -203,29 +382,35 @@ export async function pollJobUntilComplete(
 ): Promise<boolean> {
   const API_BASE = (import.meta.env.VITE_API_BASE_URL || '').replace(/\/$/, '');
   const statusUrl = `${API_BASE}/api/generate/status/${jobId}`;
+  const watch = watchJob(jobId);
+  const finish = (completed: boolean) => {
+    watch.close();
+    removeActiveJob(jobId);
+    onComplete(jobId);
+    return completed;
+  };
   const start = Date.now();
   while (Date.now() - start < timeoutMs) {
-    await sleep(POLL_INTERVAL_MS);
+    const event = await watch.next(pollInterval());
+    if (event) {
+      if (event.status !== 'pending' && event.status !== 'running') return finish(true);
+      continue;
+    }
     try {
-      const res = await fetch(statusUrl);
+      const res = await fetch(statusUrl, { headers: await getAuthHeaders() });
       const data = await res.json().catch(() => ({}));
-      if (res.status === 500 && data.error) {
-        removeActiveJob(jobId);
-        onComplete(jobId);
-        return true;
+      // 404: job row is gone (or never existed on this deployment) - nothing left to wait for; 409: cancelled
+      if ((res.status === 500 || res.status === 404 || res.status === 409) && data.error) {
+        return finish(true);
       }
-      if (res.ok && (data.url || data.base64Data)) {
-        removeActiveJob(jobId);
-        onComplete(jobId);
-        return true;
+      if (res.ok && data.url) {
+        return finish(true);
       }
     } catch {
       // keep polling
     }
   }
-  removeActiveJob(jobId);
-  onComplete(jobId);
-  return false;
+  return finish(false);
 }
 
 const DELAY_MS = 2000; // Pause between requests to avoid 429 rate limits
@@ -258,7 +443,7 @@ export async function generateBatchImages(
 /**
  * Convert file to base64 for reference images
  */
-export async function fileToBase64(file: File): Promise<string> {
+export async function fileToBase64(file: Blob): Promise<string> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = () => resolve(reader.result as string);
@@ -3,37 +3,40 @@
  */
 
 import { supabase } from '../lib/supabase';
+import type { EditRegion } from '../config/edits';
+import type { DerivationType } from '../config/lineage';
+import { getEditCost, getImageCost, getUpscaleCost, type ImageCost } from '../config/pricing';
+import type { WildcardResolution } from '../config/wildcards';
 
 const BUCKET_NAME = 'generated-images';
 const REFS_PATH_PREFIX = 'refs/';
 
+const REFERENCE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+  'image/heif': 'heif',
+};
+
 /**
- * Upload reference image to Supabase Storage.
- * Returns public URL - backend will fetch from this URL to avoid payload limits.
- * Path: refs/{timestamp}-{random}.jpg (same bucket, separate path)
+ * Upload a reference image file/blob as-is (no recompression) to Supabase Storage.
+ * Returns public URL - backend fetches from this URL and detects the real type itself.
+ * Path: refs/{timestamp}-{random}.{ext} (same bucket, separate path)
  */
-export async function uploadReferenceImage(base64DataUrl: string): Promise<string> {
+export async function uploadReferenceBlob(blob: Blob): Promise<string> {
   if (!supabase) {
     throw new Error('Supabase is not configured');
   }
 
-  const base64Clean = base64DataUrl.replace(/^data:image\/\w+;base64,/, '');
-  const ext = base64DataUrl.includes('image/png') ? 'png' : 'jpg';
-  const fileName = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}.${ext}`;
+  const contentType = blob.type in REFERENCE_EXTENSIONS ? blob.type : 'image/jpeg';
+  const fileName = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}.${REFERENCE_EXTENSIONS[contentType]}`;
   const storagePath = REFS_PATH_PREFIX + fileName;
 
-  const byteCharacters = atob(base64Clean);
-  const byteNumbers = new Array(byteCharacters.length);
-  for (let i = 0; i < byteCharacters.length; i++) {
-    byteNumbers[i] = byteCharacters.charCodeAt(i);
-  }
-  const byteArray = new Uint8Array(byteNumbers);
-  const blob = new Blob([byteArray], { type: ext === 'png' ? 'image/png' : 'image/jpeg' });
-
   const { error: uploadError } = await supabase.storage
     .from(BUCKET_NAME)
     .upload(storagePath, blob, {
-      contentType: ext === 'png' ? 'image/png' : 'image/jpeg',
+      contentType,
       upsert: false,
       cacheControl: '31536000', // 1 year - reduce repeated downloads from CDN
     });
@@ -46,6 +49,41 @@ export async function uploadReferenceImage(base64DataUrl: string): Promise<strin
   return urlData.publicUrl;
 }
 
+/**
+ * Upload a base64 data URL reference image. Returns public URL.
+ */
+export async function uploadReferenceImage(base64DataUrl: string): Promise<string> {
+  const mimeMatch = base64DataUrl.match(/^data:(image\/[\w+.-]+);base64,/);
+  const base64Clean = base64DataUrl.replace(/^data:image\/[\w+.-]+;base64,/, '');
+
+  const byteCharacters = atob(base64Clean);
+  const byteNumbers = new Array(byteCharacters.length);
+  for (let i = 0; i < byteCharacters.length; i++) {
+    byteNumbers[i] = byteCharacters.charCodeAt(i);
+  }
+  const byteArray = new Uint8Array(byteNumbers);
+  return uploadReferenceBlob(new Blob([byteArray], { type: mimeMatch?.[1] ?? 'image/jpeg' }));
+}
+
+/**
+ * True for public URLs in our bucket - the only http(s) references the backend will fetch.
+ */
+export function isStorageImageUrl(url: string): boolean {
+  if (!supabase) return false;
+  return url.startsWith(supabase.storage.from(BUCKET_NAME).getPublicUrl('').data.publicUrl);
+}
+
+/**
+ * Turn any reference the UI holds into a URL the backend will fetch:
+ * storage URLs pass through, blob:/data: URLs (local files, annotated canvases) are uploaded first.
+ */
+export async function ensureReferenceImageUrl(url: string): Promise<string> {
+  if (url.startsWith('http://') || url.startsWith('https://')) return url;
+  if (url.startsWith('data:')) return uploadReferenceImage(url);
+  const response = await fetch(url);
+  return uploadReferenceBlob(await response.blob());
+}
+
 /**
  * Upload multiple reference images to Supabase. Returns array of public URLs.
  * Use these URLs with the backend to avoid hitting request body limits.
@@ -68,143 +106,21 @@ export interface StoredImage {
   image_size: string | null;
   storage_path: string;
   thumb_storage_path?: string | null;
+  /** width → storage path of the WebP thumbnails ({} when the backfill couldn't process the image) */
+  thumb_variants?: Record<string, string> | null;
   file_name: string | null;
   reference_image_urls?: string[] | null;
+  model?: string | null;
+  /** Boxes + instructions for region edits (/api/edit), null otherwise */
+  edit_regions?: EditRegion[] | null;
+  /** Lineage: image this one was derived from, and how */
+  parent_image_id?: string | null;
+  derivation_type?: DerivationType | null;
+  /** Wildcard values drawn for the (already resolved) prompt */
+  wildcards?: WildcardResolution | null;
   url: string; // Full quality URL (for modal)
   thumbUrl?: string; // Thumbnail URL (for grid), from thumb_storage_path or full URL
-}
-
-/**
- * Upload base64 image to Supabase Storage and save metadata to DB
- */
-export async function saveImageToSupabase(
-  base64Data: string,
-  prompt: string,
-  aspectRatio: string,
-  imageSize: string,
-  referenceImageUrls?: string[],
-  folderId?: string | null
-): Promise<StoredImage> {
-  if (!supabase) {
-    throw new Error('Supabase is not configured. Add VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY to .env');
-  }
-
-  const fileName = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}.png`;
-  const storagePath = fileName;
-
-  // Convert base64 to blob
-  const base64Clean = base64Data.replace(/^data:image\/\w+;base64,/, '');
-  const byteCharacters = atob(base64Clean);
-  const byteNumbers = new Array(byteCharacters.length);
-  for (let i = 0; i < byteCharacters.length; i++) {
-    byteNumbers[i] = byteCharacters.charCodeAt(i);
-  }
-  const byteArray = new Uint8Array(byteNumbers);
-  const blob = new Blob([byteArray], { type: 'image/png' });
-
-  // Upload to storage
-  const { error: uploadError } = await supabase.storage
-    .from(BUCKET_NAME)
-    .upload(storagePath, blob, {
-      contentType: 'image/png',
-      upsert: false,
-      cacheControl: '31536000', // 1 year - reduce repeated downloads from CDN
-    });
-
-  if (uploadError) {
-    throw new Error(`Upload failed: ${uploadError.message}`);
-  }
-
-  // Get public URL (use same URL for grid + modal; no Supabase transforms)
-  const { data: urlData } = supabase.storage.from(BUCKET_NAME).getPublicUrl(storagePath);
-  const publicUrl = urlData.publicUrl;
-  const thumbUrl = publicUrl;
-
-  const { data: { user } } = await supabase.auth.getUser();
-  const insertPayload: Record<string, unknown> = {
-    prompt,
-    aspect_ratio: aspectRatio,
-    image_size: imageSize,
-    storage_path: storagePath,
-    file_name: fileName
-  };
-  if (user?.id) insertPayload.user_id = user.id;
-  if (referenceImageUrls && referenceImageUrls.length > 0) {
-    insertPayload.reference_image_urls = referenceImageUrls;
-  }
-  if (folderId !== undefined) insertPayload.folder_id = folderId ?? null;
-
-  // Insert metadata
-  const { data: row, error: dbError } = await supabase
-    .from('images')
-    .insert(insertPayload)
-    .select()
-    .single();
-
-  if (dbError) {
-    throw new Error(`Database error: ${dbError.message}`);
-  }
-
-  return {
-    ...row,
-    url: publicUrl,
-    thumbUrl,
-  };
-}
-
-/**
- * Save metadata only - image already in Supabase Storage (uploaded by backend).
- * Pass thumbStoragePath when backend created a thumbnail.
- */
-export async function saveImageMetadataToSupabase(
-  storagePath: string,
-  prompt: string,
-  aspectRatio: string,
-  imageSize: string,
-  referenceImageUrls?: string[],
-  thumbStoragePath?: string | null,
-  folderId?: string | null
-): Promise<StoredImage> {
-  if (!supabase) {
-    throw new Error('Supabase is not configured');
-  }
-
-  const { data: urlData } = supabase.storage.from(BUCKET_NAME).getPublicUrl(storagePath);
-  const publicUrl = urlData.publicUrl;
-  const thumbUrl = thumbStoragePath
-    ? supabase.storage.from(BUCKET_NAME).getPublicUrl(thumbStoragePath).data.publicUrl
-    : publicUrl;
-
-  const { data: { user } } = await supabase.auth.getUser();
-  const insertPayload: Record<string, unknown> = {
-    prompt,
-    aspect_ratio: aspectRatio,
-    image_size: imageSize,
-    storage_path: storagePath,
-    file_name: storagePath,
-  };
-  if (thumbStoragePath) insertPayload.thumb_storage_path = thumbStoragePath;
-  if (user?.id) insertPayload.user_id = user.id;
-  if (referenceImageUrls && referenceImageUrls.length > 0) {
-    insertPayload.reference_image_urls = referenceImageUrls;
-  }
-  if (folderId !== undefined) insertPayload.folder_id = folderId ?? null;
-
-  const { data: row, error: dbError } = await supabase
-    .from('images')
-    .insert(insertPayload)
-    .select()
-    .single();
-
-  if (dbError) {
-    throw new Error(`Database error: ${dbError.message}`);
-  }
-
-  return {
-    ...row,
-    url: publicUrl,
-    thumbUrl,
-  };
+  thumbSrcSet?: string; // `url 256w, url 512w, ...` from thumb_variants
 }
 
 export type ImageScope = 'mine' | 'all';
@@ -218,10 +134,41 @@ export interface FetchImagesResult {
   hasMore: boolean;
 }
 
+/** `url 256w, url 512w, ...` for <img srcset>; undefined when there are no variants */
+function buildThumbSrcSet(variants: Record<string, string>): string | undefined {
+  if (!supabase) return undefined;
+  const client = supabase;
+  const entries = Object.entries(variants).sort(([a], [b]) => Number(a) - Number(b));
+  if (entries.length === 0) return undefined;
+  return entries
+    .map(([width, path]) => `${client.storage.from(BUCKET_NAME).getPublicUrl(path).data.publicUrl} ${width}w`)
+    .join(', ');
+}
+
+const BASE_IMAGE_COLUMNS = 'id, created_at, user_id, prompt, aspect_ratio, image_size, storage_path, file_name';
+/** Every column the UI reads; newer ones may be missing until their migration has run */
+const FULL_IMAGE_COLUMNS = `${BASE_IMAGE_COLUMNS}, thumb_storage_path, thumb_variants, reference_image_urls, model, edit_regions, parent_image_id, derivation_type, wildcards`;
+
+/** images row → StoredImage with public URLs */
+function toStoredImage(client: NonNullable<typeof supabase>, row: Record<string, unknown>): StoredImage {
+  const r = row as { storage_path: string; thumb_storage_path?: string | null; thumb_variants?: Record<string, string> | null; [k: string]: unknown };
+  const storage = client.storage.from(BUCKET_NAME);
+  const thumbPath = r.thumb_storage_path && typeof r.thumb_storage_path === 'string'
+    ? r.thumb_storage_path
+    : r.storage_path;
+  return {
+    ...r,
+    url: storage.getPublicUrl(r.storage_path).data.publicUrl,
+    thumbUrl: storage.getPublicUrl(thumbPath).data.publicUrl,
+    thumbSrcSet: r.thumb_variants ? buildThumbSrcSet(r.thumb_variants) : undefined,
+  } as StoredImage;
+}
+
 /**
  * Fetch images from Supabase (newest first), paginated to reduce egress.
  * scope: 'mine' = only current user's images, 'all' = everyone's images.
  * When scope is 'mine', options.folderId filters by folder: null = "My Kreations" (folder_id IS NULL), string = that folder.
+ * A folder lists everyone's images in it, so a workspace folder shows teammates' work too.
  */
 export async function fetchImagesFromSupabase(
   scope: ImageScope = 'mine',
@@ -234,22 +181,20 @@ export async function fetchImagesFromSupabase(
   const limit = options?.limit ?? DEFAULT_PAGE_SIZE;
   const offset = options?.offset ?? 0;
 
-  const baseSelect = 'id, created_at, user_id, prompt, aspect_ratio, image_size, storage_path, file_name';
-  const baseSelectWithThumb = `${baseSelect}, thumb_storage_path`;
   let rows: Record<string, unknown>[] | null = null;
   let error: Error | null = null;
 
-  // Resolve user once for scope (avoids duplicate auth calls)
+  // Resolve user once for scope (avoids duplicate auth calls); a folder is already scoped by who can see it
   let userId: string | undefined;
-  if (scope === 'mine') {
+  if (scope === 'mine' && typeof options?.folderId !== 'string') {
     const { data: { user } } = await supabase.auth.getUser();
     userId = user?.id;
   }
 
-  // Try with thumb_storage_path + reference_image_urls first
+  // Try with every column first
   let query = supabase
     .from('images')
-    .select(`${baseSelectWithThumb}, reference_image_urls`, { count: 'exact' })
+    .select(FULL_IMAGE_COLUMNS, { count: 'exact' })
     .order('created_at', { ascending: false })
     .range(offset, offset + limit - 1);
   if (userId) query = query.eq('user_id', userId);
@@ -264,10 +209,10 @@ export async function fetchImagesFromSupabase(
   if (!result1.error) {
     rows = (result1.data ?? null) as Record<string, unknown>[] | null;
   } else {
-    // Fallback: thumb_storage_path or reference_image_urls column may not exist yet
+    // Fallback: a newer column (thumbs, references, model, edit_regions, lineage, wildcards) may not exist yet
     let query2 = supabase
       .from('images')
-      .select(baseSelect, { count: 'exact' })
+      .select(BASE_IMAGE_COLUMNS, { count: 'exact' })
       .order('created_at', { ascending: false })
       .range(offset, offset + limit - 1);
     if (userId) query2 = query2.eq('user_id', userId);
@@ -290,31 +235,68 @@ export async function fetchImagesFromSupabase(
   }
 
   const client = supabase;
-  if (!client) return { images: [], hasMore: false };
+  const images = rows.map((row) => toStoredImage(client, row));
+  const hasMore = rows.length === limit;
 
-  const images = (rows || []).map((row) => {
-    const r = row as { storage_path: string; thumb_storage_path?: string | null; [k: string]: unknown };
-    const { data: urlData } = client.storage.from(BUCKET_NAME).getPublicUrl(r.storage_path);
-    const thumbPath = r.thumb_storage_path && typeof r.thumb_storage_path === 'string'
-      ? r.thumb_storage_path
-      : r.storage_path;
-    const { data: thumbUrlData } = client.storage.from(BUCKET_NAME).getPublicUrl(thumbPath);
+  return { images, hasMore };
+}
 
-    return {
-      ...r,
-      url: urlData.publicUrl,
-      thumbUrl: thumbUrlData.publicUrl,
-    } as StoredImage;
-  });
+const MAX_LINEAGE_DEPTH = 10;
+const MAX_LINEAGE_DESCENDANTS = 24;
 
-  const hasMore = rows.length === limit;
+export interface ImageLineage {
+  /** Root first, direct parent last */
+  ancestors: StoredImage[];
+  /** Children, then grandchildren, ... (oldest first within a generation) */
+  descendants: StoredImage[];
+}
 
-  return { images, hasMore };
+/**
+ * Walk parent_image_id up to the root and down through the children (bounded, for the ImageModal strip).
+ * Empty when the lineage columns don't exist yet.
+ */
+export async function fetchImageLineage(imageId: string): Promise<ImageLineage> {
+  const empty: ImageLineage = { ancestors: [], descendants: [] };
+  if (!supabase) return empty;
+  const client = supabase;
+
+  const { data: current, error } = await client
+    .from('images')
+    .select('parent_image_id')
+    .eq('id', imageId)
+    .maybeSingle();
+  if (error || !current) return empty;
+
+  const ancestors: StoredImage[] = [];
+  let parentId = (current as { parent_image_id: string | null }).parent_image_id;
+  while (parentId && ancestors.length < MAX_LINEAGE_DEPTH) {
+    const { data: row } = await client.from('images').select(FULL_IMAGE_COLUMNS).eq('id', parentId).maybeSingle();
+    if (!row) break;
+    const parent = toStoredImage(client, row as Record<string, unknown>);
+    ancestors.unshift(parent);
+    parentId = parent.parent_image_id ?? null;
+  }
+
+  const descendants: StoredImage[] = [];
+  let frontier = [imageId];
+  for (let depth = 0; depth < MAX_LINEAGE_DEPTH && frontier.length > 0 && descendants.length < MAX_LINEAGE_DESCENDANTS; depth++) {
+    const { data: rows } = await client
+      .from('images')
+      .select(FULL_IMAGE_COLUMNS)
+      .in('parent_image_id', frontier)
+      .order('created_at', { ascending: true })
+      .limit(MAX_LINEAGE_DESCENDANTS - descendants.length);
+    const children = ((rows ?? []) as Record<string, unknown>[]).map((row) => toStoredImage(client, row));
+    descendants.push(...children);
+    frontier = children.map((c) => c.id);
+  }
+
+  return { ancestors, descendants };
 }
 
 /**
- * Delete an image: remove from storage (full + thumb) and delete row.
- * Caller should ensure the image belongs to the current user (e.g. only in "mine" view).
+ * Delete an image: remove from storage (full + thumbs) and delete row.
+ * Only the creator's own images - workspace folders also list teammates' images, which stay put.
  */
 export async function deleteImage(imageId: string): Promise<void> {
   if (!supabase) {
@@ -323,20 +305,24 @@ export async function deleteImage(imageId: string): Promise<void> {
 
   const { data: row, error: fetchError } = await supabase
     .from('images')
-    .select('storage_path, thumb_storage_path')
+    .select('*')
     .eq('id', imageId)
     .single();
 
   if (fetchError || !row) {
     throw new Error(fetchError?.message ?? 'Image not found');
   }
-
-  const pathsToRemove: string[] = [row.storage_path];
-  if (row.thumb_storage_path && row.thumb_storage_path !== row.storage_path) {
-    pathsToRemove.push(row.thumb_storage_path);
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user || (row as Pick<StoredImage, 'user_id'>).user_id !== user.id) {
+    throw new Error('You can only delete your own images');
   }
 
-  await supabase.storage.from(BUCKET_NAME).remove(pathsToRemove);
+  const { storage_path, thumb_storage_path, thumb_variants } = row as Pick<StoredImage, 'storage_path' | 'thumb_storage_path' | 'thumb_variants'>;
+  const pathsToRemove = new Set<string>([storage_path]);
+  if (thumb_storage_path) pathsToRemove.add(thumb_storage_path);
+  for (const path of Object.values(thumb_variants ?? {})) pathsToRemove.add(path);
+
+  await supabase.storage.from(BUCKET_NAME).remove([...pathsToRemove]);
 
   const { error: deleteError } = await supabase.from('images').delete().eq('id', imageId);
   if (deleteError) {
@@ -348,7 +334,7 @@ const SHOWCASE_THUMB_LIMIT = 36;
 
 /**
  * Fetch recent image thumbnails for the landing page showcase (no auth required if RLS allows public read).
- * Returns thumb URLs only, newest first.
+ * Returns thumb URLs only (the 256px variant where available - tiles are small), newest first.
  */
 export async function fetchShowcaseThumbnails(): Promise<string[]> {
   const client = supabase;
@@ -357,28 +343,30 @@ export async function fetchShowcaseThumbnails(): Promise<string[]> {
   }
 
   const baseSelect = 'storage_path, thumb_storage_path';
-  const { data: rows, error } = await client
+  const showcaseQuery = (select: string) => client
     .from('images')
-    .select(baseSelect)
+    .select(select)
     .order('created_at', { ascending: false })
     .limit(SHOWCASE_THUMB_LIMIT);
 
+  // thumb_variants may not exist yet (supabase-thumb-variants.sql not run)
+  let { data: rows, error } = await showcaseQuery(`${baseSelect}, thumb_variants`);
+  if (error) ({ data: rows, error } = await showcaseQuery(baseSelect));
+
   if (error || !rows?.length) {
     if (error) console.warn('Showcase thumbnails fetch failed:', error.message);
     return [];
   }
 
-  return (rows as { storage_path: string; thumb_storage_path?: string | null }[]).map((r) => {
-    const path = r.thumb_storage_path && typeof r.thumb_storage_path === 'string'
-      ? r.thumb_storage_path
-      : r.storage_path;
+  type ShowcaseRow = Pick<StoredImage, 'storage_path' | 'thumb_storage_path' | 'thumb_variants'>;
+  return (rows as unknown as ShowcaseRow[]).map((r) => {
+    const path = r.thumb_variants?.['256']
+      || (r.thumb_storage_path && typeof r.thumb_storage_path === 'string' ? r.thumb_storage_path : r.storage_path);
     const { data } = client.storage.from(BUCKET_NAME).getPublicUrl(path);
     return data.publicUrl;
   });
 }
 
-const COST_PER_IMAGE = 0.05;
-
 export interface ImageStats {
   totalImages: number;
   totalApiCalls: number;
@@ -436,7 +424,7 @@ export async function fetchUserStats(userId: string): Promise<ImageStats> {
   }
 
   // 2) Fetch rows for charts / breakdowns, with pagination to avoid server row caps
-  type Row = { id: string; created_at: string; image_size?: string | null };
+  type Row = StatsRow;
   const allRows: Row[] = [];
   const pageSize = 1000;
   const totalToFetch = typeof count === 'number' ? count : undefined;
@@ -446,7 +434,7 @@ export async function fetchUserStats(userId: string): Promise<ImageStats> {
     const to = from + pageSize - 1;
     const { data, error: pageError } = await supabase
       .from('images')
-      .select('id, created_at, image_size')
+      .select('id, created_at, image_size, model, reference_image_urls, derivation_type')
       .eq('user_id', userId)
       .order('created_at', { ascending: false })
       .range(from, to);
@@ -472,8 +460,24 @@ export async function fetchUserStats(userId: string): Promise<ImageStats> {
   );
 }
 
+type StatsRow = {
+  id: string;
+  created_at: string;
+  image_size?: string | null;
+  model?: string | null;
+  reference_image_urls?: string[] | null;
+  derivation_type?: DerivationType | null;
+};
+
+/** What the image was charged: edits (inpaint, region edits, extend) and upscales have their own prices */
+function statsRowCost(img: StatsRow): ImageCost {
+  if (img.derivation_type === 'edit') return getEditCost(img.model, img.image_size);
+  if (img.derivation_type === 'upscale') return getUpscaleCost(img.model, img.image_size);
+  return getImageCost(img.model, img.image_size, img.reference_image_urls?.length ?? 0);
+}
+
 function buildUserImageStats(
-  images: { id: string; created_at: string; image_size?: string | null }[],
+  images: StatsRow[],
   error: { message: string } | null,
   totalImagesOverride?: number,
   thisMonthImagesOverride?: number
@@ -493,7 +497,7 @@ function buildUserImageStats(
   }
 
   const totalImages = typeof totalImagesOverride === 'number' ? totalImagesOverride : images.length;
-  const totalCost = totalImages * COST_PER_IMAGE;
+  let fetchedCost = 0;
 
   const byQuality = { '1K': 0 as number, '2K': 0 as number, '4K': 0 as number };
   const byMonth = new Map<string, { images: number; cost: number }>();
@@ -501,6 +505,8 @@ function buildUserImageStats(
 
   const pad2 = (n: number) => String(n).padStart(2, '0');
   for (const img of images) {
+    const cost = statsRowCost(img).usd;
+    fetchedCost += cost;
     const size = (img.image_size || '1K') as keyof typeof byQuality;
     if (size in byQuality) byQuality[size as '1K' | '2K' | '4K']++;
     const date = new Date(img.created_at);
@@ -511,12 +517,12 @@ function buildUserImageStats(
     if (!byMonth.has(monthKey)) byMonth.set(monthKey, { images: 0, cost: 0 });
     const m = byMonth.get(monthKey)!;
     m.images += 1;
-    m.cost += COST_PER_IMAGE;
+    m.cost += cost;
 
     if (!byDay.has(dayKey)) byDay.set(dayKey, { count: 0, cost: 0 });
     const d = byDay.get(dayKey)!;
     d.count += 1;
-    d.cost += COST_PER_IMAGE;
+    d.cost += cost;
   }
 
   const monthlyOverview = Array.from(byMonth.entries())
@@ -565,6 +571,10 @@ function buildUserImageStats(
     thisMonthImages = monthEntry?.images ?? 0;
   }
 
+  // Rows beyond the fetch cap are priced at the average of the ones we did fetch
+  const unfetched = Math.max(0, totalImages - images.length);
+  const totalCost = fetchedCost + (images.length > 0 ? (fetchedCost / images.length) * unfetched : 0);
+
   return {
     totalImages,
     totalApiCalls: totalImages,
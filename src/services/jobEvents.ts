@@ -0,0 +1,179 @@
+/**
+ * One shared server-sent events stream (/api/generate/events) for all of the user's jobs.
+ * Read with fetch rather than EventSource so the Supabase JWT can go in the Authorization header.
+ * While the stream is down (or the API doesn't serve it, e.g. plain `vite`), callers poll the status route instead.
+ * The server ends the stream with `idle` once the user has no open jobs; it is reopened for the next new job.
+ */
+
+import { getAuthHeaders } from '../lib/supabase';
+
+const API_BASE = (import.meta.env.VITE_API_BASE_URL || '').replace(/\/$/, '');
+const EVENTS_URL = `${API_BASE}/api/generate/events`;
+/** After a failed connect, wait this long before trying the stream again (callers poll meanwhile) */
+const RECONNECT_DELAY_MS = 30 * 1000;
+/** Keep the stream open briefly after the last watcher leaves, in case the next job follows right away */
+const IDLE_CLOSE_MS = 5 * 1000;
+
+/** `job` event data: the status route's JSON body for the job's current status */
+export type JobEvent = { jobId: string; status: string; error?: string } & Record<string, unknown>;
+
+const listeners = new Map<string, Set<(event: JobEvent) => void>>();
+let streamController: AbortController | null = null;
+let connected = false;
+let retryAt = 0;
+let idleTimer: ReturnType<typeof setTimeout> | null = null;
+/** The server last ended the stream as idle - retryAt is only that back-off, so a new job may clear it */
+let serverIdle = false;
+
+/** True while the stream is open - watchers can then poll rarely instead of every interval */
+export function isJobStreamConnected(): boolean {
+  return connected;
+}
+
+function dispatch(block: string): void {
+  let eventName = 'message';
+  const dataLines: string[] = [];
+  for (const line of block.split(/\r?\n/)) {
+    if (line.startsWith('event:')) eventName = line.slice(6).trim();
+    else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+  }
+  if (eventName === 'idle') {
+    // Nothing open server-side (e.g. a watched job finished before the replay window) - poll until a new job
+    serverIdle = true;
+    retryAt = Date.now() + RECONNECT_DELAY_MS;
+    return;
+  }
+  if (eventName !== 'job' || dataLines.length === 0) return;
+  try {
+    const event = JSON.parse(dataLines.join('\n')) as JobEvent;
+    listeners.get(event.jobId)?.forEach((listener) => listener(event));
+  } catch {
+    // ignore malformed events
+  }
+}
+
+async function readEvents(body: ReadableStream<Uint8Array>): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = blocks.pop() ?? '';
+    blocks.forEach(dispatch);
+  }
+}
+
+async function runStream(controller: AbortController): Promise<void> {
+  const { signal } = controller;
+  while (!signal.aborted && listeners.size > 0) {
+    const wait = retryAt - Date.now();
+    if (wait > 0) {
+      await new Promise((r) => setTimeout(r, Math.min(wait, IDLE_CLOSE_MS)));
+      continue;
+    }
+    try {
+      const res = await fetch(EVENTS_URL, {
+        headers: { Accept: 'text/event-stream', ...(await getAuthHeaders()) },
+        cache: 'no-store',
+        signal,
+      });
+      if (!res.ok || !res.body || !(res.headers.get('content-type') || '').includes('text/event-stream')) {
+        throw new Error(`Job events unavailable (${res.status})`);
+      }
+      connected = true;
+      serverIdle = false;
+      // Returns when the server ends its window (or goes idle) - loop around and reconnect
+      await readEvents(res.body);
+    } catch {
+      if (signal.aborted) return;
+      retryAt = Date.now() + RECONNECT_DELAY_MS;
+    } finally {
+      connected = false;
+    }
+  }
+}
+
+function ensureStream(): void {
+  if (idleTimer) {
+    clearTimeout(idleTimer);
+    idleTimer = null;
+  }
+  if (streamController) return;
+  const controller = new AbortController();
+  streamController = controller;
+  void runStream(controller).finally(() => {
+    if (streamController === controller) streamController = null;
+  });
+}
+
+function scheduleClose(): void {
+  if (listeners.size > 0 || idleTimer) return;
+  idleTimer = setTimeout(() => {
+    idleTimer = null;
+    if (listeners.size > 0) return;
+    streamController?.abort();
+    streamController = null;
+  }, IDLE_CLOSE_MS);
+}
+
+export interface JobWatch {
+  /**
+   * The next event for the job, or null after `timeoutMs` / when `signal` aborts.
+   * Events that arrive between calls aren't lost - the latest one is kept for the next call.
+   */
+  next(timeoutMs: number, signal?: AbortSignal): Promise<JobEvent | null>;
+  close(): void;
+}
+
+/** Follow one job on the shared stream (opened on first use, closed when nothing is watched) */
+export function watchJob(jobId: string): JobWatch {
+  let latest: JobEvent | null = null;
+  let wake: (() => void) | null = null;
+  const listener = (event: JobEvent) => {
+    latest = event;
+    wake?.();
+  };
+
+  let set = listeners.get(jobId);
+  if (!set) {
+    set = new Set();
+    listeners.set(jobId, set);
+    // A new job is open server-side again, so an idle stream is worth reopening
+    if (serverIdle) {
+      serverIdle = false;
+      retryAt = 0;
+    }
+  }
+  set.add(listener);
+  ensureStream();
+
+  return {
+    async next(timeoutMs, signal) {
+      if (!latest && !signal?.aborted) {
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(done, timeoutMs);
+          function done() {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', done);
+            wake = null;
+            resolve();
+          }
+          wake = done;
+          signal?.addEventListener('abort', done, { once: true });
+        });
+      }
+      const event = latest;
+      latest = null;
+      return event;
+    },
+    close() {
+      const current = listeners.get(jobId);
+      current?.delete(listener);
+      if (current?.size === 0) listeners.delete(jobId);
+      scheduleClose();
+    },
+  };
+}
@@ -1,6 +1,7 @@
 /**
  * Moodboards: reusable sets of reference images for image generation.
  * Max ref images = generation max (6) - 1 = 5.
+ * workspaceId null = the user's personal moodboards; otherwise that workspace's shared ones.
  */
 
 import { supabase } from '../lib/supabase';
@@ -11,19 +12,22 @@ export const MAX_MOODBOARD_IMAGES = 5;
 export interface Moodboard {
   id: string;
   user_id: string;
+  workspace_id: string | null;
   name: string;
   description: string | null;
   reference_image_urls: string[];
   created_at: string;
 }
 
-export async function fetchMoodboards(userId: string): Promise<Moodboard[]> {
+export async function fetchMoodboards(userId: string, workspaceId: string | null = null): Promise<Moodboard[]> {
   if (!supabase || !userId) return [];
-  const { data, error } = await supabase
+  const query = supabase
     .from('moodboards')
-    .select('id, user_id, name, description, reference_image_urls, created_at')
-    .eq('user_id', userId)
+    .select('id, user_id, workspace_id, name, description, reference_image_urls, created_at')
     .order('created_at', { ascending: false });
+  const { data, error } = workspaceId
+    ? await query.eq('workspace_id', workspaceId)
+    : await query.eq('user_id', userId).is('workspace_id', null);
   if (error) {
     console.error('Failed to fetch moodboards:', error);
     throw error;
@@ -38,14 +42,21 @@ export async function createMoodboard(
   userId: string,
   name: string,
   description: string | null,
-  referenceImageUrls: string[]
+  referenceImageUrls: string[],
+  workspaceId: string | null = null
 ): Promise<Moodboard> {
   if (!supabase || !userId) throw new Error('Not authenticated');
   const trimmed = name.trim() || 'Untitled moodboard';
   const urls = referenceImageUrls.slice(0, MAX_MOODBOARD_IMAGES);
   const { data, error } = await supabase
     .from('moodboards')
-    .insert({ user_id: userId, name: trimmed, description: description?.trim() || null, reference_image_urls: urls })
+    .insert({
+      user_id: userId,
+      workspace_id: workspaceId,
+      name: trimmed,
+      description: description?.trim() || null,
+      reference_image_urls: urls,
+    })
     .select()
     .single();
   if (error) throw error;
@@ -55,7 +66,8 @@ export async function createMoodboard(
 export async function updateMoodboard(
   moodboardId: string,
   userId: string,
-  updates: { name?: string; description?: string | null; reference_image_urls?: string[] }
+  updates: { name?: string; description?: string | null; reference_image_urls?: string[] },
+  workspaceId: string | null = null
 ): Promise<Moodboard> {
   if (!supabase) throw new Error('Supabase not configured');
   const payload: Record<string, unknown> = {};
@@ -64,24 +76,22 @@ export async function updateMoodboard(
   if (updates.reference_image_urls !== undefined) {
     payload.reference_image_urls = updates.reference_image_urls.slice(0, MAX_MOODBOARD_IMAGES);
   }
-  const { data, error } = await supabase
-    .from('moodboards')
-    .update(payload)
-    .eq('id', moodboardId)
-    .eq('user_id', userId)
+  const query = supabase.from('moodboards').update(payload).eq('id', moodboardId);
+  const { data, error } = await (workspaceId ? query.eq('workspace_id', workspaceId) : query.eq('user_id', userId))
     .select()
     .single();
   if (error) throw error;
   return { ...data, reference_image_urls: data.reference_image_urls ?? [] } as Moodboard;
 }
 
-export async function deleteMoodboard(moodboardId: string, userId: string): Promise<void> {
+export async function deleteMoodboard(
+  moodboardId: string,
+  userId: string,
+  workspaceId: string | null = null
+): Promise<void> {
   if (!supabase) throw new Error('Supabase not configured');
-  const { error } = await supabase
-    .from('moodboards')
-    .delete()
-    .eq('id', moodboardId)
-    .eq('user_id', userId);
+  const query = supabase.from('moodboards').delete().eq('id', moodboardId);
+  const { error } = workspaceId ? await query.eq('workspace_id', workspaceId) : await query.eq('user_id', userId);
   if (error) throw error;
 }
 
@@ -1,10 +1,28 @@
+import type { EnhanceMode } from '../config/enhance';
+import { getAuthHeaders } from '../lib/supabase';
+import { ensureReferenceImageUrl } from './imageStorage';
+
 const API_BASE = (import.meta.env.VITE_API_BASE_URL || '').replace(/\/$/, '');
 
-export async function enhancePrompt(prompt: string): Promise<string> {
+export interface EnhanceOptions {
+  /** Number of alternative rewrites (1 to MAX_ENHANCE_VARIANTS) */
+  count?: number;
+  mode?: EnhanceMode;
+  /** Storage URLs of the current references - the enhancer looks at them and names what it sees */
+  referenceImageUrls?: string[];
+}
+
+/** Rewrite a prompt into one or more alternatives (Kreate+). Always returns at least one. */
+export async function enhancePromptVariants(prompt: string, options: EnhanceOptions = {}): Promise<string[]> {
   const response = await fetch(`${API_BASE}/api/enhance-prompt`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ prompt: prompt.trim() }),
+    headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+    body: JSON.stringify({
+      prompt: prompt.trim(),
+      count: options.count,
+      mode: options.mode,
+      referenceImageUrls: options.referenceImageUrls?.length ? options.referenceImageUrls : undefined,
+    }),
   });
 
   const data = await response.json().catch(() => ({}));
@@ -13,10 +31,45 @@ export async function enhancePrompt(prompt: string): Promise<string> {
     throw new Error(data.error || `Enhance failed: ${response.status}`);
   }
 
-  const enhanced = data.enhancedPrompt;
-  if (!enhanced || typeof enhanced !== 'string') {
+  const variants = Array.isArray(data.enhancedPrompts)
+    ? (data.enhancedPrompts as unknown[]).filter((p): p is string => typeof p === 'string' && p.trim() !== '')
+    : [];
+  if (variants.length === 0 && typeof data.enhancedPrompt === 'string' && data.enhancedPrompt.trim()) {
+    variants.push(data.enhancedPrompt);
+  }
+  if (variants.length === 0) {
     throw new Error('No enhanced prompt returned');
   }
 
-  return enhanced.trim();
+  return variants.map((p) => p.trim());
+}
+
+export async function enhancePrompt(prompt: string): Promise<string> {
+  const [enhanced] = await enhancePromptVariants(prompt);
+  return enhanced;
+}
+
+/**
+ * Reverse prompt: a generation-ready prompt that recreates the look of an image.
+ * Local images (blob:/data:) are uploaded to storage first - the backend only reads our bucket.
+ */
+export async function describeImage(imageUrl: string): Promise<string> {
+  const storageUrl = await ensureReferenceImageUrl(imageUrl);
+  const response = await fetch(`${API_BASE}/api/describe-image`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+    body: JSON.stringify({ imageUrl: storageUrl }),
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.error || `Describe failed: ${response.status}`);
+  }
+
+  if (!data.prompt || typeof data.prompt !== 'string') {
+    throw new Error('No prompt returned');
+  }
+
+  return data.prompt.trim();
 }
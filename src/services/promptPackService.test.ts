@@ -0,0 +1,153 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMoodboard } from './moodboardService';
+import {
+  applyPromptPackImport,
+  parsePromptPack,
+  planPromptPackImport,
+  PROMPT_PACK_FORMAT,
+  validatePromptPackImport,
+  type PromptPackImportItem,
+} from './promptPackService';
+import { createPromptTemplate, updatePromptTemplate, type PromptTemplate } from './promptTemplateService';
+
+// The storage URL check builds on the Supabase client, created when lib/supabase loads
+vi.hoisted(() => {
+  process.env.VITE_SUPABASE_URL = 'https://project.supabase.co';
+  process.env.VITE_SUPABASE_ANON_KEY = 'anon-key';
+});
+
+vi.mock('./promptTemplateService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./promptTemplateService')>()),
+  createPromptTemplate: vi.fn(),
+  updatePromptTemplate: vi.fn(),
+}));
+
+vi.mock('./moodboardService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./moodboardService')>()),
+  createMoodboard: vi.fn(),
+}));
+
+const STORAGE = 'https://project.supabase.co/storage/v1/object/public/generated-images';
+
+function template(handle: string, id = `id-${handle}`): PromptTemplate {
+  return { id, user_id: 'u1', workspace_id: null, handle, prompt_text: `${handle} text`, created_at: '' };
+}
+
+function packText(extra: Record<string, unknown>): string {
+  return JSON.stringify({ format: PROMPT_PACK_FORMAT, version: 1, templates: [], ...extra });
+}
+
+describe('parsePromptPack', () => {
+  it('normalizes handles and keeps the first of a repeated handle', () => {
+    const pack = parsePromptPack(
+      packText({
+        templates: [
+          { handle: '@Studio Light', prompt_text: 'a' },
+          { handle: 'studiolight', prompt_text: 'b' },
+        ],
+      })
+    );
+    expect(pack.templates).toEqual([{ handle: 'studiolight', prompt_text: 'a' }]);
+  });
+
+  it('keeps only moodboard URLs in our storage bucket', () => {
+    const pack = parsePromptPack(
+      packText({
+        moodboards: [
+          {
+            name: 'Board',
+            reference_image_urls: [`${STORAGE}/refs/a.png`, 'https://elsewhere.example/a.png', 42],
+          },
+        ],
+      })
+    );
+    expect(pack.moodboards).toEqual([
+      { name: 'Board', description: null, reference_image_urls: [`${STORAGE}/refs/a.png`] },
+    ]);
+  });
+
+  it('rejects files that are not packs this version can read', () => {
+    expect(() => parsePromptPack('{')).toThrow('not valid JSON');
+    expect(() => parsePromptPack('{"format":"other"}')).toThrow('not a prompt pack');
+    expect(() => parsePromptPack(packText({ version: 99 }))).toThrow('version 99');
+    expect(() => parsePromptPack(packText({ templates: [{ handle: 'x' }] }))).toThrow('malformed template');
+  });
+});
+
+describe('planPromptPackImport', () => {
+  it('skips collisions by default and suggests free handles for renaming', () => {
+    const pack = parsePromptPack(
+      packText({
+        templates: [
+          { handle: 'macro', prompt_text: 'a' },
+          { handle: 'macro-2', prompt_text: 'b' },
+          { handle: 'fresh', prompt_text: 'c' },
+        ],
+      })
+    );
+    const items = planPromptPackImport(pack, [template('macro'), template('macro-2')]);
+    expect(items.map((i) => [i.template.handle, i.existing?.handle ?? null, i.action, i.renameTo])).toEqual([
+      ['macro', 'macro', 'skip', 'macro-3'],
+      ['macro-2', 'macro-2', 'skip', 'macro-2-2'],
+      ['fresh', null, 'skip', ''],
+    ]);
+  });
+});
+
+describe('validatePromptPackImport', () => {
+  const existing = [template('macro'), template('taken')];
+  const item = (handle: string, action: PromptPackImportItem['action'], renameTo = ''): PromptPackImportItem => ({
+    template: { handle, prompt_text: '' },
+    existing: existing.find((t) => t.handle === handle) ?? null,
+    action,
+    renameTo,
+  });
+
+  it('accepts a plan with free renames', () => {
+    expect(validatePromptPackImport([item('macro', 'rename', 'macro-2'), item('new', 'skip')], existing)).toBeNull();
+  });
+
+  it('reports empty, taken and clashing handles', () => {
+    expect(validatePromptPackImport([item('macro', 'rename', ' ')], existing)).toBe('Enter a new handle for @macro');
+    expect(validatePromptPackImport([item('macro', 'rename', '@Taken')], existing)).toContain('@taken already exists');
+    expect(validatePromptPackImport([item('macro', 'rename', 'new'), item('new', 'skip')], existing)).toBe(
+      '@new is used twice in this import'
+    );
+  });
+});
+
+describe('applyPromptPackImport', () => {
+  beforeEach(() => {
+    vi.mocked(createPromptTemplate).mockReset();
+    vi.mocked(updatePromptTemplate).mockReset();
+    vi.mocked(createMoodboard).mockReset();
+  });
+
+  it('keeps going past failed items and reports them with partial counts', async () => {
+    vi.mocked(createPromptTemplate).mockImplementation(async (_userId, handle) => {
+      if (handle === 'broken') throw new Error('Handle is reserved');
+      return template(handle);
+    });
+    vi.mocked(createMoodboard).mockRejectedValue(new Error('Too many moodboards'));
+    const macro = template('macro');
+    const items: PromptPackImportItem[] = [
+      { template: { handle: 'macro', prompt_text: 'new text' }, existing: macro, action: 'overwrite', renameTo: '' },
+      { template: { handle: 'broken', prompt_text: '' }, existing: null, action: 'skip', renameTo: '' },
+      { template: { handle: 'fresh', prompt_text: '' }, existing: null, action: 'skip', renameTo: '' },
+      { template: { handle: 'taken', prompt_text: '' }, existing: template('taken'), action: 'skip', renameTo: '' },
+    ];
+
+    const result = await applyPromptPackImport('u1', items, [
+      { name: 'Board', description: null, reference_image_urls: [] },
+    ]);
+
+    expect(updatePromptTemplate).toHaveBeenCalledWith(macro.id, 'u1', { prompt_text: 'new text' }, null);
+    expect(result).toEqual({
+      created: 1,
+      updated: 1,
+      skipped: 1,
+      moodboards: 0,
+      failed: ['@broken: Handle is reserved', 'Moodboard "Board": Too many moodboards'],
+    });
+  });
+});
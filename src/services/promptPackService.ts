@@ -0,0 +1,232 @@
+/**
+ * Prompt packs: a versioned JSON file of @ prompt templates (optionally with moodboards)
+ * for sharing a prompt library between accounts. Exported and imported from My Prompts.
+ * Moodboards travel as their public reference image URLs - the images themselves aren't copied,
+ * and only URLs in our storage bucket are kept since the backend refuses anything else.
+ */
+
+import {
+  createPromptTemplate,
+  normalizeHandle,
+  updatePromptTemplate,
+  type PromptTemplate,
+} from './promptTemplateService';
+import { isStorageImageUrl } from './imageStorage';
+import { createMoodboard, MAX_MOODBOARD_IMAGES, type Moodboard } from './moodboardService';
+
+export const PROMPT_PACK_FORMAT = 'kreator-prompt-pack';
+/** Bump when the file shape changes; older packs must keep importing */
+export const PROMPT_PACK_VERSION = 1;
+
+export interface PromptPackTemplate {
+  handle: string;
+  prompt_text: string;
+}
+
+export interface PromptPackMoodboard {
+  name: string;
+  description: string | null;
+  reference_image_urls: string[];
+}
+
+export interface PromptPack {
+  format: typeof PROMPT_PACK_FORMAT;
+  version: number;
+  exported_at: string;
+  templates: PromptPackTemplate[];
+  moodboards: PromptPackMoodboard[];
+}
+
+/** What to do with a pack template whose handle the user already has */
+export type HandleCollisionAction = 'rename' | 'skip' | 'overwrite';
+
+export interface PromptPackImportItem {
+  template: PromptPackTemplate;
+  /** The user's template with the same normalized handle, if any */
+  existing: PromptTemplate | null;
+  /** Only used when `existing` is set */
+  action: HandleCollisionAction;
+  /** New handle when action is 'rename' */
+  renameTo: string;
+}
+
+export interface PromptPackImportResult {
+  created: number;
+  updated: number;
+  skipped: number;
+  moodboards: number;
+  /** One message per template or moodboard that failed to save; the rest of the import still runs */
+  failed: string[];
+}
+
+export function buildPromptPack(templates: PromptTemplate[], moodboards: Moodboard[] = []): PromptPack {
+  return {
+    format: PROMPT_PACK_FORMAT,
+    version: PROMPT_PACK_VERSION,
+    exported_at: new Date().toISOString(),
+    templates: templates.map((t) => ({ handle: t.handle, prompt_text: t.prompt_text })),
+    moodboards: moodboards.map((m) => ({
+      name: m.name,
+      description: m.description,
+      reference_image_urls: m.reference_image_urls,
+    })),
+  };
+}
+
+/** Save the pack as a .json file via a temporary download link */
+export function downloadPromptPack(pack: PromptPack): void {
+  const blob = new Blob([JSON.stringify(pack, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `prompt-pack-${pack.exported_at.slice(0, 10)}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validate a pack file's text. Handles are normalized; a handle repeated within the pack keeps its first entry.
+ * Throws with a user-facing message when the file isn't a pack this version can read.
+ */
+export function parsePromptPack(text: string): PromptPack {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+  if (!isRecord(raw) || raw.format !== PROMPT_PACK_FORMAT) {
+    throw new Error('This file is not a prompt pack');
+  }
+  if (typeof raw.version !== 'number' || raw.version < 1) {
+    throw new Error('This prompt pack has no valid version');
+  }
+  if (raw.version > PROMPT_PACK_VERSION) {
+    throw new Error(`This prompt pack is version ${raw.version}; reload the app to get support for it`);
+  }
+  if (!Array.isArray(raw.templates)) {
+    throw new Error('This prompt pack has no templates list');
+  }
+
+  const templates: PromptPackTemplate[] = [];
+  const seen = new Set<string>();
+  for (const entry of raw.templates) {
+    if (!isRecord(entry) || typeof entry.handle !== 'string' || typeof entry.prompt_text !== 'string') {
+      throw new Error('This prompt pack has a malformed template');
+    }
+    const handle = normalizeHandle(entry.handle);
+    if (!handle || seen.has(handle)) continue;
+    seen.add(handle);
+    templates.push({ handle, prompt_text: entry.prompt_text });
+  }
+
+  const moodboards: PromptPackMoodboard[] = [];
+  for (const entry of Array.isArray(raw.moodboards) ? raw.moodboards : []) {
+    if (!isRecord(entry) || typeof entry.name !== 'string' || !Array.isArray(entry.reference_image_urls)) {
+      throw new Error('This prompt pack has a malformed moodboard');
+    }
+    moodboards.push({
+      name: entry.name,
+      description: typeof entry.description === 'string' ? entry.description : null,
+      reference_image_urls: entry.reference_image_urls
+        .filter((url): url is string => typeof url === 'string' && isStorageImageUrl(url))
+        .slice(0, MAX_MOODBOARD_IMAGES),
+    });
+  }
+
+  return {
+    format: PROMPT_PACK_FORMAT,
+    version: raw.version,
+    exported_at: typeof raw.exported_at === 'string' ? raw.exported_at : '',
+    templates,
+    moodboards,
+  };
+}
+
+/** First `handle-2`, `handle-3`, … not in `taken` */
+function freeHandle(handle: string, taken: Set<string>): string {
+  for (let n = 2; ; n++) {
+    const candidate = `${handle}-${n}`;
+    if (!taken.has(candidate)) return candidate;
+  }
+}
+
+/** One item per pack template; collisions start as 'skip' with a free handle suggested for 'rename' */
+export function planPromptPackImport(pack: PromptPack, existing: PromptTemplate[]): PromptPackImportItem[] {
+  const byHandle = new Map(existing.map((t) => [normalizeHandle(t.handle), t]));
+  const taken = new Set([...byHandle.keys(), ...pack.templates.map((t) => t.handle)]);
+  return pack.templates.map((template) => {
+    const match = byHandle.get(template.handle) ?? null;
+    const renameTo = match ? freeHandle(template.handle, taken) : '';
+    if (renameTo) taken.add(renameTo);
+    return { template, existing: match, action: 'skip', renameTo };
+  });
+}
+
+/** The handle an item will be saved under, or null when it's skipped */
+export function importHandle(item: PromptPackImportItem): string | null {
+  if (!item.existing) return item.template.handle;
+  if (item.action === 'skip') return null;
+  return item.action === 'rename' ? normalizeHandle(item.renameTo) : item.template.handle;
+}
+
+/** A user-facing problem with the chosen actions (empty or clashing renames), or null when the import can run */
+export function validatePromptPackImport(items: PromptPackImportItem[], existing: PromptTemplate[]): string | null {
+  const taken = new Set(existing.map((t) => normalizeHandle(t.handle)));
+  const saved = new Set<string>();
+  for (const item of items) {
+    const handle = importHandle(item);
+    if (handle === null) continue;
+    if (item.existing && item.action === 'rename') {
+      if (!handle) return `Enter a new handle for @${item.template.handle}`;
+      if (taken.has(handle)) return `@${handle} already exists - pick another handle`;
+    }
+    if (saved.has(handle)) return `@${handle} is used twice in this import`;
+    saved.add(handle);
+  }
+  return null;
+}
+
+/** Apply the plan (run validatePromptPackImport first); moodboards are always added as new ones */
+export async function applyPromptPackImport(
+  userId: string,
+  items: PromptPackImportItem[],
+  moodboards: PromptPackMoodboard[] = [],
+  workspaceId: string | null = null
+): Promise<PromptPackImportResult> {
+  const result: PromptPackImportResult = { created: 0, updated: 0, skipped: 0, moodboards: 0, failed: [] };
+  const failure = (label: string, err: unknown) =>
+    result.failed.push(`${label}: ${err instanceof Error ? err.message : 'failed to save'}`);
+  for (const item of items) {
+    const handle = importHandle(item);
+    if (handle === null) {
+      result.skipped++;
+      continue;
+    }
+    try {
+      if (item.existing && item.action === 'overwrite') {
+        await updatePromptTemplate(item.existing.id, userId, { prompt_text: item.template.prompt_text }, workspaceId);
+        result.updated++;
+      } else {
+        await createPromptTemplate(userId, handle, item.template.prompt_text, workspaceId);
+        result.created++;
+      }
+    } catch (err) {
+      failure(`@${handle}`, err);
+    }
+  }
+  for (const moodboard of moodboards) {
+    try {
+      await createMoodboard(userId, moodboard.name, moodboard.description, moodboard.reference_image_urls, workspaceId);
+      result.moodboards++;
+    } catch (err) {
+      failure(`Moodboard "${moodboard.name}"`, err);
+    }
+  }
+  return result;
+}
@@ -1,5 +1,6 @@
 /**
  * Saved prompts with handles for @ mention in the control panel (e.g. @lens40).
+ * workspaceId null = the user's personal prompts; otherwise that workspace's shared ones (handles unique per workspace).
  */
 
 import { supabase } from '../lib/supabase';
@@ -28,6 +29,7 @@ export const DEFAULT_PROMPT_TEMPLATES: PromptTemplateRow[] = [
 export interface PromptTemplate {
   id: string;
   user_id: string;
+  workspace_id: string | null;
   handle: string;
   prompt_text: string;
   created_at: string;
@@ -38,13 +40,15 @@ export function normalizeHandle(handle: string): string {
   return handle.replace(/^@?\s*/, '').replace(/\s+/g, '').toLowerCase();
 }
 
-export async function fetchPromptTemplates(userId: string): Promise<PromptTemplate[]> {
+export async function fetchPromptTemplates(userId: string, workspaceId: string | null = null): Promise<PromptTemplate[]> {
   if (!supabase || !userId) return [];
-  const { data, error } = await supabase
+  const query = supabase
     .from('prompt_templates')
-    .select('id, user_id, handle, prompt_text, created_at')
-    .eq('user_id', userId)
+    .select('id, user_id, workspace_id, handle, prompt_text, created_at')
     .order('created_at', { ascending: false });
+  const { data, error } = workspaceId
+    ? await query.eq('workspace_id', workspaceId)
+    : await query.eq('user_id', userId).is('workspace_id', null);
   if (error) {
     console.error('Failed to fetch prompt templates:', error);
     throw error;
@@ -55,7 +59,8 @@ export async function fetchPromptTemplates(userId: string): Promise<PromptTempla
 export async function createPromptTemplate(
   userId: string,
   handle: string,
-  promptText: string
+  promptText: string,
+  workspaceId: string | null = null
 ): Promise<PromptTemplate> {
   if (!supabase || !userId) throw new Error('Not authenticated');
   const normalized = normalizeHandle(handle);
@@ -64,6 +69,7 @@ export async function createPromptTemplate(
     .from('prompt_templates')
     .insert({
       user_id: userId,
+      workspace_id: workspaceId,
       handle: normalized,
       prompt_text: promptText.trim() || '',
     })
@@ -76,7 +82,8 @@ export async function createPromptTemplate(
 export async function updatePromptTemplate(
   id: string,
   userId: string,
-  updates: { handle?: string; prompt_text?: string }
+  updates: { handle?: string; prompt_text?: string },
+  workspaceId: string | null = null
 ): Promise<PromptTemplate> {
   if (!supabase) throw new Error('Supabase not configured');
   const payload: Record<string, unknown> = {};
@@ -86,23 +93,17 @@ export async function updatePromptTemplate(
     payload.handle = normalized;
   }
   if (updates.prompt_text !== undefined) payload.prompt_text = updates.prompt_text.trim() ?? '';
-  const { data, error } = await supabase
-    .from('prompt_templates')
-    .update(payload)
-    .eq('id', id)
-    .eq('user_id', userId)
+  const query = supabase.from('prompt_templates').update(payload).eq('id', id);
+  const { data, error } = await (workspaceId ? query.eq('workspace_id', workspaceId) : query.eq('user_id', userId))
     .select()
     .single();
   if (error) throw error;
   return data as PromptTemplate;
 }
 
-export async function deletePromptTemplate(id: string, userId: string): Promise<void> {
+export async function deletePromptTemplate(id: string, userId: string, workspaceId: string | null = null): Promise<void> {
   if (!supabase) throw new Error('Supabase not configured');
-  const { error } = await supabase
-    .from('prompt_templates')
-    .delete()
-    .eq('id', id)
-    .eq('user_id', userId);
+  const query = supabase.from('prompt_templates').delete().eq('id', id);
+  const { error } = workspaceId ? await query.eq('workspace_id', workspaceId) : await query.eq('user_id', userId);
   if (error) throw error;
 }
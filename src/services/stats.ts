@@ -12,8 +12,6 @@ interface StatsData {
   records: { timestamp: number; imageCount: number; apiCalls: number; cost: number }[];
 }
 
-const COST_PER_IMAGE = 0.05; // $0.05 per image (Nano Banana Pro)
-
 function loadStats(): StatsData {
   try {
     const stored = localStorage.getItem(STORAGE_KEY);
@@ -39,9 +37,10 @@ function saveStats(data: StatsData): void {
   }
 }
 
-export function recordGeneration(imageCount: number): void {
+/** costPerImage in USD - from getImageCost in config/pricing */
+export function recordGeneration(imageCount: number, costPerImage: number): void {
   const stats = loadStats();
-  const cost = imageCount * COST_PER_IMAGE;
+  const cost = imageCount * costPerImage;
 
   stats.records.push({
     timestamp: Date.now(),
@@ -0,0 +1,94 @@
+/**
+ * Wildcard lists for `__name__` in prompts (e.g. __lighting__ → one random line per image).
+ */
+
+import { supabase } from '../lib/supabase';
+import { MAX_WILDCARD_VALUE_LENGTH } from '../config/wildcards';
+
+export interface PromptWildcard {
+  id: string;
+  user_id: string;
+  name: string;
+  lines: string[];
+  created_at: string;
+}
+
+/** Normalize name: lowercase, no surrounding underscores, spaces → `-`, only [a-z0-9_-] */
+export function normalizeWildcardName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .replace(/[^a-z0-9_-]/g, '')
+    .replace(/([-_])[-_]+/g, '$1')
+    .replace(/^[-_]+|[-_]+$/g, '');
+}
+
+/** One entry per non-empty line (textarea → stored list) */
+export function parseWildcardLines(text: string): string[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim().slice(0, MAX_WILDCARD_VALUE_LENGTH))
+    .filter(Boolean);
+}
+
+export async function fetchWildcards(userId: string): Promise<PromptWildcard[]> {
+  if (!supabase || !userId) return [];
+  const { data, error } = await supabase
+    .from('prompt_wildcards')
+    .select('id, user_id, name, lines, created_at')
+    .eq('user_id', userId)
+    .order('name', { ascending: true });
+  if (error) {
+    console.error('Failed to fetch wildcards:', error);
+    throw error;
+  }
+  return (data ?? []) as PromptWildcard[];
+}
+
+export async function createWildcard(userId: string, name: string, lines: string[]): Promise<PromptWildcard> {
+  if (!supabase || !userId) throw new Error('Not authenticated');
+  const normalized = normalizeWildcardName(name);
+  if (!normalized) throw new Error('Name is required');
+  const { data, error } = await supabase
+    .from('prompt_wildcards')
+    .insert({ user_id: userId, name: normalized, lines })
+    .select()
+    .single();
+  if (error) throw error;
+  return data as PromptWildcard;
+}
+
+export async function updateWildcard(
+  id: string,
+  userId: string,
+  updates: { name?: string; lines?: string[] }
+): Promise<PromptWildcard> {
+  if (!supabase) throw new Error('Supabase not configured');
+  const payload: Record<string, unknown> = {};
+  if (updates.name !== undefined) {
+    const normalized = normalizeWildcardName(updates.name);
+    if (!normalized) throw new Error('Name is required');
+    payload.name = normalized;
+  }
+  if (updates.lines !== undefined) payload.lines = updates.lines;
+  const { data, error } = await supabase
+    .from('prompt_wildcards')
+    .update(payload)
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select()
+    .single();
+  if (error) throw error;
+  return data as PromptWildcard;
+}
+
+export async function deleteWildcard(id: string, userId: string): Promise<void> {
+  if (!supabase) throw new Error('Supabase not configured');
+  const { error } = await supabase
+    .from('prompt_wildcards')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId);
+  if (error) throw error;
+}
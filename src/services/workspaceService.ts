@@ -0,0 +1,191 @@
+/**
+ * Team workspaces: members share folders, moodboards and prompt templates (rows with that workspace_id).
+ * Owners manage members; editors can add and change shared content; viewers can only use it.
+ * Personal content (workspace_id null) works as before. RLS in supabase-workspaces.sql enforces the roles.
+ * Jobs started in a workspace are paid from its shared credit pool, within each member's monthly cap
+ * (supabase-workspace-credits.sql).
+ */
+
+import { supabase } from '../lib/supabase';
+
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ['owner', 'editor', 'viewer'];
+
+export interface Workspace {
+  id: string;
+  name: string;
+  created_by: string;
+  created_at: string;
+  /** Shared credit pool; owners top it up from their own credits */
+  credits: number;
+  /** The current user's role in this workspace */
+  role: WorkspaceRole;
+}
+
+export interface WorkspaceMember {
+  user_id: string;
+  role: WorkspaceRole;
+  username: string | null;
+  email: string;
+  created_at: string;
+}
+
+/** A member's spend from the pool in the current calendar month */
+export interface WorkspaceCreditUsage {
+  user_id: string;
+  username: string | null;
+  email: string;
+  role: WorkspaceRole;
+  /** null = no cap */
+  monthly_credit_cap: number | null;
+  credits_used: number;
+}
+
+const ACTIVE_WORKSPACE_KEY_PREFIX = 'kreator-active-workspace:';
+
+/** Owners and editors can create, edit and delete shared content */
+export function canEditWorkspace(workspace: Pick<Workspace, 'role'> | null): boolean {
+  return workspace === null || workspace.role === 'owner' || workspace.role === 'editor';
+}
+
+/** Last workspace the user switched to on this device (null = personal) */
+export function loadActiveWorkspaceId(userId: string): string | null {
+  try {
+    return localStorage.getItem(ACTIVE_WORKSPACE_KEY_PREFIX + userId) || null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveActiveWorkspaceId(userId: string, workspaceId: string | null): void {
+  try {
+    if (workspaceId) localStorage.setItem(ACTIVE_WORKSPACE_KEY_PREFIX + userId, workspaceId);
+    else localStorage.removeItem(ACTIVE_WORKSPACE_KEY_PREFIX + userId);
+  } catch {
+    // storage full or disabled - the switch just won't survive a reload
+  }
+}
+
+/** Workspaces the user is a member of, oldest first */
+export async function fetchWorkspaces(userId: string): Promise<Workspace[]> {
+  if (!supabase || !userId) return [];
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('role, workspaces(id, name, created_by, created_at, credits)')
+    .eq('user_id', userId);
+  if (error) {
+    console.error('Failed to fetch workspaces:', error);
+    throw error;
+  }
+  const rows = (data ?? []) as unknown as Array<{ role: WorkspaceRole; workspaces: Omit<Workspace, 'role'> | null }>;
+  return rows
+    .filter((r) => r.workspaces)
+    .map((r) => ({ ...r.workspaces!, role: r.role }))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+export async function createWorkspace(userId: string, name: string): Promise<Workspace> {
+  if (!supabase || !userId) throw new Error('Not authenticated');
+  const trimmed = name.trim() || 'Untitled workspace';
+  const { data, error } = await supabase
+    .from('workspaces')
+    .insert({ name: trimmed, created_by: userId })
+    .select('id, name, created_by, created_at, credits')
+    .single();
+  if (error) throw error;
+  // The insert trigger made the creator its owner
+  return { ...(data as Omit<Workspace, 'role'>), role: 'owner' };
+}
+
+export async function renameWorkspace(workspaceId: string, name: string): Promise<void> {
+  if (!supabase) throw new Error('Supabase not configured');
+  const { error } = await supabase
+    .from('workspaces')
+    .update({ name: name.trim() || 'Untitled workspace' })
+    .eq('id', workspaceId);
+  if (error) throw error;
+}
+
+/**
+ * The creator only (any owner once the creator has left); shared folders, moodboards and prompts go with it
+ * (images move back to their creators' My Kreations). Credits left in the pool go back to the caller - returns how many.
+ */
+export async function deleteWorkspace(workspaceId: string): Promise<number> {
+  if (!supabase) throw new Error('Supabase not configured');
+  const { data, error } = await supabase.rpc('delete_workspace', { ws: workspaceId });
+  if (error) throw error;
+  return (data as number | null) ?? 0;
+}
+
+export async function fetchWorkspaceMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase.rpc('list_workspace_members', { ws: workspaceId });
+  if (error) {
+    console.error('Failed to fetch workspace members:', error);
+    throw error;
+  }
+  return (data ?? []) as WorkspaceMember[];
+}
+
+/** Owners only; the person needs a Kreator account. Adding an existing member changes their role. */
+export async function addWorkspaceMember(workspaceId: string, email: string, role: WorkspaceRole): Promise<void> {
+  if (!supabase) throw new Error('Supabase not configured');
+  const { error } = await supabase.rpc('add_workspace_member', {
+    ws: workspaceId,
+    member_email: email.trim(),
+    member_role: role,
+  });
+  if (error) throw error;
+}
+
+export async function updateWorkspaceMemberRole(workspaceId: string, userId: string, role: WorkspaceRole): Promise<void> {
+  if (!supabase) throw new Error('Supabase not configured');
+  const { error } = await supabase
+    .from('workspace_members')
+    .update({ role })
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId);
+  if (error) throw error;
+}
+
+/** Owners remove anyone; members can remove themselves (leave) */
+export async function removeWorkspaceMember(workspaceId: string, userId: string): Promise<void> {
+  if (!supabase) throw new Error('Supabase not configured');
+  const { error } = await supabase
+    .from('workspace_members')
+    .delete()
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId);
+  if (error) throw error;
+}
+
+/** This month's pool spend per member, biggest spenders first */
+export async function fetchWorkspaceCreditUsage(workspaceId: string): Promise<WorkspaceCreditUsage[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase.rpc('list_workspace_credit_usage', { ws: workspaceId });
+  if (error) {
+    console.error('Failed to fetch workspace credit usage:', error);
+    throw error;
+  }
+  return (data ?? []) as WorkspaceCreditUsage[];
+}
+
+/** Owners only: move credits from the owner's own balance into the pool. Returns the new pool balance. */
+export async function transferCreditsToWorkspace(workspaceId: string, amount: number): Promise<number> {
+  if (!supabase) throw new Error('Supabase not configured');
+  const { data, error } = await supabase.rpc('transfer_credits_to_workspace', { ws: workspaceId, p_amount: amount });
+  if (error) throw error;
+  return data as number;
+}
+
+/** Owners only; null removes the cap. Caps apply per calendar month. */
+export async function setWorkspaceMemberCap(workspaceId: string, userId: string, cap: number | null): Promise<void> {
+  if (!supabase) throw new Error('Supabase not configured');
+  const { error } = await supabase
+    .from('workspace_members')
+    .update({ monthly_credit_cap: cap })
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId);
+  if (error) throw error;
+}
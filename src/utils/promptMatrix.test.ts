@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { expandPromptMatrix, MAX_MATRIX_PROMPTS } from './promptMatrix';
+
+describe('expandPromptMatrix', () => {
+  it('returns the prompt itself when there are no groups', () => {
+    expect(expandPromptMatrix('a red sneaker')).toEqual({ prompts: ['a red sneaker'], groupCount: 0, total: 1 });
+  });
+
+  it('expands every combination with the first group varying slowest', () => {
+    expect(expandPromptMatrix('{red|blue} sneaker on {marble|sand}')).toEqual({
+      prompts: ['red sneaker on marble', 'red sneaker on sand', 'blue sneaker on marble', 'blue sneaker on sand'],
+      groupCount: 2,
+      total: 4,
+    });
+  });
+
+  it('trims options and collapses the gap an empty option leaves', () => {
+    expect(expandPromptMatrix('a { glossy | } shoe').prompts).toEqual(['a glossy shoe', 'a shoe']);
+  });
+
+  it('leaves template variables and braces without a | alone', () => {
+    expect(expandPromptMatrix('{{product}} in {studio} light').prompts).toEqual(['{{product}} in {studio} light']);
+    expect(expandPromptMatrix('{{a|b}} {x|y}').prompts).toEqual(['{{a|b}} x', '{{a|b}} y']);
+  });
+
+  it('reports the total but no prompts past the cap', () => {
+    const matrix = expandPromptMatrix('{a|b} {a|b} {a|b} {a|b} {a|b} {a|b}');
+    expect(matrix.total).toBe(64);
+    expect(matrix.total).toBeGreaterThan(MAX_MATRIX_PROMPTS);
+    expect(matrix.prompts).toEqual([]);
+    expect(matrix.groupCount).toBe(6);
+  });
+});
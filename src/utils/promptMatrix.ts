@@ -0,0 +1,50 @@
+/**
+ * Prompt matrix: `{red|blue} sneaker on {marble|sand}` expands to every combination (4 prompts here).
+ * Only single braces with a `|` inside are groups, so `{{variables}}` and other braces stay literal.
+ */
+
+/** Upper bound on combinations per submit - each one is at least one paid job */
+export const MAX_MATRIX_PROMPTS = 32;
+
+export interface PromptMatrix {
+  /** Expanded prompts in order (the first group varies slowest); the prompt itself when there are no groups */
+  prompts: string[];
+  /** Number of `{a|b}` groups found */
+  groupCount: number;
+  /** Combinations before the cap; prompts is empty when this exceeds MAX_MATRIX_PROMPTS */
+  total: number;
+}
+
+type Segment = string | string[];
+
+const GROUP_PATTERN = /(?<!\{)\{([^{}]*\|[^{}]*)\}(?!\})/g;
+
+function parseSegments(prompt: string): Segment[] {
+  const segments: Segment[] = [];
+  let last = 0;
+  for (const match of prompt.matchAll(GROUP_PATTERN)) {
+    const start = match.index ?? 0;
+    if (start > last) segments.push(prompt.slice(last, start));
+    segments.push(match[1].split('|').map((option) => option.trim()));
+    last = start + match[0].length;
+  }
+  if (last < prompt.length) segments.push(prompt.slice(last));
+  return segments;
+}
+
+export function expandPromptMatrix(prompt: string): PromptMatrix {
+  const segments = parseSegments(prompt);
+  const groups = segments.filter((s): s is string[] => Array.isArray(s));
+  const total = groups.reduce((n, options) => n * options.length, 1);
+  if (groups.length === 0) return { prompts: [prompt], groupCount: 0, total: 1 };
+  if (total > MAX_MATRIX_PROMPTS) return { prompts: [], groupCount: groups.length, total };
+
+  let prompts = [''];
+  for (const segment of segments) {
+    prompts = Array.isArray(segment)
+      ? prompts.flatMap((head) => segment.map((option) => head + option))
+      : prompts.map((head) => head + segment);
+  }
+  // An empty option (`{|matte}`) can leave doubled spaces behind
+  return { prompts: prompts.map((p) => p.replace(/ {2,}/g, ' ').trim()), groupCount: groups.length, total };
+}
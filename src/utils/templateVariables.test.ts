@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import {
+  defaultTemplateValues,
+  fillTemplateVariables,
+  missingTemplateValues,
+  parseTemplateVariables,
+} from './templateVariables';
+
+describe('parseTemplateVariables', () => {
+  it('finds variables in order and keeps the first default given', () => {
+    expect(parseTemplateVariables('{{product}} under {{ lighting = soft light }}, {{product=shoe}}')).toEqual([
+      { name: 'product', defaultValue: 'shoe' },
+      { name: 'lighting', defaultValue: 'soft light' },
+    ]);
+  });
+
+  it('ignores single braces and invalid names', () => {
+    expect(parseTemplateVariables('{a|b} {{two words}}')).toEqual([]);
+  });
+});
+
+describe('template values', () => {
+  const variables = parseTemplateVariables('{{product}} in {{lighting=studio light}}');
+
+  it('starts from the defaults and reports variables still missing a value', () => {
+    const values = defaultTemplateValues(variables);
+    expect(values).toEqual({ product: '', lighting: 'studio light' });
+    expect(missingTemplateValues(variables, values)).toEqual(['product']);
+    expect(missingTemplateValues(variables, { ...values, product: '  ' })).toEqual(['product']);
+    expect(missingTemplateValues(variables, { ...values, product: 'mug' })).toEqual([]);
+  });
+
+  it('fills values, falls back to defaults and leaves open variables in place', () => {
+    const text = '{{product}} in {{lighting=studio light}}';
+    expect(fillTemplateVariables(text, { product: ' mug ' })).toBe('mug in studio light');
+    expect(fillTemplateVariables(text, { lighting: 'neon' })).toBe('{{product}} in neon');
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Prompt template variables: `{{product}}` or `{{lighting=soft studio light}}` (with a default).
+ * Filled in when a template is inserted via @ in the control panel; previewed in My Prompts.
+ */
+
+export interface TemplateVariable {
+  name: string;
+  /** Text after `=`; undefined when the variable has no default (a value is required) */
+  defaultValue?: string;
+}
+
+const VARIABLE_TOKEN = /\{\{\s*([a-zA-Z0-9_-]+)\s*(?:=([^}]*))?\}\}/g;
+
+/** Variables in first-occurrence order; a name used twice keeps the first default it was given */
+export function parseTemplateVariables(text: string): TemplateVariable[] {
+  const variables = new Map<string, TemplateVariable>();
+  for (const match of text.matchAll(VARIABLE_TOKEN)) {
+    const name = match[1];
+    const defaultValue = match[2]?.trim();
+    const known = variables.get(name);
+    if (!known) variables.set(name, { name, defaultValue });
+    else if (known.defaultValue === undefined && defaultValue !== undefined) known.defaultValue = defaultValue;
+  }
+  return [...variables.values()];
+}
+
+/** Starting values for a form: every variable's default (or empty) */
+export function defaultTemplateValues(variables: TemplateVariable[]): Record<string, string> {
+  return Object.fromEntries(variables.map((v) => [v.name, v.defaultValue ?? '']));
+}
+
+/** Variables still without a value (empty input and no default) */
+export function missingTemplateValues(variables: TemplateVariable[], values: Record<string, string>): string[] {
+  return variables.filter((v) => !values[v.name]?.trim() && !v.defaultValue).map((v) => v.name);
+}
+
+/**
+ * Replace each variable with its value, falling back to the default.
+ * Variables with neither stay as `{{name}}` so a preview shows what's still open.
+ */
+export function fillTemplateVariables(text: string, values: Record<string, string>): string {
+  const defaults = new Map(parseTemplateVariables(text).map((v) => [v.name, v.defaultValue]));
+  return text.replace(VARIABLE_TOKEN, (_token, name: string) => values[name]?.trim() || defaults.get(name) || `{{${name}}}`);
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { createSeededRandom, findWildcardNames, resolveWildcards } from './wildcards';
+
+const lists = new Map([
+  ['lighting', ['soft light', 'hard light', 'neon']],
+  ['mood', ['calm']],
+]);
+
+describe('findWildcardNames', () => {
+  it('lowercases and de-duplicates names in first-occurrence order', () => {
+    expect(findWildcardNames('__Mood__ shot, __lighting__ and __mood__, __bad name__')).toEqual(['mood', 'lighting']);
+  });
+});
+
+describe('createSeededRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createSeededRandom(42);
+    const b = createSeededRandom(42);
+    const first = [a(), a(), a()];
+    expect([b(), b(), b()]).toEqual(first);
+    expect(first.every((n) => n >= 0 && n < 1)).toBe(true);
+  });
+});
+
+describe('resolveWildcards', () => {
+  it('draws each occurrence separately and records the draws with the seed', () => {
+    const { prompt, resolution } = resolveWildcards('__mood__, __lighting__ / __lighting__', lists, 7);
+    expect(resolution.seed).toBe(7);
+    expect(resolution.values.map((v) => v.name)).toEqual(['mood', 'lighting', 'lighting']);
+    const [mood, first, second] = resolution.values.map((v) => v.value);
+    expect(prompt).toBe(`${mood}, ${first} / ${second}`);
+    for (const { name, value } of resolution.values) expect(lists.get(name)).toContain(value);
+  });
+
+  it('reproduces the same prompt from the same seed', () => {
+    const prompt = '__lighting__ __lighting__ __lighting__ __lighting__';
+    expect(resolveWildcards(prompt, lists, 123)).toEqual(resolveWildcards(prompt, lists, 123));
+  });
+
+  it('leaves names without a list untouched', () => {
+    const { prompt, resolution } = resolveWildcards('__missing__ and __mood__', lists, 1);
+    expect(prompt).toBe('__missing__ and calm');
+    expect(resolution.values).toEqual([{ name: 'mood', value: 'calm' }]);
+  });
+});
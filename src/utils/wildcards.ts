@@ -0,0 +1,51 @@
+/**
+ * Submit-time wildcard resolution for the control panel: `__name__` → a line from the user's list,
+ * drawn with a seeded generator so a seed reproduces the same picks.
+ */
+
+import type { WildcardDraw, WildcardResolution } from '../config/wildcards';
+
+const WILDCARD_TOKEN = /__([a-z0-9]+(?:[-_][a-z0-9]+)*)__/gi;
+
+/** mulberry32 - tiny, fast and plenty for picking list entries */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+/** Wildcard names used in the prompt (lowercased, first occurrence order, no duplicates) */
+export function findWildcardNames(prompt: string): string[] {
+  return [...new Set(Array.from(prompt.matchAll(WILDCARD_TOKEN), (m) => m[1].toLowerCase()))];
+}
+
+/**
+ * Replace every `__name__` with a line from lists[name] (each occurrence draws separately).
+ * Names without a non-empty list are left as they are - check findWildcardNames first.
+ */
+export function resolveWildcards(
+  prompt: string,
+  lists: ReadonlyMap<string, string[]>,
+  seed: number
+): { prompt: string; resolution: WildcardResolution } {
+  const random = createSeededRandom(seed);
+  const values: WildcardDraw[] = [];
+  const resolved = prompt.replace(WILDCARD_TOKEN, (token, rawName: string) => {
+    const name = rawName.toLowerCase();
+    const lines = lists.get(name);
+    if (!lines?.length) return token;
+    const value = lines[Math.floor(random() * lines.length)];
+    values.push({ name, value });
+    return value;
+  });
+  return { prompt: resolved, resolution: { seed, values } };
+}
@@ -0,0 +1,8 @@
+-- Structured region edits (/api/edit with `regions`): the boxes + instructions that produced the image,
+-- e.g. [{"x": 0.1, "y": 0.2, "width": 0.3, "height": 0.25, "instruction": "make the sky stormy"}]
+-- Coordinates are normalized to the source image. NULL for everything that isn't a region edit.
+-- Run in Supabase SQL Editor
+-- https://supabase.com/dashboard/project/_/sql
+
+ALTER TABLE public.images
+  ADD COLUMN IF NOT EXISTS edit_regions jsonb;
@@ -0,0 +1,35 @@
+-- Async generation jobs: POST /api/generate returns 202 + jobId, the client polls /api/generate/status/:jobId
+-- Run in Supabase SQL Editor
+-- https://supabase.com/dashboard/project/_/sql
+-- The API writes with the service role key (SUPABASE_SERVICE_ROLE_KEY in Vercel env)
+
+CREATE TABLE IF NOT EXISTS public.generation_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'succeeded', 'failed', 'cancelled')),
+  model text NOT NULL,
+  prompt text NOT NULL,
+  aspect_ratio text NOT NULL,
+  image_size text NOT NULL,
+  result jsonb,
+  error text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  started_at timestamptz,
+  completed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_user_id ON public.generation_jobs(user_id, created_at DESC);
+
+ALTER TABLE public.generation_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Users can read their own jobs; inserts/updates only via the service role
+DROP POLICY IF EXISTS "Users can select own generation_jobs" ON public.generation_jobs;
+
+CREATE POLICY "Users can select own generation_jobs"
+ON public.generation_jobs FOR SELECT TO authenticated
+USING (auth.uid() = user_id);
+
+-- Credits reserved for the job (refunded by the API if it fails)
+ALTER TABLE public.generation_jobs
+  ADD COLUMN IF NOT EXISTS credits integer NOT NULL DEFAULT 0;
@@ -0,0 +1,14 @@
+-- Image lineage: which image a generation was derived from, and how
+-- (rerun, edit, variation, upscale). Deleting a parent keeps its children (parent_image_id becomes NULL).
+-- Run in Supabase SQL Editor
+-- https://supabase.com/dashboard/project/_/sql
+
+ALTER TABLE public.images
+  ADD COLUMN IF NOT EXISTS parent_image_id uuid REFERENCES public.images(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS derivation_type text
+    CHECK (derivation_type IN ('rerun', 'edit', 'variation', 'upscale'));
+
+-- Children of an image (lineage strip in ImageModal)
+CREATE INDEX IF NOT EXISTS idx_images_parent_image_id
+  ON public.images(parent_image_id)
+  WHERE parent_image_id IS NOT NULL;
@@ -0,0 +1,6 @@
+-- Model ID that produced each image (echoed back by /api/generate)
+-- Run in Supabase SQL Editor
+-- https://supabase.com/dashboard/project/_/sql
+
+ALTER TABLE public.images
+  ADD COLUMN IF NOT EXISTS model text;
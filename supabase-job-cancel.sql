@@ -0,0 +1,10 @@
+-- Job cancellation: generation_jobs.status can be 'cancelled' (POST /api/generate/cancel/:jobId).
+-- Cancelled jobs are refunded like failed ones.
+-- Run in Supabase SQL Editor
+-- https://supabase.com/dashboard/project/_/sql
+
+ALTER TABLE public.generation_jobs DROP CONSTRAINT IF EXISTS generation_jobs_status_check;
+
+ALTER TABLE public.generation_jobs
+  ADD CONSTRAINT generation_jobs_status_check
+  CHECK (status IN ('pending', 'running', 'succeeded', 'failed', 'cancelled'));
@@ -0,0 +1,42 @@
+-- Wildcard lists for prompts: __name__ draws a random line from the user's list at submit time.
+-- Each image records the values it used (images.wildcards: { seed, values: [{ name, value }] }).
+-- Run in Supabase SQL Editor
+-- https://supabase.com/dashboard/project/_/sql
+
+CREATE TABLE IF NOT EXISTS public.prompt_wildcards (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  lines text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE(user_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_prompt_wildcards_user_id ON public.prompt_wildcards(user_id);
+
+ALTER TABLE public.prompt_wildcards ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can select own prompt_wildcards" ON public.prompt_wildcards;
+DROP POLICY IF EXISTS "Users can insert own prompt_wildcards" ON public.prompt_wildcards;
+DROP POLICY IF EXISTS "Users can update own prompt_wildcards" ON public.prompt_wildcards;
+DROP POLICY IF EXISTS "Users can delete own prompt_wildcards" ON public.prompt_wildcards;
+
+CREATE POLICY "Users can select own prompt_wildcards"
+ON public.prompt_wildcards FOR SELECT TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own prompt_wildcards"
+ON public.prompt_wildcards FOR INSERT TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own prompt_wildcards"
+ON public.prompt_wildcards FOR UPDATE TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own prompt_wildcards"
+ON public.prompt_wildcards FOR DELETE TO authenticated
+USING (auth.uid() = user_id);
+
+ALTER TABLE public.images
+  ADD COLUMN IF NOT EXISTS wildcards jsonb;
@@ -0,0 +1,13 @@
+-- Responsive grid thumbnails: WebP variants per width, e.g. {"256": "thumbs/x-256.webp", "512": "...", "1024": "..."}
+-- thumb_storage_path keeps pointing at the 512 variant for older clients.
+-- '{}' marks rows the backfill (/api/thumbnails/backfill) could not process, so they are not retried forever.
+-- Run in Supabase SQL Editor
+-- https://supabase.com/dashboard/project/_/sql
+
+ALTER TABLE public.images
+  ADD COLUMN IF NOT EXISTS thumb_variants jsonb;
+
+-- Backfill picks rows without variants, oldest first
+CREATE INDEX IF NOT EXISTS idx_images_thumb_variants_missing
+  ON public.images(created_at)
+  WHERE thumb_variants IS NULL;
@@ -0,0 +1,229 @@
+-- Shared credit pool for team workspaces.
+-- Jobs started with a workspaceId draw from workspaces.credits instead of the member's profiles.credits.
+-- Owners fund the pool from their own balance and can cap what each member spends per calendar month
+-- (workspace_members.monthly_credit_cap - owners update it under the supabase-workspaces.sql membership policies).
+-- Spend is counted per member and month in workspace_credit_usage (refunds are taken back off).
+-- Workspaces are deleted by their creator through delete_workspace(), which gives what's left in the pool back to them.
+-- Run in Supabase SQL Editor (after supabase-workspaces.sql and supabase-generation-jobs.sql)
+-- https://supabase.com/dashboard/project/_/sql
+
+-- 1. Pool balance, member caps (NULL = no cap), and which pool a job was charged to
+ALTER TABLE public.workspaces
+  ADD COLUMN IF NOT EXISTS credits integer NOT NULL DEFAULT 0 CHECK (credits >= 0);
+
+ALTER TABLE public.workspace_members
+  ADD COLUMN IF NOT EXISTS monthly_credit_cap integer CHECK (monthly_credit_cap IS NULL OR monthly_credit_cap >= 0);
+GRANT UPDATE (monthly_credit_cap) ON public.workspace_members TO authenticated;
+
+-- No foreign key: a job keeps the pool it was charged to after its workspace is deleted,
+-- so a late refund fails instead of landing on the member's own credits
+ALTER TABLE public.generation_jobs
+  ADD COLUMN IF NOT EXISTS workspace_id uuid;
+ALTER TABLE public.generation_jobs
+  DROP CONSTRAINT IF EXISTS generation_jobs_workspace_id_fkey;
+
+-- Clients may only set a workspace's name; the balance changes through the functions below
+REVOKE INSERT, UPDATE ON public.workspaces FROM authenticated;
+GRANT INSERT (name, created_by) ON public.workspaces TO authenticated;
+GRANT UPDATE (name) ON public.workspaces TO authenticated;
+
+-- Deleting goes through delete_workspace() so the pool isn't lost
+DROP POLICY IF EXISTS "Owners can delete workspaces" ON public.workspaces;
+REVOKE DELETE ON public.workspaces FROM authenticated;
+
+-- 2. Spend per member per month
+CREATE TABLE IF NOT EXISTS public.workspace_credit_usage (
+  workspace_id uuid NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  month date NOT NULL,
+  credits_used integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (workspace_id, user_id, month)
+);
+
+ALTER TABLE public.workspace_credit_usage ENABLE ROW LEVEL SECURITY;
+
+-- Members can read their workspace's usage; writes only via the functions below
+DROP POLICY IF EXISTS "Members can select workspace_credit_usage" ON public.workspace_credit_usage;
+
+CREATE POLICY "Members can select workspace_credit_usage"
+ON public.workspace_credit_usage FOR SELECT TO authenticated
+USING (public.is_workspace_member(workspace_id));
+
+-- 3. Backend: reserve a job's credits from the pool (service role).
+-- Returns the new pool balance, or NULL when the pool can't cover it (nothing is deducted).
+-- Raises WORKSPACE_NOT_MEMBER / WORKSPACE_READ_ONLY / WORKSPACE_CAP_REACHED - the API maps those to 403 / 403 / 402.
+-- Viewers can use shared content but not spend the pool.
+CREATE OR REPLACE FUNCTION public.deduct_workspace_credits(p_workspace_id uuid, p_user_id uuid, p_amount integer)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  member_role text;
+  member_cap integer;
+  used integer;
+  new_credits integer;
+  this_month date := date_trunc('month', now())::date;
+BEGIN
+  SELECT role, monthly_credit_cap INTO member_role, member_cap
+  FROM public.workspace_members
+  WHERE workspace_id = p_workspace_id AND user_id = p_user_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'WORKSPACE_NOT_MEMBER';
+  END IF;
+  IF member_role NOT IN ('owner', 'editor') THEN
+    RAISE EXCEPTION 'WORKSPACE_READ_ONLY';
+  END IF;
+
+  -- Lock the member's usage row so parallel jobs can't both slip under the cap
+  INSERT INTO public.workspace_credit_usage (workspace_id, user_id, month)
+  VALUES (p_workspace_id, p_user_id, this_month)
+  ON CONFLICT DO NOTHING;
+  SELECT credits_used INTO used
+  FROM public.workspace_credit_usage
+  WHERE workspace_id = p_workspace_id AND user_id = p_user_id AND month = this_month
+  FOR UPDATE;
+
+  IF member_cap IS NOT NULL AND used + p_amount > member_cap THEN
+    RAISE EXCEPTION 'WORKSPACE_CAP_REACHED';
+  END IF;
+
+  UPDATE public.workspaces
+  SET credits = credits - p_amount
+  WHERE id = p_workspace_id AND credits >= p_amount
+  RETURNING credits INTO new_credits;
+  IF new_credits IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.workspace_credit_usage
+  SET credits_used = credits_used + p_amount
+  WHERE workspace_id = p_workspace_id AND user_id = p_user_id AND month = this_month;
+  RETURN new_credits;
+END;
+$$;
+
+-- Backend: give a failed/cancelled job's credits back to the pool and off the member's spend for the month it was charged
+CREATE OR REPLACE FUNCTION public.refund_workspace_credits(
+  p_workspace_id uuid,
+  p_user_id uuid,
+  p_amount integer,
+  p_charged_at timestamptz DEFAULT now()
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_credits integer;
+BEGIN
+  UPDATE public.workspaces
+  SET credits = credits + p_amount
+  WHERE id = p_workspace_id
+  RETURNING credits INTO new_credits;
+  IF new_credits IS NULL THEN
+    RAISE EXCEPTION 'Workspace % not found', p_workspace_id;
+  END IF;
+
+  UPDATE public.workspace_credit_usage
+  SET credits_used = greatest(0, credits_used - p_amount)
+  WHERE workspace_id = p_workspace_id
+    AND user_id = p_user_id
+    AND month = date_trunc('month', p_charged_at)::date;
+  RETURN new_credits;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.deduct_workspace_credits(uuid, uuid, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refund_workspace_credits(uuid, uuid, integer, timestamptz) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.deduct_workspace_credits(uuid, uuid, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION public.refund_workspace_credits(uuid, uuid, integer, timestamptz) TO service_role;
+
+-- 4. Owners move credits from their own balance into the pool. Returns the new pool balance.
+CREATE OR REPLACE FUNCTION public.transfer_credits_to_workspace(ws uuid, p_amount integer)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_credits integer;
+BEGIN
+  IF public.workspace_role(ws) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only workspace owners can add credits';
+  END IF;
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Enter a positive number of credits';
+  END IF;
+
+  UPDATE public.profiles
+  SET credits = credits - p_amount,
+      updated_at = now()
+  WHERE id = auth.uid() AND credits >= p_amount;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not enough credits for this transfer';
+  END IF;
+
+  UPDATE public.workspaces
+  SET credits = credits + p_amount
+  WHERE id = ws
+  RETURNING credits INTO new_credits;
+  RETURN new_credits;
+END;
+$$;
+
+-- 5. The creator deletes a workspace and gets the pool balance back. Returns the credits returned.
+-- Other owners can't, so an owner added later can't walk off with the pool; once the creator has left,
+-- any remaining owner can. Shared folders, moodboards and prompts go with it (ON DELETE CASCADE in supabase-workspaces.sql).
+CREATE OR REPLACE FUNCTION public.delete_workspace(ws uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  pool integer;
+  creator uuid;
+BEGIN
+  IF public.workspace_role(ws) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only workspace owners can delete it';
+  END IF;
+
+  -- Lock the row so a job can't be charged between reading the balance and deleting
+  SELECT credits, created_by INTO pool, creator FROM public.workspaces WHERE id = ws FOR UPDATE;
+  IF creator IS DISTINCT FROM auth.uid() AND EXISTS (
+    SELECT 1 FROM public.workspace_members WHERE workspace_id = ws AND user_id = creator
+  ) THEN
+    RAISE EXCEPTION 'Only the workspace creator can delete it';
+  END IF;
+  IF pool > 0 THEN
+    UPDATE public.profiles
+    SET credits = credits + pool,
+        updated_at = now()
+    WHERE id = auth.uid();
+  END IF;
+
+  DELETE FROM public.workspaces WHERE id = ws;
+  RETURN coalesce(pool, 0);
+END;
+$$;
+
+-- Pool usage by member for the current month (members only)
+CREATE OR REPLACE FUNCTION public.list_workspace_credit_usage(ws uuid)
+RETURNS TABLE (user_id uuid, username text, email text, role text, monthly_credit_cap integer, credits_used integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.user_id, p.username, u.email::text, m.role, m.monthly_credit_cap, coalesce(c.credits_used, 0)
+  FROM public.workspace_members m
+  JOIN auth.users u ON u.id = m.user_id
+  LEFT JOIN public.profiles p ON p.id = m.user_id
+  LEFT JOIN public.workspace_credit_usage c
+    ON c.workspace_id = m.workspace_id AND c.user_id = m.user_id AND c.month = date_trunc('month', now())::date
+  WHERE m.workspace_id = ws AND public.is_workspace_member(ws)
+  ORDER BY coalesce(c.credits_used, 0) DESC, m.created_at;
+$$;
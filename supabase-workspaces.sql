@@ -0,0 +1,321 @@
+-- Team workspaces: members with roles (owner / editor / viewer) share folders, moodboards and prompt templates.
+-- Rows with workspace_id NULL stay personal (owned by user_id). Rows with a workspace_id are visible to every
+-- member and editable by owners and editors; user_id then records who created them.
+-- Images in a workspace folder are shown to all members; generating into one needs the editor role.
+-- Run in Supabase SQL Editor (after supabase-folders.sql, supabase-moodboards.sql, supabase-prompt-templates.sql)
+-- https://supabase.com/dashboard/project/_/sql
+
+-- 1. Workspaces and memberships
+CREATE TABLE IF NOT EXISTS public.workspaces (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  created_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.workspace_members (
+  workspace_id uuid NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'viewer' CHECK (role IN ('owner', 'editor', 'viewer')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user_id ON public.workspace_members(user_id);
+
+-- 2. Role checks. SECURITY DEFINER so policies on workspace_members can use them without recursing.
+CREATE OR REPLACE FUNCTION public.workspace_role(ws uuid)
+RETURNS text AS $$
+  SELECT role FROM public.workspace_members WHERE workspace_id = ws AND user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.is_workspace_member(ws uuid)
+RETURNS boolean AS $$
+  SELECT public.workspace_role(ws) IS NOT NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.can_edit_workspace(ws uuid)
+RETURNS boolean AS $$
+  SELECT coalesce(public.workspace_role(ws) IN ('owner', 'editor'), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The creator becomes the first owner
+CREATE OR REPLACE FUNCTION public.handle_new_workspace()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO public.workspace_members (workspace_id, user_id, role)
+  VALUES (NEW.id, NEW.created_by, 'owner')
+  ON CONFLICT DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_workspace_created ON public.workspaces;
+CREATE TRIGGER on_workspace_created
+  AFTER INSERT ON public.workspaces
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_workspace();
+
+-- Owners add members by email (auth.users isn't readable from the client)
+CREATE OR REPLACE FUNCTION public.add_workspace_member(ws uuid, member_email text, member_role text)
+RETURNS void AS $$
+DECLARE
+  member_id uuid;
+BEGIN
+  IF public.workspace_role(ws) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only workspace owners can add members';
+  END IF;
+  IF member_role NOT IN ('owner', 'editor', 'viewer') THEN
+    RAISE EXCEPTION 'Invalid role: %', member_role;
+  END IF;
+  SELECT id INTO member_id FROM auth.users WHERE lower(email) = lower(trim(member_email));
+  IF member_id IS NULL THEN
+    RAISE EXCEPTION 'No Kreator account uses %', member_email;
+  END IF;
+  INSERT INTO public.workspace_members (workspace_id, user_id, role)
+  VALUES (ws, member_id, member_role)
+  ON CONFLICT (workspace_id, user_id) DO UPDATE SET role = EXCLUDED.role;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Members with names and emails for the members list (profiles are only readable by their owner)
+CREATE OR REPLACE FUNCTION public.list_workspace_members(ws uuid)
+RETURNS TABLE (user_id uuid, role text, username text, email text, created_at timestamptz) AS $$
+  SELECT m.user_id, m.role, p.username, u.email::text, m.created_at
+  FROM public.workspace_members m
+  JOIN auth.users u ON u.id = m.user_id
+  LEFT JOIN public.profiles p ON p.id = m.user_id
+  WHERE m.workspace_id = ws AND public.is_workspace_member(ws)
+  ORDER BY m.created_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 3. RLS on workspaces and memberships
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can select workspaces" ON public.workspaces;
+DROP POLICY IF EXISTS "Users can create workspaces" ON public.workspaces;
+DROP POLICY IF EXISTS "Owners can update workspaces" ON public.workspaces;
+DROP POLICY IF EXISTS "Owners can delete workspaces" ON public.workspaces;
+
+CREATE POLICY "Members can select workspaces"
+ON public.workspaces FOR SELECT TO authenticated
+USING (public.is_workspace_member(id) OR created_by = auth.uid());
+
+CREATE POLICY "Users can create workspaces"
+ON public.workspaces FOR INSERT TO authenticated
+WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Owners can update workspaces"
+ON public.workspaces FOR UPDATE TO authenticated
+USING (public.workspace_role(id) = 'owner')
+WITH CHECK (public.workspace_role(id) = 'owner');
+
+CREATE POLICY "Owners can delete workspaces"
+ON public.workspaces FOR DELETE TO authenticated
+USING (public.workspace_role(id) = 'owner');
+
+DROP POLICY IF EXISTS "Members can select memberships" ON public.workspace_members;
+DROP POLICY IF EXISTS "Owners can update memberships" ON public.workspace_members;
+DROP POLICY IF EXISTS "Owners or self can delete memberships" ON public.workspace_members;
+
+-- No insert policy: members are added by the trigger and add_workspace_member()
+CREATE POLICY "Members can select memberships"
+ON public.workspace_members FOR SELECT TO authenticated
+USING (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Owners can update memberships"
+ON public.workspace_members FOR UPDATE TO authenticated
+USING (public.workspace_role(workspace_id) = 'owner')
+WITH CHECK (public.workspace_role(workspace_id) = 'owner');
+
+CREATE POLICY "Owners or self can delete memberships"
+ON public.workspace_members FOR DELETE TO authenticated
+USING (public.workspace_role(workspace_id) = 'owner' OR user_id = auth.uid());
+
+-- Owners may only change a member's role; who is a member changes through add_workspace_member() and deletes
+REVOKE UPDATE ON public.workspace_members FROM authenticated;
+GRANT UPDATE (role) ON public.workspace_members TO authenticated;
+
+-- Keep at least one owner, so a workspace never ends up with nobody to manage or delete it.
+-- Rows going away because the workspace or the user account is deleted are let through.
+CREATE OR REPLACE FUNCTION public.keep_workspace_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.role <> 'owner' OR (TG_OP = 'UPDATE' AND NEW.role = 'owner') THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.workspaces WHERE id = OLD.workspace_id)
+     OR NOT EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id) THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  -- Lock the owner rows so two owners can't demote or remove each other at the same time
+  PERFORM 1 FROM public.workspace_members
+  WHERE workspace_id = OLD.workspace_id AND role = 'owner'
+  FOR UPDATE;
+  IF NOT EXISTS (
+    SELECT 1 FROM public.workspace_members
+    WHERE workspace_id = OLD.workspace_id AND role = 'owner' AND user_id <> OLD.user_id
+  ) THEN
+    RAISE EXCEPTION 'A workspace needs at least one owner - make someone else owner first, or delete the workspace';
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS keep_workspace_owner ON public.workspace_members;
+CREATE TRIGGER keep_workspace_owner
+  BEFORE UPDATE OF role OR DELETE ON public.workspace_members
+  FOR EACH ROW EXECUTE FUNCTION public.keep_workspace_owner();
+
+-- 4. workspace_id on shared content (NULL = personal)
+ALTER TABLE public.folders
+  ADD COLUMN IF NOT EXISTS workspace_id uuid REFERENCES public.workspaces(id) ON DELETE CASCADE;
+ALTER TABLE public.moodboards
+  ADD COLUMN IF NOT EXISTS workspace_id uuid REFERENCES public.workspaces(id) ON DELETE CASCADE;
+ALTER TABLE public.prompt_templates
+  ADD COLUMN IF NOT EXISTS workspace_id uuid REFERENCES public.workspaces(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_folders_workspace_id ON public.folders(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_moodboards_workspace_id ON public.moodboards(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_prompt_templates_workspace_id ON public.prompt_templates(workspace_id);
+
+-- Handles are unique per user for personal templates and per workspace for shared ones
+ALTER TABLE public.prompt_templates DROP CONSTRAINT IF EXISTS prompt_templates_user_id_handle_key;
+CREATE UNIQUE INDEX IF NOT EXISTS prompt_templates_personal_handle_key
+  ON public.prompt_templates(user_id, handle) WHERE workspace_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS prompt_templates_workspace_handle_key
+  ON public.prompt_templates(workspace_id, handle) WHERE workspace_id IS NOT NULL;
+
+-- 5. Folder, moodboard and prompt template policies: personal rows as before, workspace rows by role
+DROP POLICY IF EXISTS "Users can select own folders" ON public.folders;
+DROP POLICY IF EXISTS "Users can insert own folders" ON public.folders;
+DROP POLICY IF EXISTS "Users can update own folders" ON public.folders;
+DROP POLICY IF EXISTS "Users can delete own folders" ON public.folders;
+
+CREATE POLICY "Users can select own folders"
+ON public.folders FOR SELECT TO authenticated
+USING (
+  (workspace_id IS NULL AND auth.uid() = user_id)
+  OR (workspace_id IS NOT NULL AND public.is_workspace_member(workspace_id))
+);
+
+CREATE POLICY "Users can insert own folders"
+ON public.folders FOR INSERT TO authenticated
+WITH CHECK (auth.uid() = user_id AND (workspace_id IS NULL OR public.can_edit_workspace(workspace_id)));
+
+CREATE POLICY "Users can update own folders"
+ON public.folders FOR UPDATE TO authenticated
+USING (
+  (workspace_id IS NULL AND auth.uid() = user_id)
+  OR (workspace_id IS NOT NULL AND public.can_edit_workspace(workspace_id))
+)
+WITH CHECK (
+  (workspace_id IS NULL AND auth.uid() = user_id)
+  OR (workspace_id IS NOT NULL AND public.can_edit_workspace(workspace_id))
+);
+
+CREATE POLICY "Users can delete own folders"
+ON public.folders FOR DELETE TO authenticated
+USING (
+  (workspace_id IS NULL AND auth.uid() = user_id)
+  OR (workspace_id IS NOT NULL AND public.can_edit_workspace(workspace_id))
+);
+
+DROP POLICY IF EXISTS "Users can select own moodboards" ON public.moodboards;
+DROP POLICY IF EXISTS "Users can insert own moodboards" ON public.moodboards;
+DROP POLICY IF EXISTS "Users can update own moodboards" ON public.moodboards;
+DROP POLICY IF EXISTS "Users can delete own moodboards" ON public.moodboards;
+
+CREATE POLICY "Users can select own moodboards"
+ON public.moodboards FOR SELECT TO authenticated
+USING (
+  (workspace_id IS NULL AND auth.uid() = user_id)
+  OR (workspace_id IS NOT NULL AND public.is_workspace_member(workspace_id))
+);
+
+CREATE POLICY "Users can insert own moodboards"
+ON public.moodboards FOR INSERT TO authenticated
+WITH CHECK (auth.uid() = user_id AND (workspace_id IS NULL OR public.can_edit_workspace(workspace_id)));
+
+CREATE POLICY "Users can update own moodboards"
+ON public.moodboards FOR UPDATE TO authenticated
+USING (
+  (workspace_id IS NULL AND auth.uid() = user_id)
+  OR (workspace_id IS NOT NULL AND public.can_edit_workspace(workspace_id))
+)
+WITH CHECK (
+  (workspace_id IS NULL AND auth.uid() = user_id)
+  OR (workspace_id IS NOT NULL AND public.can_edit_workspace(workspace_id))
+);
+
+CREATE POLICY "Users can delete own moodboards"
+ON public.moodboards FOR DELETE TO authenticated
+USING (
+  (workspace_id IS NULL AND auth.uid() = user_id)
+  OR (workspace_id IS NOT NULL AND public.can_edit_workspace(workspace_id))
+);
+
+DROP POLICY IF EXISTS "Users can select own prompt_templates" ON public.prompt_templates;
+DROP POLICY IF EXISTS "Users can insert own prompt_templates" ON public.prompt_templates;
+DROP POLICY IF EXISTS "Users can update own prompt_templates" ON public.prompt_templates;
+DROP POLICY IF EXISTS "Users can delete own prompt_templates" ON public.prompt_templates;
+
+CREATE POLICY "Users can select own prompt_templates"
+ON public.prompt_templates FOR SELECT TO authenticated
+USING (
+  (workspace_id IS NULL AND auth.uid() = user_id)
+  OR (workspace_id IS NOT NULL AND public.is_workspace_member(workspace_id))
+);
+
+CREATE POLICY "Users can insert own prompt_templates"
+ON public.prompt_templates FOR INSERT TO authenticated
+WITH CHECK (auth.uid() = user_id AND (workspace_id IS NULL OR public.can_edit_workspace(workspace_id)));
+
+CREATE POLICY "Users can update own prompt_templates"
+ON public.prompt_templates FOR UPDATE TO authenticated
+USING (
+  (workspace_id IS NULL AND auth.uid() = user_id)
+  OR (workspace_id IS NOT NULL AND public.can_edit_workspace(workspace_id))
+)
+WITH CHECK (
+  (workspace_id IS NULL AND auth.uid() = user_id)
+  OR (workspace_id IS NOT NULL AND public.can_edit_workspace(workspace_id))
+);
+
+CREATE POLICY "Users can delete own prompt_templates"
+ON public.prompt_templates FOR DELETE TO authenticated
+USING (
+  (workspace_id IS NULL AND auth.uid() = user_id)
+  OR (workspace_id IS NOT NULL AND public.can_edit_workspace(workspace_id))
+);
+
+-- 6. Images: own images may be filed into personal folders or workspace folders the user can edit
+DROP POLICY IF EXISTS "Users can insert own images" ON public.images;
+CREATE POLICY "Users can insert own images"
+ON public.images FOR INSERT TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND (folder_id IS NULL OR EXISTS (
+    SELECT 1 FROM public.folders f
+    WHERE f.id = folder_id
+      AND ((f.workspace_id IS NULL AND f.user_id = auth.uid()) OR public.can_edit_workspace(f.workspace_id))
+  ))
+);
+
+DROP POLICY IF EXISTS "Users can update own images" ON public.images;
+CREATE POLICY "Users can update own images"
+ON public.images FOR UPDATE TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND (folder_id IS NULL OR EXISTS (
+    SELECT 1 FROM public.folders f
+    WHERE f.id = folder_id
+      AND ((f.workspace_id IS NULL AND f.user_id = auth.uid()) OR public.can_edit_workspace(f.workspace_id))
+  ))
+);